@@ -32,12 +32,16 @@ export function useFileContentViewer() {
       const storedFile = await fileContentStore.getFileContent(fileId)
 
       if (storedFile) {
-        selectedFileContent.value = storedFile.content
+        // Binary files like images, fonts and wasm are not shown as text
+        selectedFileContent.value =
+          typeof storedFile.content === 'string'
+            ? storedFile.content
+            : `// Binary file (${storedFile.contentType}, ${storedFile.size} bytes)`
         selectedFileName.value = `${packageName}@${packageVersion}/${filePath}`
         selectedFileType.value = storedFile.contentType
 
         console.log(
-          `Loaded file content: ${storedFile.content.length} characters`
+          `Loaded file content: ${storedFile.content.length} ${typeof storedFile.content === 'string' ? 'characters' : 'bytes'}`
         )
       } else {
         console.warn('File content not found in IndexedDB:', fileId)
@@ -45,8 +45,9 @@ export function useTypeScriptVFS(editorContent?: string) {
       // Get all TypeScript and JavaScript files from IndexedDB
       const allFiles = await fileContentStore.getAllFiles()
       const relevantFiles = allFiles.filter(
-        (file) =>
-          file.filePath.endsWith('.ts') ||
+        (file): file is typeof file & { content: string } =>
+          typeof file.content === 'string' &&
+          (file.filePath.endsWith('.ts') ||
           file.filePath.endsWith('.tsx') ||
           file.filePath.endsWith('.d.ts') ||
           file.filePath.endsWith('.js') ||
@@ -55,7 +56,7 @@ export function useTypeScriptVFS(editorContent?: string) {
           file.filePath.endsWith('.mts') ||
           file.filePath.endsWith('.cts') ||
           file.filePath.endsWith('.mjs') ||
-          file.filePath.endsWith('.cjs')
+          file.filePath.endsWith('.cjs'))
       )
 
       console.log(`Found ${relevantFiles.length} relevant files for VFS`)
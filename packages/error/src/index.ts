@@ -38,6 +38,8 @@ export class WebpmError extends Error {
 export interface FetchErrorResponse {
   status: number
   statusText: string
+  /** Milliseconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number
 }
 
 export interface FetchErrorRequest {
@@ -262,25 +264,55 @@ If you think that this is the case, then clear your cache and rerun the command
   }
 }
 
+/**
+ * Why a tarball was refused, SIZE_MISMATCH for incomplete downloads and the
+ * rest for entries the extraction policy does not allow
+ */
+export type BadTarballReason =
+  | 'SIZE_MISMATCH'
+  | 'PATH_TRAVERSAL'
+  | 'UNSAFE_LINK'
+  | 'FILE_TOO_LARGE'
+  | 'PACKAGE_TOO_LARGE'
+
+export interface BadTarballDetails {
+  attempts?: number
+  tarballUrl: string
+  reason?: BadTarballReason
+  /** Path of the offending entry in the archive */
+  entry?: string
+  /** Description of the violation, used as message unless the sizes mismatch */
+  detail?: string
+  expectedSize?: number
+  receivedSize?: number
+}
+
 export class BadTarballError extends WebpmError {
-  public readonly expectedSize: number
-  public readonly receivedSize: number
+  public readonly reason: BadTarballReason
+  public readonly entry?: string
+  public readonly detail?: string
+  public readonly expectedSize?: number
+  public readonly receivedSize?: number
   public readonly tarballUrl: string
 
-  constructor(opts: {
-    attempts?: number
-    expectedSize: number
-    receivedSize: number
-    tarballUrl: string
-  }) {
+  constructor(opts: BadTarballDetails) {
+    const reason = opts.reason ?? 'SIZE_MISMATCH'
     super(
       'BAD_TARBALL',
-      `Bad tarball from "${opts.tarballUrl}". Expected size: ${opts.expectedSize}, received size: ${opts.receivedSize}`,
+      reason === 'SIZE_MISMATCH'
+        ? `Bad tarball from "${opts.tarballUrl}". Expected size: ${opts.expectedSize}, received size: ${opts.receivedSize}`
+        : `Bad tarball from "${opts.tarballUrl}": ${opts.detail ?? reason}`,
       {
         attempts: opts.attempts,
-        hint: 'The tarball may be corrupted or incomplete. Try downloading it again.',
+        hint:
+          reason === 'SIZE_MISMATCH'
+            ? 'The tarball may be corrupted or incomplete. Try downloading it again.'
+            : 'The tarball contains entries that are unsafe to extract, none of its files were extracted.',
       }
     )
+    this.reason = reason
+    this.entry = opts.entry
+    this.detail = opts.detail
     this.expectedSize = opts.expectedSize
     this.receivedSize = opts.receivedSize
     this.tarballUrl = opts.tarballUrl
@@ -451,6 +483,76 @@ export class NoVersionsError extends PackageResolutionError {
   }
 }
 
+export interface LockfileMismatch {
+  /** Dependency field of the package.json the mismatch was found in */
+  field: 'dependencies' | 'devDependencies' | 'optionalDependencies'
+  alias: string
+  /** Specifier in package.json, undefined when the dependency was removed */
+  wanted?: string
+  /** Specifier in the lockfile, undefined when the dependency was added */
+  locked?: string
+}
+
+export class OutdatedLockfileError extends WebpmError {
+  public readonly mismatches: LockfileMismatch[]
+
+  constructor(mismatches: LockfileMismatch[]) {
+    const details = mismatches.map(({ field, alias, wanted, locked }) => {
+      if (locked == null) return `  ${field}.${alias}: ${wanted} is not in the lockfile`
+      if (wanted == null) return `  ${field}.${alias}: ${locked} is in the lockfile but not in package.json`
+      return `  ${field}.${alias}: package.json wants ${wanted}, lockfile has ${locked}`
+    })
+    super(
+      'OUTDATED_LOCKFILE',
+      `Cannot install with a frozen lockfile because it is not up to date with package.json:\n${details.join('\n')}`,
+      {
+        hint: 'Install without a frozen lockfile to update it, then save the new lockfile.',
+      }
+    )
+    this.mismatches = mismatches
+    this.name = 'OutdatedLockfileError'
+  }
+}
+
+export class BrokenLockfileError extends WebpmError {
+  constructor(message: string) {
+    super('BROKEN_LOCKFILE', `The lockfile is broken: ${message}`, {
+      hint: 'Regenerate the lockfile by installing without a frozen lockfile.',
+    })
+    this.name = 'BrokenLockfileError'
+  }
+}
+
+export type ModuleResolutionErrorCode =
+  | 'MODULE_NOT_FOUND'
+  | 'PACKAGE_PATH_NOT_EXPORTED'
+  | 'PACKAGE_IMPORT_NOT_DEFINED'
+  | 'INVALID_PACKAGE_TARGET'
+
+export class ModuleResolutionError extends WebpmError {
+  public readonly specifier: string
+  public readonly importer: string
+
+  constructor(
+    code: ModuleResolutionErrorCode,
+    opts: {
+      specifier: string
+      importer: string
+      message: string
+    }
+  ) {
+    super(code, `Cannot resolve "${opts.specifier}" from ${opts.importer}: ${opts.message}`, {
+      hint:
+        code === 'MODULE_NOT_FOUND'
+          ? 'Check that the package is installed and the path exists.'
+          : 'The package does not expose this path through its "exports" or "imports" field.',
+    })
+    this.specifier = opts.specifier
+    this.importer = opts.importer
+    this.name = 'ModuleResolutionError'
+  }
+}
+
 function hideAuthInformation(authHeaderValue: string): string {
   const [authType, token] = authHeaderValue.split(' ')
   if (token == null) return '[hidden]'
@@ -477,12 +579,27 @@ function toRaw(spec: unknown): string {
 }
 
 // Utility functions for error handling
+
+// Workspace packages are bundled with their own copy of these classes, so
+// errors thrown by another package are also recognized by their code
 export function isWebpmError(error: unknown): error is WebpmError {
-  return error instanceof WebpmError
+  return (
+    error instanceof WebpmError ||
+    (error instanceof Error &&
+      'code' in error &&
+      typeof error.code === 'string' &&
+      error.code.startsWith('ERR_WEBPM_'))
+  )
 }
 
 export function isFetchError(error: unknown): error is FetchError {
-  return error instanceof FetchError
+  return (
+    error instanceof FetchError ||
+    (isWebpmError(error) &&
+      error.code.startsWith('ERR_WEBPM_FETCH_') &&
+      'request' in error &&
+      'response' in error)
+  )
 }
 
 export function isPackageResolutionError(
@@ -552,3 +669,21 @@ export function isUnpublishedPackageError(
 export function isNoVersionsError(error: unknown): error is NoVersionsError {
   return error instanceof NoVersionsError
 }
+
+export function isOutdatedLockfileError(
+  error: unknown
+): error is OutdatedLockfileError {
+  return error instanceof OutdatedLockfileError
+}
+
+export function isBrokenLockfileError(
+  error: unknown
+): error is BrokenLockfileError {
+  return error instanceof BrokenLockfileError
+}
+
+export function isModuleResolutionError(
+  error: unknown
+): error is ModuleResolutionError {
+  return error instanceof ModuleResolutionError
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for sharing in-flight registry requests
+ */
+
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest'
+import { NPMRegistry } from '../index'
+import { sendJson, startFakeRegistry, type FakeRegistry } from './fake-registry'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+describe('registry request coalescing', () => {
+  let registryServer: FakeRegistry
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+    registryServer = await startFakeRegistry(async (_request, response, url) => {
+      // Keep requests in flight long enough for callers to overlap
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      const name = decodeURIComponent(url.pathname.slice(1))
+      if (name === 'missing') {
+        sendJson(response, { error: 'Not found' }, 404)
+        return
+      }
+      sendJson(response, {
+        name,
+        'dist-tags': { latest: '1.0.0' },
+        versions: { '1.0.0': { name, version: '1.0.0', dist: { tarball: `${registryServer.url}/${name}.tgz` } } },
+      })
+    })
+  })
+
+  afterAll(async () => {
+    await registryServer.close()
+    vi.restoreAllMocks()
+  })
+
+  it('makes one request for concurrent cache misses of the same packument', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url })
+    registryServer.requests.length = 0
+
+    const results = await Promise.all([
+      registry.getPackageVersions('tslib'),
+      registry.getPackageVersions('tslib'),
+      registry.getPackageVersions('tslib'),
+      registry.getPackageVersions('@babel/runtime'),
+      registry.getPackageVersions('@babel/runtime'),
+    ])
+    await registry.getPackageVersions('tslib')
+
+    expect(results[0]).toBe(results[2])
+    expect(registryServer.requests.map((request) => request.url).sort()).toEqual(['/%40babel%2Fruntime', '/tslib'])
+    expect(registry.getRequestStats()).toEqual({ requests: 2, coalesced: 3, cacheHits: 1, inFlight: 0 })
+  })
+
+  it('shares failures with every waiting caller and retries afterwards', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url, maxRetries: 0 })
+    registryServer.requests.length = 0
+
+    const results = await Promise.allSettled([
+      registry.getPackageMetadata('missing', '1.0.0'),
+      registry.getPackageMetadata('missing', '1.0.0'),
+    ])
+    await expect(registry.getPackageMetadata('missing', '1.0.0')).rejects.toMatchObject({
+      name: 'RegistryResponseError',
+      response: { status: 404 },
+    })
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected'])
+    expect(registryServer.requests).toHaveLength(2)
+    expect(registry.getRequestStats()).toMatchObject({ requests: 2, coalesced: 1, inFlight: 0 })
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Local HTTP server standing in for an npm registry in tests
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+export type FakeRegistryHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  url: URL
+) => void | Promise<void>
+
+export interface FakeRegistry {
+  /** Base URL of the server */
+  url: string
+  /** Requests received since the last reset */
+  requests: IncomingMessage[]
+  /** Replace the request handler */
+  setHandler(handler: FakeRegistryHandler): void
+  close(): Promise<void>
+}
+
+/**
+ * Respond with a JSON body
+ */
+export function sendJson(
+  response: ServerResponse,
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}
+
+/**
+ * Start a fake registry on a random local port
+ */
+export async function startFakeRegistry(handler: FakeRegistryHandler): Promise<FakeRegistry> {
+  let currentHandler = handler
+  const requests: IncomingMessage[] = []
+
+  const server = createServer((request, response) => {
+    requests.push(request)
+    const url = new URL(request.url!, 'http://localhost')
+    Promise.resolve(currentHandler(request, response, url)).catch((error) => {
+      sendJson(response, { error: String(error) }, 500)
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    setHandler(nextHandler) {
+      currentHandler = nextHandler
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections()
+        server.close((error) => (error ? reject(error) : resolve()))
+      }),
+  }
+}
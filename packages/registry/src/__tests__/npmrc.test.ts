@@ -0,0 +1,173 @@
+/**
+ * Tests for .npmrc parsing, scoped registries and per-registry credentials
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest'
+import { NPMRegistry, RegistryAuth, parseNpmrc, toNerfDart } from '../index'
+import { sendJson, startFakeRegistry, type FakeRegistry } from './fake-registry'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+describe('parseNpmrc', () => {
+  it('parses registries, scopes and credentials', () => {
+    const config = parseNpmrc(
+      [
+        '# comment',
+        '; another comment',
+        'registry=https://npm.example.com/npm/',
+        '@myorg:registry = https://npm.pkg.github.com/',
+        '//npm.pkg.github.com/:_authToken=${GITHUB_TOKEN}',
+        '//npm.example.com/npm/:username=alice',
+        '//npm.example.com/npm/:_password="c2VjcmV0"',
+        '//npm.example.com/npm/:always-auth=true',
+        '//no-credentials.example.com/:always-auth=true',
+      ].join('\n'),
+      { env: { GITHUB_TOKEN: 'gh-token' } }
+    )
+
+    expect(config).toEqual({
+      registry: 'https://npm.example.com/npm/',
+      scopes: { '@myorg': 'https://npm.pkg.github.com/' },
+      credentials: {
+        '//npm.pkg.github.com/': { token: 'gh-token' },
+        '//npm.example.com/npm/': { basicAuth: btoa('alice:secret'), alwaysAuth: true },
+      },
+    })
+  })
+
+  it('applies unscoped auth settings to the default registry', () => {
+    expect(parseNpmrc('_auth=dXNlcjpwYXNz\nalways-auth=true').credentials).toEqual({
+      '//registry.npmjs.org/': { basicAuth: 'dXNlcjpwYXNz', alwaysAuth: true },
+    })
+    expect(parseNpmrc('registry=http://localhost:4873\n_authToken=local').credentials).toEqual({
+      '//localhost:4873/': { token: 'local' },
+    })
+  })
+
+  it('fails on missing environment variables', () => {
+    expect(() => parseNpmrc('//registry.npmjs.org/:_authToken=${NPM_TOKEN}')).toThrow(
+      'Failed to replace env in config: ${NPM_TOKEN}'
+    )
+    expect(() => parseNpmrc('//registry.npmjs.org/:_authToken=${NPM_TOKEN}')).toThrow(
+      expect.objectContaining({ code: 'ERR_WEBPM_NPMRC_MISSING_ENV', hint: expect.stringContaining('NPM_TOKEN') })
+    )
+    expect(parseNpmrc('//registry.npmjs.org/:_authToken=\\${NPM_TOKEN}').credentials).toEqual({
+      '//registry.npmjs.org/': { token: '${NPM_TOKEN}' },
+    })
+  })
+})
+
+describe('RegistryAuth', () => {
+  it('matches credentials by host and registry path', () => {
+    const auth = new RegistryAuth({
+      'https://npm.example.com/': { token: 'root' },
+      '//npm.example.com/private/': { basicAuth: 'cHJpdmF0ZQ==' },
+      '//files.example.com/npm/': { token: 'files', alwaysAuth: true },
+    })
+
+    expect(toNerfDart('https://npm.example.com/private')).toBe('//npm.example.com/private/')
+    expect(auth.getAuthorizationHeader('https://npm.example.com/react')).toBe('Bearer root')
+    expect(auth.getAuthorizationHeader('https://npm.example.com/private/pkg')).toBe('Basic cHJpdmF0ZQ==')
+    expect(auth.getAuthorizationHeader('https://files.example.com/tarballs/pkg.tgz')).toBe('Bearer files')
+    expect(auth.getAuthorizationHeader('https://npm.example.com:8443/react')).toBeUndefined()
+    expect(auth.getAuthorizationHeader('https://evil.example.com/npm.example.com/react')).toBeUndefined()
+  })
+})
+
+describe('NPMRegistry with .npmrc', () => {
+  let publicRegistry: FakeRegistry
+  let scopedRegistry: FakeRegistry
+  let tarballHost: FakeRegistry
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+    const servePackument = (registry: () => FakeRegistry) =>
+      startFakeRegistry((_request, response, url) => {
+        const name = decodeURIComponent(url.pathname.slice(1))
+        sendJson(response, {
+          name,
+          'dist-tags': { latest: '1.0.0' },
+          versions: { '1.0.0': { name, version: '1.0.0', dist: { tarball: `${registry().url}/${name}.tgz` } } },
+        })
+      })
+    publicRegistry = await servePackument(() => publicRegistry)
+    scopedRegistry = await servePackument(() => scopedRegistry)
+    tarballHost = await startFakeRegistry((_request, response) => {
+      response.end('tarball')
+    })
+  })
+
+  afterAll(async () => {
+    await Promise.all([publicRegistry.close(), scopedRegistry.close(), tarballHost.close()])
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    publicRegistry.requests.length = 0
+    scopedRegistry.requests.length = 0
+    tarballHost.requests.length = 0
+  })
+
+  it('routes scoped packages to their registry with its own credentials', async () => {
+    const registry = new NPMRegistry({
+      npmrc: [
+        `registry=${publicRegistry.url}/`,
+        `//${new URL(publicRegistry.url).host}/:_authToken=public-token`,
+        `@myorg:registry=${scopedRegistry.url}/`,
+        `//${new URL(scopedRegistry.url).host}/:_authToken=scoped-token`,
+      ].join('\n'),
+    })
+
+    await registry.getPackageVersions('react')
+    await registry.getPackageVersions('@myorg/ui')
+    await registry.downloadTarball(`${scopedRegistry.url}/@myorg/ui.tgz`)
+    await registry.downloadTarball(`${tarballHost.url}/react.tgz`)
+
+    expect(publicRegistry.requests.map((request) => [request.url, request.headers.authorization])).toEqual([
+      ['/react', 'Bearer public-token'],
+    ])
+    expect(scopedRegistry.requests.map((request) => [request.url, request.headers.authorization])).toEqual([
+      ['/%40myorg%2Fui', 'Bearer scoped-token'],
+      ['/@myorg/ui.tgz', 'Bearer scoped-token'],
+    ])
+    expect(tarballHost.requests[0].headers.authorization).toBeUndefined()
+  })
+
+  it('uses the .npmrc registry unless a URL is given, and substitutes the env option', async () => {
+    const npmrc = [
+      `registry=${publicRegistry.url}/`,
+      `//${new URL(publicRegistry.url).host}/:_authToken=\${NPM_TOKEN}`,
+    ].join('\n')
+
+    await new NPMRegistry({ npmrc, env: { NPM_TOKEN: 'env-token' } }).getPackageVersions('react')
+    await new NPMRegistry({ npmrc, env: { NPM_TOKEN: 'env-token' }, url: scopedRegistry.url }).getPackageVersions('react')
+
+    expect(publicRegistry.requests.map((request) => [request.url, request.headers.authorization])).toEqual([
+      ['/react', 'Bearer env-token'],
+    ])
+    expect(scopedRegistry.requests.map((request) => request.url)).toEqual(['/react'])
+  })
+
+  it('only sends the token option to the configured registry', async () => {
+    const registry = new NPMRegistry({
+      url: publicRegistry.url,
+      token: 'secret',
+      scopes: { '@myorg': scopedRegistry.url },
+    })
+
+    await registry.getPackageVersions('react')
+    await registry.getPackageVersions('@myorg/ui')
+
+    expect(publicRegistry.requests[0].headers.authorization).toBe('Bearer secret')
+    expect(scopedRegistry.requests[0].headers.authorization).toBeUndefined()
+  })
+})
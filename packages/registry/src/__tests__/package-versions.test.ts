@@ -0,0 +1,102 @@
+/**
+ * Tests for fetching abbreviated and full package documents
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest'
+import { NPMRegistry, type PackageVersions } from '../index'
+import { sendJson, startFakeRegistry, type FakeRegistry } from './fake-registry'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const version = {
+  name: 'left-pad',
+  version: '1.3.0',
+  dist: { tarball: 'https://registry.npmjs.org/left-pad/-/left-pad-1.3.0.tgz' },
+}
+
+const abbreviated: PackageVersions = {
+  name: 'left-pad',
+  'dist-tags': { latest: '1.3.0' },
+  modified: '2026-10-01T00:00:00.000Z',
+  versions: { '1.3.0': version },
+}
+
+const full: PackageVersions = {
+  ...abbreviated,
+  modified: undefined,
+  time: { created: '2014-03-14T00:00:00.000Z', modified: '2026-10-01T00:00:00.000Z', '1.3.0': '2018-04-09T00:00:00.000Z' },
+  readme: '# left-pad',
+  versions: { '1.3.0': { ...version, description: 'String left pad' } },
+}
+
+describe('NPMRegistry.getPackageVersions', () => {
+  let registryServer: FakeRegistry
+  let accepts: Array<string | undefined>
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+    registryServer = await startFakeRegistry((request, response) => {
+      const accept = request.headers.accept
+      accepts.push(accept)
+
+      if (accept?.startsWith('application/vnd.npm.install-v1+json')) {
+        sendJson(response, abbreviated, 200, { 'Content-Type': 'application/vnd.npm.install-v1+json' })
+      } else {
+        sendJson(response, full)
+      }
+    })
+  })
+
+  afterAll(async () => {
+    await registryServer.close()
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    accepts = []
+  })
+
+  it('requests the abbreviated document by default', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url })
+
+    const versions = await registry.getPackageVersions('left-pad')
+
+    expect(accepts).toEqual(['application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*'])
+    expect(versions.time).toBeUndefined()
+    expect(versions.modified).toBe('2026-10-01T00:00:00.000Z')
+  })
+
+  it('requests the full document when fullMetadata is set', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url })
+
+    const versions = await registry.getPackageVersions('left-pad', { fullMetadata: true })
+    const latest = await registry.getLatestVersion('left-pad', { fullMetadata: true })
+
+    expect(accepts).toEqual(['application/json'])
+    expect(versions.time?.['1.3.0']).toBe('2018-04-09T00:00:00.000Z')
+    expect(versions.readme).toBe('# left-pad')
+    expect(latest.description).toBe('String left pad')
+  })
+
+  it('caches abbreviated and full documents separately', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url })
+
+    await registry.getPackageVersions('left-pad')
+    const versions = await registry.getPackageVersions('left-pad', { fullMetadata: true })
+    await registry.getPackageVersions('left-pad')
+    await registry.getPackageVersions('left-pad', { fullMetadata: true })
+
+    expect(accepts).toHaveLength(2)
+    expect(versions.readme).toBe('# left-pad')
+    expect(registry.getCacheStats().entries).toEqual(['versions:left-pad', 'versions-full:left-pad'])
+  })
+})
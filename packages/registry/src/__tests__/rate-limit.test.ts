@@ -0,0 +1,188 @@
+/**
+ * Tests for Retry-After handling and adaptive per-host rate limits
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest'
+import {
+  NPMRegistry,
+  RateLimiter,
+  RateLimitError,
+  RegistryResponseError,
+  RetryManager,
+  clearHostRateLimiters,
+  getHostRateLimiter,
+  parseRetryAfter,
+} from '../index'
+import { sendJson, startFakeRegistry, type FakeRegistry } from './fake-registry'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT')
+
+    expect(parseRetryAfter('120')).toBe(120_000)
+    expect(parseRetryAfter('Mon, 19 Oct 2026 10:00:30 GMT', now)).toBe(30_000)
+    expect(parseRetryAfter('Mon, 19 Oct 2026 09:00:00 GMT', now)).toBe(0)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+    expect(parseRetryAfter(null)).toBeUndefined()
+  })
+})
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('pauses requests and halves the budget after backing off', async () => {
+    const limiter = new RateLimiter(100, 0)
+    for (let i = 0; i < 10; i++) {
+      await limiter.checkRateLimit()
+    }
+
+    limiter.backOff(2000)
+
+    await expect(limiter.checkRateLimit()).rejects.toBeInstanceOf(RateLimitError)
+    vi.advanceTimersByTime(2000)
+    for (let i = 0; i < 50; i++) {
+      await limiter.checkRateLimit()
+    }
+    await expect(limiter.checkRateLimit()).rejects.toMatchObject({ retryAfter: 60 })
+
+    // The configured budget comes back after the recovery period
+    vi.advanceTimersByTime(5 * 60 * 1000)
+    await limiter.checkRateLimit()
+    expect(limiter.getStatus().requestsRemaining).toBe(99)
+  })
+
+  it('halves the rate requests were sent at when no budget is configured', async () => {
+    const limiter = new RateLimiter()
+    for (let i = 0; i < 40; i++) {
+      await limiter.checkRateLimit()
+    }
+    vi.advanceTimersByTime(30_000)
+
+    limiter.backOff(0)
+
+    // 40 requests in 30 seconds are 80 per minute
+    expect(limiter.getStatus().requestsRemaining).toBe(40)
+  })
+
+  it('keeps a minimum budget after repeated 429 responses', () => {
+    const limiter = new RateLimiter(100)
+
+    for (let i = 0; i < 10; i++) {
+      limiter.backOff(0)
+    }
+
+    expect(limiter.getStatus().requestsRemaining).toBe(10)
+  })
+
+  it('shares one limiter between clients of the same host', () => {
+    const limiter = getHostRateLimiter('https://registry.example.com/', { requestsPerMinute: 10 })
+
+    expect(getHostRateLimiter('https://registry.example.com/pkg/-/pkg-1.0.0.tgz')).toBe(limiter)
+    expect(getHostRateLimiter('https://registry.example.com:8443/')).not.toBe(limiter)
+    clearHostRateLimiters()
+    expect(getHostRateLimiter('https://registry.example.com/')).not.toBe(limiter)
+  })
+})
+
+describe('RetryManager with rate limit errors', () => {
+  it('waits at most the maximum delay before checking the limit again', async () => {
+    const retryManager = new RetryManager({ maxRetries: 1, maxDelay: 10, jitter: false })
+    const fn = vi.fn(async () => {
+      if (fn.mock.calls.length === 1) throw new RateLimitError('Rate limit exceeded', 60)
+      return 'ok'
+    })
+
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+
+    await expect(retryManager.execute(fn)).resolves.toBe('ok')
+    expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 10)
+    setTimeoutSpy.mockRestore()
+  })
+})
+
+describe('registry requests with Retry-After', () => {
+  let registryServer: FakeRegistry
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+    registryServer = await startFakeRegistry((_request, response) => {
+      sendJson(response, { error: 'Not found' }, 404)
+    })
+  })
+
+  afterAll(async () => {
+    await registryServer.close()
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    registryServer.requests.length = 0
+    clearHostRateLimiters()
+  })
+
+  it('waits for Retry-After on 429 and lowers the budget of the host', async () => {
+    let limited = false
+    registryServer.setHandler((_request, response) => {
+      if (!limited) {
+        limited = true
+        sendJson(response, { error: 'Too many requests' }, 429, { 'Retry-After': '1' })
+        return
+      }
+      sendJson(response, { name: 'pkg', 'dist-tags': { latest: '1.0.0' }, versions: {} })
+    })
+    const registry = new NPMRegistry({ url: registryServer.url, rateLimit: { requestsPerMinute: 60 } })
+
+    const startedAt = Date.now()
+    const versions = await registry.getPackageVersions('pkg')
+
+    expect(versions.name).toBe('pkg')
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(900)
+    expect(registryServer.requests).toHaveLength(2)
+    // Halved from the configured 60 requests per minute, one is used by the retry
+    expect(registry.getRateLimitStatus().requestsRemaining).toBe(29)
+  })
+
+  it('gives up when the registry asks to wait longer than the maximum delay', async () => {
+    registryServer.setHandler((_request, response) => {
+      sendJson(response, { error: 'Service unavailable' }, 503, { 'Retry-After': '3600' })
+    })
+    const registry = new NPMRegistry({ url: registryServer.url })
+
+    await expect(registry.getPackageVersions('pkg')).rejects.toMatchObject({
+      name: 'RegistryResponseError',
+      response: { status: 503, retryAfter: 3_600_000 },
+    })
+    expect(registryServer.requests).toHaveLength(1)
+    expect(registry.getRateLimitStatus().blockedUntil).toBeGreaterThan(Date.now())
+  })
+
+  it('does not retry missing packages', async () => {
+    registryServer.setHandler((_request, response) => {
+      sendJson(response, { error: 'Not found' }, 404)
+    })
+    const registry = new NPMRegistry({ url: registryServer.url })
+
+    const error = await registry.getPackageVersions('missing').catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(RegistryResponseError)
+    expect((error as RegistryResponseError).pkgName).toBe('missing')
+    expect(await registry.packageExists('missing')).toBe(false)
+    expect(registryServer.requests).toHaveLength(2)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Tests for conditional requests and stale-while-revalidate caching
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest'
+import { MemoryCache, NPMRegistry, type PackageVersions } from '../index'
+import { sendJson, startFakeRegistry, type FakeRegistry } from './fake-registry'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const CACHE_TTL = 60_000
+
+function createPackument(latest: string): PackageVersions {
+  return {
+    name: 'pkg',
+    'dist-tags': { latest },
+    versions: {
+      [latest]: { name: 'pkg', version: latest, dist: { tarball: `https://registry.test/pkg-${latest}.tgz` } },
+    },
+  }
+}
+
+describe('registry cache revalidation', () => {
+  let registryServer: FakeRegistry
+  let packument: PackageVersions
+  let etag: string
+  let conditionalHeaders: Array<{ ifNoneMatch?: string; ifModifiedSince?: string }>
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+    registryServer = await startFakeRegistry((request, response) => {
+      conditionalHeaders.push({
+        ifNoneMatch: request.headers['if-none-match'],
+        ifModifiedSince: request.headers['if-modified-since'],
+      })
+
+      if (request.headers['if-none-match'] === etag) {
+        response.writeHead(304, { ETag: etag })
+        response.end()
+        return
+      }
+      sendJson(response, packument, 200, { ETag: etag, 'Last-Modified': 'Mon, 19 Oct 2026 10:00:00 GMT' })
+    })
+  })
+
+  afterAll(async () => {
+    await registryServer.close()
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    packument = createPackument('1.0.0')
+    etag = '"v1"'
+    conditionalHeaders = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('keeps expired entries with validators for revalidation', () => {
+    const cache = new MemoryCache(1000)
+    cache.set('with-etag', 'data', undefined, { etag: '"a"' })
+    cache.set('without-etag', 'data')
+
+    vi.advanceTimersByTime(1001)
+
+    expect(cache.get('with-etag')).toBeNull()
+    expect(cache.getEntry('with-etag')).toMatchObject({ data: 'data', etag: '"a"', expired: true })
+    expect(cache.getEntry('without-etag')).toBeNull()
+    expect(cache.getStats().entries).toEqual(['with-etag'])
+  })
+
+  it('sends If-None-Match after the TTL and renews the entry on 304', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url, cacheTtl: CACHE_TTL })
+
+    const first = await registry.getPackageVersions('pkg')
+    vi.advanceTimersByTime(CACHE_TTL + 1)
+    const revalidated = await registry.getPackageVersions('pkg')
+    await registry.getPackageVersions('pkg')
+
+    expect(revalidated).toEqual(first)
+    expect(conditionalHeaders).toEqual([
+      { ifNoneMatch: undefined, ifModifiedSince: undefined },
+      { ifNoneMatch: '"v1"', ifModifiedSince: 'Mon, 19 Oct 2026 10:00:00 GMT' },
+    ])
+  })
+
+  it('downloads the document again when it changed', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url, cacheTtl: CACHE_TTL })
+
+    await registry.getPackageVersions('pkg')
+    packument = createPackument('2.0.0')
+    etag = '"v2"'
+    vi.advanceTimersByTime(CACHE_TTL + 1)
+
+    const versions = await registry.getPackageVersions('pkg')
+
+    expect(versions['dist-tags'].latest).toBe('2.0.0')
+  })
+
+  it('returns stale entries immediately and refreshes them in the background', async () => {
+    const registry = new NPMRegistry({ url: registryServer.url, cacheTtl: CACHE_TTL, staleWhileRevalidate: true })
+
+    await registry.getPackageVersions('pkg')
+    packument = createPackument('2.0.0')
+    etag = '"v2"'
+    vi.advanceTimersByTime(CACHE_TTL + 1)
+
+    const stale = await registry.getPackageVersions('pkg')
+    expect(stale['dist-tags'].latest).toBe('1.0.0')
+
+    await vi.waitFor(async () => {
+      expect((await registry.getPackageVersions('pkg'))['dist-tags'].latest).toBe('2.0.0')
+    })
+    expect(conditionalHeaders).toHaveLength(2)
+  })
+})
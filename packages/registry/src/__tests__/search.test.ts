@@ -0,0 +1,125 @@
+/**
+ * Tests for package search against a local fake registry
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from 'vitest'
+import { NPMRegistry, clearHostRateLimiters, type SearchResults } from '../index'
+import { sendJson, startFakeRegistry, type FakeRegistry } from './fake-registry'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const searchResults: SearchResults = {
+  objects: [
+    {
+      package: {
+        name: 'react',
+        version: '18.2.0',
+        description: 'React is a JavaScript library for building user interfaces.',
+        keywords: ['react'],
+        links: { npm: 'https://www.npmjs.com/package/react' },
+        publisher: { username: 'react-bot' },
+      },
+      score: {
+        final: 0.9,
+        detail: { quality: 0.8, popularity: 1, maintenance: 0.9 },
+      },
+      searchScore: 100000,
+    },
+  ],
+  total: 1,
+  time: 'Mon, 19 Oct 2026 10:00:00 GMT',
+}
+
+describe('NPMRegistry.searchPackages', () => {
+  let registryServer: FakeRegistry
+  let url: string
+  let requests: URL[]
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+    registryServer = await startFakeRegistry((_request, response, requestUrl) => {
+      requests.push(requestUrl)
+
+      if (requestUrl.pathname !== '/-/v1/search') {
+        sendJson(response, { error: 'Not found' }, 404)
+        return
+      }
+      sendJson(response, searchResults)
+    })
+    url = registryServer.url
+  })
+
+  afterAll(async () => {
+    await registryServer.close()
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    requests = []
+  })
+
+  it('requests the search endpoint with text, size and from', async () => {
+    const registry = new NPMRegistry({ url })
+
+    await expect(registry.searchPackages('react', { limit: 5, offset: 10 })).resolves.toEqual(searchResults)
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].searchParams.get('text')).toBe('react')
+    expect(requests[0].searchParams.get('size')).toBe('5')
+    expect(requests[0].searchParams.get('from')).toBe('10')
+  })
+
+  it('adds qualifiers from the options and clamps the page size', async () => {
+    const registry = new NPMRegistry({ url })
+
+    await registry.searchPackages('router keywords:vue', {
+      limit: 1000,
+      keywords: ['ssr', 'spa'],
+      author: 'posva',
+      scope: '@vue',
+    })
+
+    expect(requests[0].searchParams.get('text')).toBe('router keywords:vue keywords:ssr,spa author:posva scope:vue')
+    expect(requests[0].searchParams.get('size')).toBe('250')
+    expect(requests[0].searchParams.has('from')).toBe(false)
+  })
+
+  it('caches results per query and page', async () => {
+    const registry = new NPMRegistry({ url })
+
+    await registry.searchPackages('react')
+    await registry.searchPackages('react')
+    await registry.searchPackages('react', { offset: 20 })
+
+    expect(requests).toHaveLength(2)
+  })
+
+  it('returns no results for an empty query without a request', async () => {
+    const registry = new NPMRegistry({ url })
+
+    const results = await registry.searchPackages('   ')
+
+    expect(results.objects).toEqual([])
+    expect(results.total).toBe(0)
+    expect(requests).toHaveLength(0)
+  })
+
+  it('counts searches against the rate limit', async () => {
+    // Earlier tests already made requests to this host
+    clearHostRateLimiters()
+    const registry = new NPMRegistry({ url, rateLimit: { requestsPerMinute: 10 } })
+
+    await registry.searchPackages('vue')
+
+    expect(registry.getRateLimitStatus()?.requestsRemaining).toBe(9)
+  })
+})
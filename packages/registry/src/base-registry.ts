@@ -2,17 +2,51 @@
  * Base registry class with common functionality
  */
 
-import type { RegistryConfig, PackageMetadata, PackageVersions } from './types'
+import type {
+  CacheEntry,
+  CacheValidators,
+  RegistryConfig,
+  RequestStats,
+  PackageMetadata,
+  PackageVersions,
+  PackageVersionsOptions,
+  SearchOptions,
+  SearchResults,
+} from './types'
 import { MemoryCache, IndexedDBCache } from './cache'
-import { RetryManager } from './retry'
-import { RateLimiter } from './rate-limiter'
+import { RetryManager, parseRetryAfter } from './retry'
+import { getHostRateLimiter } from './rate-limiter'
+import { RegistryAuth } from './npmrc'
+import { FetchError, RegistryResponseError } from './errors'
 import { fetchWithTimeout, isBrowser } from './browser-adapter'
 
+export interface RequestOptions {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  timeout?: number
+  /** Package the request is for, named in error messages */
+  packageName?: string
+  /** Read the body as JSON (default) or as binary data */
+  responseType?: 'json' | 'arrayBuffer'
+}
+
+export interface RegistryResponse<T> {
+  /** HTTP status, 304 when a conditional request found the cached body current */
+  status: number
+  /** Parsed body, undefined for 304 responses */
+  data?: T
+  /** Validators to store with the body */
+  validators: CacheValidators
+}
+
 export abstract class BaseRegistry {
   protected config: RegistryConfig
   protected cache: MemoryCache | IndexedDBCache
   protected retryManager: RetryManager
-  protected rateLimiter?: RateLimiter
+  protected auth: RegistryAuth
+  private inFlight = new Map<string, Promise<unknown>>()
+  private requestStats = { requests: 0, coalesced: 0, cacheHits: 0 }
 
   constructor(config: RegistryConfig) {
     this.config = {
@@ -20,8 +54,15 @@ export abstract class BaseRegistry {
       cacheTtl: 5 * 60 * 1000, // 5 minutes
       maxRetries: 3,
       ...config,
+      url: config.url.replace(/\/+$/, ''),
     }
 
+    // Credentials are matched to request URLs, so a token never reaches other hosts
+    this.auth = new RegistryAuth({
+      ...this.config.credentials,
+      ...(this.config.token && { [this.config.url]: { token: this.config.token } }),
+    })
+
     // Initialize cache based on environment
     if (isBrowser()) {
       this.cache = new IndexedDBCache(
@@ -42,15 +83,19 @@ export abstract class BaseRegistry {
       jitter: true,
     })
 
-    // Initialize rate limiter if configured
+    // Rate limits are shared by every client talking to the same host
     if (this.config.rateLimit) {
-      this.rateLimiter = new RateLimiter(
-        this.config.rateLimit.requestsPerMinute,
-        this.config.rateLimit.burstLimit
-      )
+      getHostRateLimiter(this.config.url, this.config.rateLimit)
     }
   }
 
+  /**
+   * URL of the default registry, from the options, .npmrc or npmjs
+   */
+  get url(): string {
+    return this.config.url
+  }
+
   /**
    * Initialize the registry (async setup)
    */
@@ -71,26 +116,18 @@ export abstract class BaseRegistry {
   /**
    * Get all available versions for a package
    */
-  abstract getPackageVersions(name: string): Promise<PackageVersions>
+  abstract getPackageVersions(
+    name: string,
+    options?: PackageVersionsOptions
+  ): Promise<PackageVersions>
 
   /**
    * Search for packages
    */
   abstract searchPackages(
-    _query: string,
-    _options?: { limit?: number; offset?: number }
-  ): Promise<void | {
-    objects: Array<{
-      package: PackageMetadata
-      score: {
-        final: number
-        detail: { quality: number; popularity: number; maintenance: number }
-      }
-      searchScore: number
-    }>
-    total: number
-    time: string
-  }>
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchResults>
 
   /**
    * Download package tarball
@@ -102,20 +139,23 @@ export abstract class BaseRegistry {
    */
   protected async makeRequest<T>(
     url: string,
-    options: {
-      method?: string
-      headers?: Record<string, string>
-      body?: string
-      timeout?: number
-    } = {}
+    options: RequestOptions = {}
   ): Promise<T> {
-    // Apply rate limiting
-    if (this.rateLimiter) {
-      await this.rateLimiter.checkRateLimit()
-    }
+    const response = await this.request<T>(url, options)
+    return response.data as T
+  }
 
+  /**
+   * Make an HTTP request and return the body with the cache validators of the
+   * response, a 304 answer to a conditional request has no body
+   */
+  protected async request<T>(
+    url: string,
+    options: RequestOptions & { validators?: CacheValidators } = {}
+  ): Promise<RegistryResponse<T>> {
     // Build full URL
     const fullUrl = url.startsWith('http') ? url : `${this.config.url}${url}`
+    const rateLimiter = getHostRateLimiter(fullUrl)
 
     // Prepare headers
     const headers: Record<string, string> = {
@@ -124,13 +164,25 @@ export abstract class BaseRegistry {
       ...options.headers,
     }
 
-    // Add authentication if configured
-    if (this.config.token) {
-      headers['Authorization'] = `Bearer ${this.config.token}`
+    // Add the credentials of the registry the URL belongs to
+    const authorization = this.auth.getAuthorizationHeader(fullUrl)
+    if (authorization) {
+      headers['Authorization'] = authorization
+    }
+
+    // Ask for the body only if it changed
+    if (options.validators?.etag) {
+      headers['If-None-Match'] = options.validators.etag
+    }
+    if (options.validators?.lastModified) {
+      headers['If-Modified-Since'] = options.validators.lastModified
     }
 
     // Execute request with retry logic
     return this.retryManager.execute(async () => {
+      // Apply rate limiting
+      await rateLimiter.checkRateLimit()
+
       const response = await fetchWithTimeout(fullUrl, {
         method: options.method || 'GET',
         headers,
@@ -138,14 +190,42 @@ export abstract class BaseRegistry {
         timeout: options.timeout || this.config.timeout,
       })
 
+      const validators: CacheValidators = {
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      }
+
+      if (response.status === 304) {
+        return { status: response.status, validators }
+      }
+
       if (!response.ok) {
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+
+        // The host says we are going too fast, slow down all requests to it
+        if (response.status === 429 || (response.status === 503 && retryAfter !== undefined)) {
+          rateLimiter.backOff(retryAfter)
+        }
+
         const errorBody = await this.parseErrorResponse(response)
-        throw new Error(
-          `HTTP ${response.status}: ${response.statusText} - ${JSON.stringify(errorBody)}`
-        )
+        console.debug(`Request to ${fullUrl} failed with HTTP ${response.status}`, errorBody)
+        const request = { url: fullUrl, authHeaderValue: authorization }
+        const failure = { status: response.status, statusText: response.statusText, retryAfter }
+        throw options.packageName
+          ? new RegistryResponseError(request, failure, options.packageName)
+          : new FetchError(request, failure)
       }
 
-      return response.json() as Promise<T>
+      const data =
+        options.responseType === 'arrayBuffer'
+          ? await response.arrayBuffer()
+          : await response.json()
+
+      return {
+        status: response.status,
+        data: data as T,
+        validators,
+      }
     }, `Request to ${fullUrl}`)
   }
 
@@ -181,15 +261,115 @@ export abstract class BaseRegistry {
     const cached = await this.cache.get<T>(key)
     if (cached !== null) {
       console.debug(`Cache hit for key: ${key}`)
+      this.requestStats.cacheHits++
       return cached
     }
 
     // Fetch and cache
-    console.debug(`Cache miss for key: ${key}, fetching...`)
-    const data = await fetcher()
-    await this.cache.set(key, data, ttl)
+    return this.coalesce(key, async () => {
+      console.debug(`Cache miss for key: ${key}, fetching...`)
+      const data = await fetcher()
+      await this.cache.set(key, data, ttl)
+      return data
+    })
+  }
 
-    return data
+  /**
+   * Share one in-flight fetch between concurrent callers with the same key,
+   * so parallel cache misses only make one request
+   */
+  protected coalesce<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key)
+    if (pending) {
+      console.debug(`Joining in-flight request for key: ${key}`)
+      this.requestStats.coalesced++
+      return pending as Promise<T>
+    }
+
+    this.requestStats.requests++
+    const request = fetcher().finally(() => {
+      this.inFlight.delete(key)
+    })
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  /**
+   * Get the registry URL a package is fetched from, scoped packages can use
+   * their own registry
+   */
+  protected getRegistryUrl(packageName: string): string {
+    if (packageName.startsWith('@')) {
+      const scopeRegistry = this.config.scopes?.[packageName.split('/')[0]]
+      if (scopeRegistry) {
+        return scopeRegistry.replace(/\/+$/, '')
+      }
+    }
+    return this.config.url
+  }
+
+  /**
+   * Get a cached response, revalidating expired entries with a conditional
+   * request so unchanged documents are not downloaded again
+   */
+  protected async getCachedOrRevalidate<T>(
+    key: string,
+    url: string,
+    options: RequestOptions = {},
+    ttl?: number
+  ): Promise<T> {
+    const entry = await this.cache.getEntry<T>(key)
+
+    if (entry && !entry.expired) {
+      console.debug(`Cache hit for key: ${key}`)
+      this.requestStats.cacheHits++
+      return entry.data
+    }
+
+    if (entry && this.config.staleWhileRevalidate) {
+      console.debug(`Stale cache hit for key: ${key}, revalidating in background...`)
+      this.requestStats.cacheHits++
+      this.revalidate(key, url, options, entry, ttl).catch((error) => {
+        console.warn(`Background revalidation failed for key: ${key}`, error)
+      })
+      return entry.data
+    }
+
+    console.debug(
+      `Cache ${entry ? 'entry expired' : 'miss'} for key: ${key}, fetching...`
+    )
+    return this.revalidate(key, url, options, entry ?? undefined, ttl)
+  }
+
+  /**
+   * Fetch a response into the cache, at most once at a time per key
+   */
+  private revalidate<T>(
+    key: string,
+    url: string,
+    options: RequestOptions,
+    entry: CacheEntry<T> | undefined,
+    ttl?: number
+  ): Promise<T> {
+    return this.coalesce(key, async () => {
+      const validators = entry && { etag: entry.etag, lastModified: entry.lastModified }
+      const response = await this.request<T>(url, { ...options, validators })
+
+      if (response.status === 304) {
+        if (!entry) {
+          throw new Error(`Unexpected 304 response for unconditional request to ${url}`)
+        }
+        console.debug(`Cache entry not modified for key: ${key}`)
+        await this.cache.set(key, entry.data, ttl, {
+          etag: response.validators.etag ?? entry.etag,
+          lastModified: response.validators.lastModified ?? entry.lastModified,
+        })
+        return entry.data
+      }
+
+      await this.cache.set(key, response.data as T, ttl, response.validators)
+      return response.data as T
+    })
   }
 
   /**
@@ -200,10 +380,14 @@ export abstract class BaseRegistry {
   }
 
   /**
-   * Generate cache key for package versions
+   * Generate cache key for package versions, abbreviated and full documents
+   * are cached separately
    */
-  protected getPackageVersionsCacheKey(name: string): string {
-    return `versions:${name}`
+  protected getPackageVersionsCacheKey(
+    name: string,
+    fullMetadata = false
+  ): string {
+    return `${fullMetadata ? 'versions-full' : 'versions'}:${name}`
   }
 
   /**
@@ -236,9 +420,17 @@ export abstract class BaseRegistry {
   }
 
   /**
-   * Get rate limit status
+   * Get counts of requests made, requests saved by joining an in-flight
+   * request, and cache hits
+   */
+  getRequestStats(): RequestStats {
+    return { ...this.requestStats, inFlight: this.inFlight.size }
+  }
+
+  /**
+   * Get rate limit status of the registry host, shared with other clients
    */
   getRateLimitStatus() {
-    return this.rateLimiter?.getStatus()
+    return getHostRateLimiter(this.config.url).getStatus()
   }
 }
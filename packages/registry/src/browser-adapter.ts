@@ -62,20 +62,19 @@ export async function fetchWithTimeout(
   } catch (error) {
     clearTimeout(timeoutId)
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new TimeoutError(
-          `Request to ${url} timed out after ${timeout}ms`,
-          timeout
-        )
-      }
-
-      if (error.message.includes('fetch')) {
-        throw new NetworkError(`Network error: ${error.message}`, error)
-      }
+    // Only our own timeout is reported as a timeout, a caller's signal aborts
+    if (controller.signal.aborted) {
+      throw new TimeoutError(url, timeout)
+    }
+    if (signal?.aborted) {
+      throw error
     }
 
-    throw new NetworkError(`Failed to fetch ${url}: ${error}`, error as Error)
+    throw new NetworkError(
+      url,
+      error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error : undefined
+    )
   }
 }
 
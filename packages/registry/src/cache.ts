@@ -1,10 +1,20 @@
 /**
  * In-memory cache implementation with TTL support
+ *
+ * Expired entries with an ETag or Last-Modified date are kept, so they can be
+ * revalidated with a conditional request instead of being downloaded again.
  */
 
-import type { CacheEntry } from './types'
+import type { CacheEntry, CacheValidators } from './types'
 import { CacheError } from './errors'
 
+/**
+ * Check if an entry has validators for a conditional request
+ */
+function isRevalidatable(entry: CacheEntry): boolean {
+  return Boolean(entry.etag || entry.lastModified)
+}
+
 export class MemoryCache {
   private cache = new Map<string, CacheEntry>()
   private defaultTtl: number
@@ -18,29 +28,47 @@ export class MemoryCache {
    * Get a value from the cache
    */
   get<T>(key: string): T | null {
-    const entry = this.cache.get(key)
+    const entry = this.getEntry<T>(key)
+    return entry && !entry.expired ? entry.data : null
+  }
+
+  /**
+   * Get a cache entry, including expired entries that can be revalidated
+   */
+  getEntry<T>(key: string): CacheEntry<T> | null {
+    const entry = this.cache.get(key) as CacheEntry<T> | undefined
 
     if (!entry) {
       return null
     }
 
     if (this.isExpired(entry)) {
-      this.cache.delete(key)
-      return null
+      if (!isRevalidatable(entry)) {
+        this.cache.delete(key)
+        return null
+      }
+      return { ...entry, expired: true }
     }
 
-    return entry.data as T
+    return entry
   }
 
   /**
    * Set a value in the cache
    */
-  set<T>(key: string, data: T, ttl?: number): void {
+  set<T>(
+    key: string,
+    data: T,
+    ttl?: number,
+    validators: CacheValidators = {}
+  ): void {
     const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
       ttl: ttl ?? this.defaultTtl,
       expired: false,
+      etag: validators.etag,
+      lastModified: validators.lastModified,
     }
 
     this.cache.set(key, entry)
@@ -142,6 +170,14 @@ export class IndexedDBCache {
    * Get a value from the cache
    */
   async get<T>(key: string): Promise<T | null> {
+    const entry = await this.getEntry<T>(key)
+    return entry && !entry.expired ? entry.data : null
+  }
+
+  /**
+   * Get a cache entry, including expired entries that can be revalidated
+   */
+  async getEntry<T>(key: string): Promise<CacheEntry<T> | null> {
     if (!this.db) {
       await this.init()
     }
@@ -164,12 +200,16 @@ export class IndexedDBCache {
         }
 
         if (this.isExpired(result)) {
-          this.delete(key).catch(() => {}) // Clean up expired entry
-          resolve(null)
+          if (!isRevalidatable(result)) {
+            this.delete(key).catch(() => {}) // Clean up expired entry
+            resolve(null)
+            return
+          }
+          resolve({ ...result, expired: true })
           return
         }
 
-        resolve(result.data)
+        resolve(result)
       }
     })
   }
@@ -177,7 +217,12 @@ export class IndexedDBCache {
   /**
    * Set a value in the cache
    */
-  async set<T>(key: string, data: T, ttl?: number): Promise<void> {
+  async set<T>(
+    key: string,
+    data: T,
+    ttl?: number,
+    validators: CacheValidators = {}
+  ): Promise<void> {
     if (!this.db) {
       await this.init()
     }
@@ -188,6 +233,8 @@ export class IndexedDBCache {
       timestamp: Date.now(),
       ttl: ttl ?? this.defaultTtl,
       expired: false,
+      etag: validators.etag,
+      lastModified: validators.lastModified,
     }
 
     return new Promise((resolve, reject) => {
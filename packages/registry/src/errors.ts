@@ -1,7 +1,17 @@
 /**
  * Registry-specific error classes
+ *
+ * Network failures, timeouts and error responses are reported with the
+ * shared classes from @webpm/error.
  */
 
+export {
+  NetworkError,
+  TimeoutError,
+  FetchError,
+  RegistryResponseError,
+} from '@webpm/error'
+
 export class RegistryError extends Error {
   public readonly statusCode?: number
   public readonly body?: unknown
@@ -21,20 +31,6 @@ export class RegistryError extends Error {
   }
 }
 
-export class NetworkError extends RegistryError {
-  constructor(message: string, originalError?: Error) {
-    super(message, undefined, originalError, true)
-    this.name = 'NetworkError'
-  }
-}
-
-export class TimeoutError extends RegistryError {
-  constructor(message: string, timeout: number) {
-    super(message, 408, { timeout }, true)
-    this.name = 'TimeoutError'
-  }
-}
-
 export class RateLimitError extends RegistryError {
   public readonly retryAfter?: number
 
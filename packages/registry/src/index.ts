@@ -11,18 +11,29 @@ import type { RegistryConfig } from './types'
 // Core types
 export type {
   RegistryConfig,
+  RegistryCredentials,
+  NpmrcConfig,
   PackageMetadata,
   PackageVersions,
+  PackageVersionsOptions,
   RegistryError,
   CacheEntry,
+  CacheValidators,
   RetryOptions,
   RateLimitState,
+  RequestStats,
+  SearchOptions,
+  SearchPackage,
+  SearchResult,
+  SearchResults,
 } from './types'
 
 // Error classes
 export {
   NetworkError,
   TimeoutError,
+  FetchError,
+  RegistryResponseError,
   RateLimitError,
   AuthenticationError,
   NotFoundError,
@@ -33,10 +44,13 @@ export {
 export { MemoryCache, IndexedDBCache } from './cache'
 
 // Retry logic
-export { RetryManager, createRetryManager } from './retry'
+export { RetryManager, createRetryManager, parseRetryAfter } from './retry'
 
 // Rate limiting
-export { RateLimiter } from './rate-limiter'
+export { RateLimiter, getHostRateLimiter, clearHostRateLimiters } from './rate-limiter'
+
+// .npmrc parsing and credentials
+export { parseNpmrc, toNerfDart, RegistryAuth, type ParseNpmrcOptions } from './npmrc'
 
 // Browser adapter utilities
 export {
@@ -51,7 +65,11 @@ export {
 } from './browser-adapter'
 
 // Base registry class
-export { BaseRegistry } from './base-registry'
+export {
+  BaseRegistry,
+  type RequestOptions,
+  type RegistryResponse,
+} from './base-registry'
 
 // Registry implementations
 export { NPMRegistry } from './npm-registry'
@@ -3,14 +3,38 @@
  */
 
 import { BaseRegistry } from './base-registry'
-import type { RegistryConfig, PackageMetadata, PackageVersions } from './types'
-import { fetchWithTimeout } from './browser-adapter'
+import type {
+  RegistryConfig,
+  PackageMetadata,
+  PackageVersions,
+  PackageVersionsOptions,
+  SearchOptions,
+  SearchResults,
+} from './types'
+import { buildQueryString } from './browser-adapter'
+import { parseNpmrc } from './npmrc'
+import { RegistryResponseError } from './errors'
+
+/** Accept header for abbreviated install metadata, with full documents as fallback */
+const ABBREVIATED_METADATA_ACCEPT =
+  'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*'
+
+/** Largest page size the search endpoint accepts */
+const MAX_SEARCH_LIMIT = 250
 
 export class NPMRegistry extends BaseRegistry {
   constructor(config: Partial<RegistryConfig> = {}) {
+    const npmrc =
+      typeof config.npmrc === 'string'
+        ? parseNpmrc(config.npmrc, { env: config.env })
+        : config.npmrc
+
+    // Explicit options take precedence over .npmrc settings
     super({
-      url: 'https://registry.npmjs.org',
       ...config,
+      url: config.url ?? npmrc?.registry ?? 'https://registry.npmjs.org',
+      scopes: { ...npmrc?.scopes, ...config.scopes },
+      credentials: { ...npmrc?.credentials, ...config.credentials },
     })
   }
 
@@ -27,7 +51,8 @@ export class NPMRegistry extends BaseRegistry {
       console.debug(`Fetching package metadata for ${name}@${version}`)
 
       const response = await this.makeRequest<PackageVersions>(
-        `/${encodeURIComponent(name)}`
+        `${this.getRegistryUrl(name)}/${encodeURIComponent(name)}`,
+        { packageName: name }
       )
 
       if (!response.versions[version]) {
@@ -40,42 +65,74 @@ export class NPMRegistry extends BaseRegistry {
 
   /**
    * Get all available versions for a package
+   *
+   * Fetches the abbreviated document unless `fullMetadata` is set, which is
+   * much smaller for packages with many versions.
    */
-  async getPackageVersions(name: string): Promise<PackageVersions> {
-    const cacheKey = this.getPackageVersionsCacheKey(name)
-
-    return this.getCachedOrFetch(cacheKey, async () => {
-      console.debug(`Fetching package versions for ${name}`)
+  async getPackageVersions(
+    name: string,
+    options: PackageVersionsOptions = {}
+  ): Promise<PackageVersions> {
+    const fullMetadata = options.fullMetadata ?? false
+    const cacheKey = this.getPackageVersionsCacheKey(name, fullMetadata)
 
-      const response = await this.makeRequest<PackageVersions>(
-        `/${encodeURIComponent(name)}`
-      )
-      return response
-    })
+    return this.getCachedOrRevalidate<PackageVersions>(
+      cacheKey,
+      `${this.getRegistryUrl(name)}/${encodeURIComponent(name)}`,
+      fullMetadata
+        ? { packageName: name }
+        : { packageName: name, headers: { Accept: ABBREVIATED_METADATA_ACCEPT } }
+    )
   }
 
   /**
    * Search for packages
+   *
+   * The query can contain qualifiers like `keywords:react` or `author:sindresorhus`,
+   * the same qualifiers can be given as options.
    */
-  async searchPackages(): Promise<void> {
-    throw new Error('Search packages not implemented')
+  async searchPackages(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResults> {
+    const text = this.getSearchText(query, options)
+    if (!text) {
+      return { objects: [], total: 0, time: new Date().toUTCString() }
+    }
+
+    const limit =
+      options.limit === undefined
+        ? undefined
+        : Math.min(Math.max(Math.trunc(options.limit), 1), MAX_SEARCH_LIMIT)
+    const offset = Math.max(Math.trunc(options.offset ?? 0), 0)
+    const cacheKey = this.getSearchCacheKey(text, limit, offset)
+
+    return this.getCachedOrFetch(cacheKey, async () => {
+      console.debug(`Searching packages for "${text}"`)
+
+      const params: Record<string, string | number> = { text }
+      if (limit !== undefined) params.size = limit
+      if (offset > 0) params.from = offset
+
+      return this.makeRequest<SearchResults>(
+        `/-/v1/search?${buildQueryString(params)}`
+      )
+    })
   }
 
   /**
    * Download package tarball
+   *
+   * Uses the same timeout, retries, rate limit and credentials as metadata
+   * requests, failed downloads throw a `FetchError` with the URL and status.
    */
   async downloadTarball(url: string): Promise<ArrayBuffer> {
     console.debug(`Downloading tarball from: ${url}`)
 
-    const response = await fetchWithTimeout(url, {
-      timeout: this.config.timeout,
+    return this.makeRequest<ArrayBuffer>(url, {
+      headers: { Accept: '*/*' },
+      responseType: 'arrayBuffer',
     })
-
-    if (!response.ok) {
-      throw new Error(`Failed to download tarball: HTTP ${response.status}`)
-    }
-
-    return response.arrayBuffer()
   }
 
   /**
@@ -115,8 +172,11 @@ export class NPMRegistry extends BaseRegistry {
   /**
    * Get latest version of a package
    */
-  async getLatestVersion(name: string): Promise<PackageMetadata> {
-    const versions = await this.getPackageVersions(name)
+  async getLatestVersion(
+    name: string,
+    options: PackageVersionsOptions = {}
+  ): Promise<PackageMetadata> {
+    const versions = await this.getPackageVersions(name, options)
 
     if (!versions['dist-tags']?.latest) {
       throw new Error(`No latest version found for package ${name}`)
@@ -145,13 +205,35 @@ export class NPMRegistry extends BaseRegistry {
       await this.getPackageVersions(name)
       return true
     } catch (error) {
-      if (error instanceof Error && error.message.includes('404')) {
+      if (error instanceof RegistryResponseError && error.response.status === 404) {
         return false
       }
       throw error
     }
   }
 
+  /**
+   * Combine the query with qualifiers from the search options
+   */
+  private getSearchText(query: string, options: SearchOptions): string {
+    const qualifiers = [query.trim()]
+
+    if (options.keywords?.length) {
+      qualifiers.push(`keywords:${options.keywords.join(',')}`)
+    }
+    if (options.author) {
+      qualifiers.push(`author:${options.author}`)
+    }
+    if (options.maintainer) {
+      qualifiers.push(`maintainer:${options.maintainer}`)
+    }
+    if (options.scope) {
+      qualifiers.push(`scope:${options.scope.replace(/^@/, '')}`)
+    }
+
+    return qualifiers.filter(Boolean).join(' ')
+  }
+
   /**
    * Simple version comparison (basic implementation)
    * In a real implementation, you'd use a proper semver library
@@ -0,0 +1,193 @@
+/**
+ * .npmrc parsing and per-registry credentials
+ *
+ * Credentials are keyed by "nerf dart", the registry URL without its protocol
+ * (`//registry.npmjs.org/`), and only sent to URLs under that prefix.
+ *
+ * `always-auth` differs from npm, where it sends credentials with requests that
+ * would otherwise be anonymous. webpm always sends credentials to their registry,
+ * so `always-auth` instead extends them to every path on the registry host, for
+ * registries that serve tarballs outside the registry path.
+ */
+
+import { WebpmError } from '@webpm/error'
+import { getRegistryName } from '@webpm/utils'
+import type { NpmrcConfig, RegistryCredentials } from './types'
+
+export interface ParseNpmrcOptions {
+  /** Variables substituted for `${NAME}` in values */
+  env?: Record<string, string | undefined>
+}
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org/'
+
+/**
+ * Parse the contents of an .npmrc file
+ */
+export function parseNpmrc(
+  content: string,
+  options: ParseNpmrcOptions = {}
+): NpmrcConfig {
+  const config: NpmrcConfig = { scopes: {}, credentials: {} }
+  // Unscoped auth settings apply to the default registry
+  const defaultAuth: Record<string, string> = {}
+  const registryAuth: Record<string, Record<string, string>> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue
+
+    const separator = line.indexOf('=')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim()
+    const value = substituteEnv(unquote(line.slice(separator + 1).trim()), options.env ?? {})
+
+    if (key === 'registry') {
+      config.registry = value
+    } else if (key.startsWith('@') && key.endsWith(':registry')) {
+      config.scopes[key.slice(0, -':registry'.length)] = value
+    } else if (key.startsWith('//')) {
+      const authSeparator = key.lastIndexOf(':')
+      if (authSeparator === -1) continue
+      const nerfDart = toNerfDart(key.slice(0, authSeparator))
+      registryAuth[nerfDart] ??= {}
+      registryAuth[nerfDart][key.slice(authSeparator + 1)] = value
+    } else {
+      defaultAuth[key] = value
+    }
+  }
+
+  const defaultCredentials = toCredentials(defaultAuth)
+  if (defaultCredentials) {
+    config.credentials[toNerfDart(config.registry ?? DEFAULT_REGISTRY)] = defaultCredentials
+  }
+  for (const [nerfDart, settings] of Object.entries(registryAuth)) {
+    const credentials = toCredentials({
+      ...settings,
+      'always-auth': settings['always-auth'] ?? defaultAuth['always-auth'],
+    })
+    if (credentials) {
+      config.credentials[nerfDart] = credentials
+    }
+  }
+
+  return config
+}
+
+/**
+ * Get the nerf dart of a registry URL, e.g. `//npm.pkg.github.com/owner/`
+ */
+export function toNerfDart(url: string): string {
+  const parsed = new URL(url.startsWith('//') ? `https:${url}` : url)
+  const pathname = parsed.pathname.endsWith('/') ? parsed.pathname : `${parsed.pathname}/`
+  return `//${parsed.host}${pathname}`
+}
+
+/**
+ * Finds the credentials for request URLs, so each registry host only
+ * receives its own credentials
+ */
+export class RegistryAuth {
+  private hosts = new Map<string, Array<{ path: string; credentials: RegistryCredentials }>>()
+
+  /**
+   * @param credentials - Credentials keyed by registry URL or nerf dart
+   */
+  constructor(credentials: Record<string, RegistryCredentials> = {}) {
+    // Later keys for the same registry replace earlier ones
+    const byNerfDart = new Map(
+      Object.entries(credentials).map(([registry, value]) => [toNerfDart(registry), value])
+    )
+
+    for (const [nerfDart, registryCredentials] of byNerfDart) {
+      const url = new URL(`https:${nerfDart}`)
+      const host = getRegistryName(url.href)
+      const entries = this.hosts.get(host) ?? []
+      entries.push({ path: url.pathname, credentials: registryCredentials })
+      // Most specific registry path first
+      entries.sort((a, b) => b.path.length - a.path.length)
+      this.hosts.set(host, entries)
+    }
+  }
+
+  /**
+   * Get the credentials to send with a request
+   */
+  getCredentials(url: string): RegistryCredentials | undefined {
+    const entries = this.hosts.get(getRegistryName(url))
+    if (!entries) return undefined
+
+    const { pathname } = new URL(url)
+    return (
+      entries.find((entry) => pathname.startsWith(entry.path)) ??
+      entries.find((entry) => entry.credentials.alwaysAuth)
+    )?.credentials
+  }
+
+  /**
+   * Get the Authorization header value for a request
+   */
+  getAuthorizationHeader(url: string): string | undefined {
+    const credentials = this.getCredentials(url)
+    if (credentials?.token) {
+      return `Bearer ${credentials.token}`
+    }
+    if (credentials?.basicAuth) {
+      return `Basic ${credentials.basicAuth}`
+    }
+    return undefined
+  }
+}
+
+/**
+ * Build credentials from `_authToken`, `_auth`, `username`, `_password` and `always-auth`
+ */
+function toCredentials(settings: Record<string, string | undefined>): RegistryCredentials | undefined {
+  const credentials: RegistryCredentials = {}
+
+  if (settings._authToken) {
+    credentials.token = settings._authToken
+  }
+  if (settings._auth) {
+    credentials.basicAuth = settings._auth
+  } else if (settings.username && settings._password) {
+    // _password is stored base64 encoded
+    credentials.basicAuth = btoa(`${settings.username}:${atob(settings._password)}`)
+  }
+  if (!credentials.token && !credentials.basicAuth) {
+    return undefined
+  }
+
+  if (settings['always-auth'] === 'true') {
+    credentials.alwaysAuth = true
+  }
+  return credentials
+}
+
+function unquote(value: string): string {
+  const quote = value[0]
+  if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length > 1) {
+    return value.slice(1, -1)
+  }
+  return value
+}
+
+/**
+ * Replace `${NAME}` with environment variables, like npm does
+ */
+function substituteEnv(value: string, env: Record<string, string | undefined>): string {
+  return value.replace(/(\\*)\$\{([^}]+)\}/g, (match, escapes: string, name: string) => {
+    // An odd number of backslashes escapes the substitution
+    if (escapes.length % 2 === 1) {
+      return match.slice(1)
+    }
+    const replacement = env[name]
+    if (replacement === undefined) {
+      throw new WebpmError('NPMRC_MISSING_ENV', `Failed to replace env in config: ${match.slice(escapes.length)}`, {
+        hint: `Pass ${name} in the env option, or escape the reference as \\\${${name}} to keep it literally.`,
+      })
+    }
+    return `${escapes}${replacement}`
+  })
+}
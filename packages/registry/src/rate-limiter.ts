@@ -2,15 +2,35 @@
  * Rate limiting implementation
  */
 
-import type { RateLimitState } from './types'
+import { getRegistryName } from '@webpm/utils'
+import type { RateLimitState, RegistryConfig } from './types'
 import { RateLimitError } from './errors'
 
+/** How long a budget lowered by a 429 response stays lowered */
+const BACKOFF_RECOVERY_PERIOD = 5 * 60 * 1000
+
+/** Wait used when a 429 response does not say how long to wait */
+const DEFAULT_BACKOFF_DELAY = 1000
+
+/** Lowest budget a 429 response lowers a host to, in requests per minute */
+const MIN_BACKOFF_LIMIT = 10
+
+/** Shortest time the request rate of a window is measured over */
+const MIN_RATE_SAMPLE = 1000
+
+const WINDOW_DURATION = 60 * 1000
+
 export class RateLimiter {
   private state: RateLimitState
   private requestsPerMinute: number
   private burstLimit: number
+  /** Lowered budget after the host answered 429, until reducedUntil */
+  private reducedLimit?: number
+  private reducedUntil = 0
+  /** No requests until this time, from the Retry-After of the host */
+  private blockedUntil = 0
 
-  constructor(requestsPerMinute: number, burstLimit?: number) {
+  constructor(requestsPerMinute = Infinity, burstLimit?: number) {
     this.requestsPerMinute = requestsPerMinute
     this.burstLimit = burstLimit ?? Math.max(requestsPerMinute / 10, 1)
     this.state = {
@@ -21,22 +41,66 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Replace the configured budget, keeping the current window
+   */
+  configure(requestsPerMinute: number, burstLimit?: number): void {
+    this.requestsPerMinute = requestsPerMinute
+    this.burstLimit = burstLimit ?? Math.max(requestsPerMinute / 10, 1)
+    this.state.burstAllowance = Math.min(this.state.burstAllowance, this.burstLimit)
+  }
+
+  /**
+   * Pause requests for the time the host asked for and halve the budget for
+   * a while, the host told us we are going too fast
+   *
+   * The budget is halved from the configured rate, or the rate requests were
+   * sent at when it is lower, never below MIN_BACKOFF_LIMIT.
+   */
+  backOff(retryAfter = DEFAULT_BACKOFF_DELAY): void {
+    const now = Date.now()
+    // Requests per minute so far in this window, a 429 early in a window is not a low rate
+    const elapsed = Math.max(now - this.state.windowStart, MIN_RATE_SAMPLE)
+    const observedRate = (this.state.requestCount * WINDOW_DURATION) / elapsed
+    const limit = this.getLimit(now)
+    const floor = Math.min(MIN_BACKOFF_LIMIT, limit)
+
+    this.reducedLimit = Math.max(floor, Math.floor(Math.min(limit, observedRate) / 2))
+    this.reducedUntil = now + retryAfter + BACKOFF_RECOVERY_PERIOD
+    this.blockedUntil = Math.max(this.blockedUntil, now + retryAfter)
+
+    // Start a new window once the host accepts requests again
+    this.state.requestCount = 0
+    this.state.windowStart = this.blockedUntil
+    this.state.burstAllowance = 0
+  }
+
   /**
    * Check if a request is allowed and update the rate limit state
    */
   async checkRateLimit(): Promise<void> {
     const now = Date.now()
-    const windowDuration = 60 * 1000 // 1 minute
+    const windowDuration = WINDOW_DURATION
+
+    // Wait as long as the host asked with Retry-After
+    if (now < this.blockedUntil) {
+      const retryAfter = Math.ceil((this.blockedUntil - now) / 1000)
+      throw new RateLimitError(
+        `Rate limited by registry. Try again in ${retryAfter} seconds`,
+        retryAfter
+      )
+    }
 
     // Reset window if it has expired
     if (now - this.state.windowStart >= windowDuration) {
       this.state.requestCount = 0
       this.state.windowStart = now
-      this.state.burstAllowance = this.burstLimit
+      // No bursts while the budget is lowered
+      this.state.burstAllowance = this.isReduced(now) ? 0 : this.burstLimit
     }
 
     // Check if we're within the rate limit
-    if (this.state.requestCount >= this.requestsPerMinute) {
+    if (this.state.requestCount >= this.getLimit(now)) {
       // Check if we have burst allowance
       if (this.state.burstAllowance <= 0) {
         const timeUntilReset = windowDuration - (now - this.state.windowStart)
@@ -62,9 +126,10 @@ export class RateLimiter {
     requestsRemaining: number
     windowResetTime: number
     burstAllowance: number
+    blockedUntil?: number
   } {
     const now = Date.now()
-    const windowDuration = 60 * 1000
+    const windowDuration = WINDOW_DURATION
     const timeUntilReset = Math.max(
       0,
       windowDuration - (now - this.state.windowStart)
@@ -73,10 +138,11 @@ export class RateLimiter {
     return {
       requestsRemaining: Math.max(
         0,
-        this.requestsPerMinute - this.state.requestCount
+        this.getLimit(now) - this.state.requestCount
       ),
       windowResetTime: now + timeUntilReset,
       burstAllowance: this.state.burstAllowance,
+      ...(now < this.blockedUntil && { blockedUntil: this.blockedUntil }),
     }
   }
 
@@ -91,5 +157,53 @@ export class RateLimiter {
       lastRequest: 0,
       burstAllowance: this.burstLimit,
     }
+    this.reducedLimit = undefined
+    this.reducedUntil = 0
+    this.blockedUntil = 0
   }
+
+  private isReduced(now: number): boolean {
+    return this.reducedLimit !== undefined && now < this.reducedUntil
+  }
+
+  /**
+   * Requests allowed per window, lowered after the host answered 429
+   */
+  private getLimit(now: number): number {
+    if (this.isReduced(now)) {
+      return this.reducedLimit as number
+    }
+    this.reducedLimit = undefined
+    return this.requestsPerMinute
+  }
+}
+
+const hostRateLimiters = new Map<string, RateLimiter>()
+
+/**
+ * Get the rate limiter shared by all registry clients talking to the host of
+ * a URL, so their requests count against one budget
+ */
+export function getHostRateLimiter(
+  url: string,
+  config?: RegistryConfig['rateLimit']
+): RateLimiter {
+  const host = getRegistryName(url)
+  let limiter = hostRateLimiters.get(host)
+
+  if (!limiter) {
+    limiter = new RateLimiter(config?.requestsPerMinute, config?.burstLimit)
+    hostRateLimiters.set(host, limiter)
+  } else if (config) {
+    limiter.configure(config.requestsPerMinute, config.burstLimit)
+  }
+
+  return limiter
+}
+
+/**
+ * Forget the rate limit state of all hosts
+ */
+export function clearHostRateLimiters(): void {
+  hostRateLimiters.clear()
 }
@@ -3,7 +3,35 @@
  */
 
 import type { RetryOptions } from './types'
-import { NetworkError, TimeoutError, RateLimitError } from './errors'
+import {
+  NetworkError,
+  TimeoutError,
+  RateLimitError,
+  FetchError,
+} from './errors'
+
+/** Response statuses worth retrying, the rest are permanent failures */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+
+/**
+ * Parse a Retry-After header, given as seconds or an HTTP date, into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000
+  }
+
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
 
 export class RetryManager {
   private options: RetryOptions
@@ -46,6 +74,11 @@ export class RetryManager {
         // Calculate delay for next attempt
         const delay = this.calculateDelay(attempt, error)
 
+        // Give up instead of waiting longer than the registry allows for
+        if (delay > this.options.maxDelay && error instanceof FetchError) {
+          break
+        }
+
         if (context) {
           console.warn(
             `Retry attempt ${attempt}/${this.options.maxRetries} for ${context} after ${delay}ms:`,
@@ -64,11 +97,7 @@ export class RetryManager {
    * Check if an error is retryable
    */
   private isRetryableError(error: unknown): boolean {
-    if (error instanceof NetworkError) {
-      return true
-    }
-
-    if (error instanceof TimeoutError) {
+    if (error instanceof NetworkError || error instanceof TimeoutError) {
       return true
     }
 
@@ -76,15 +105,8 @@ export class RetryManager {
       return true
     }
 
-    // Check for network-related errors
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase()
-      return (
-        message.includes('network') ||
-        message.includes('timeout') ||
-        message.includes('connection') ||
-        message.includes('fetch')
-      )
+    if (error instanceof FetchError) {
+      return RETRYABLE_STATUSES.has(error.response.status)
     }
 
     return false
@@ -94,9 +116,17 @@ export class RetryManager {
    * Calculate delay for next retry attempt
    */
   private calculateDelay(attempt: number, error: unknown): number {
-    // Special handling for rate limit errors
+    // Rate limit errors wait at most maxDelay, the limiter is checked again on the next attempt
     if (error instanceof RateLimitError && error.retryAfter) {
-      return error.retryAfter * 1000 // Convert to milliseconds
+      return Math.min(error.retryAfter * 1000, this.options.maxDelay) // Convert to milliseconds
+    }
+
+    // Wait as long as the registry asked with Retry-After
+    if (
+      error instanceof FetchError &&
+      error.response.retryAfter !== undefined
+    ) {
+      return error.response.retryAfter
     }
 
     // Exponential backoff with jitter
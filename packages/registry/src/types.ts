@@ -5,14 +5,24 @@
 export interface RegistryConfig {
   /** Registry URL (e.g., 'https://registry.npmjs.org') */
   url: string
-  /** Authentication token for private registries */
+  /** Authentication token, only sent to the registry at `url` */
   token?: string
+  /** Registries of scoped packages, keyed by scope with "@" (e.g. '@myorg') */
+  scopes?: Record<string, string>
+  /** Credentials keyed by registry URL or nerf dart (`//host/path/`) */
+  credentials?: Record<string, RegistryCredentials>
+  /** .npmrc contents or parsed config with the registry, scoped registries and credentials */
+  npmrc?: string | NpmrcConfig
+  /** Variables substituted for `${NAME}` in .npmrc contents */
+  env?: Record<string, string | undefined>
   /** Request timeout in milliseconds */
   timeout?: number
   /** Cache TTL in milliseconds */
   cacheTtl?: number
   /** Maximum number of retry attempts */
   maxRetries?: number
+  /** Return expired package documents immediately and refresh them in the background */
+  staleWhileRevalidate?: boolean
   /** Rate limiting configuration */
   rateLimit?: {
     /** Maximum requests per minute */
@@ -22,6 +32,24 @@ export interface RegistryConfig {
   }
 }
 
+export interface RegistryCredentials {
+  /** Bearer token (`_authToken`) */
+  token?: string
+  /** Base64 encoded `username:password` (`_auth`, or `username` and `_password`) */
+  basicAuth?: string
+  /** Send the credentials to every path on the registry host, not only under the registry path (unlike npm's `always-auth`) */
+  alwaysAuth?: boolean
+}
+
+export interface NpmrcConfig {
+  /** Default registry (`registry=`) */
+  registry?: string
+  /** Registries of scopes (`@scope:registry=`), keyed by scope with "@" */
+  scopes: Record<string, string>
+  /** Credentials keyed by nerf dart (`//host/path/`) */
+  credentials: Record<string, RegistryCredentials>
+}
+
 export interface PackageMetadata {
   /** Package name */
   name: string
@@ -69,6 +97,12 @@ export interface PackageMetadata {
   modified?: string
 }
 
+/**
+ * Package document (packument) with all versions
+ *
+ * Abbreviated documents only hold the fields needed for installation, they
+ * have `modified` but no `time`, readme or descriptive fields.
+ */
 export interface PackageVersions {
   /** Package name */
   name: string
@@ -79,12 +113,14 @@ export interface PackageVersions {
     latest: string
     [tag: string]: string
   }
-  /** Package creation time */
-  time: {
+  /** Package creation time (full documents only) */
+  time?: {
     created: string
     modified: string
     [version: string]: string
   }
+  /** Last modification time (abbreviated documents only) */
+  modified?: string
   /** Package author */
   author?: string | { name: string; email?: string; url?: string }
   /** Package description */
@@ -106,6 +142,76 @@ export interface PackageVersions {
   readmeFilename?: string
 }
 
+export interface PackageVersionsOptions {
+  /**
+   * Fetch the full document with `time`, readme and descriptive fields
+   * instead of the abbreviated install metadata
+   */
+  fullMetadata?: boolean
+}
+
+export interface SearchOptions {
+  /** Number of results to return (1-250, registry default is 20) */
+  limit?: number
+  /** Number of results to skip */
+  offset?: number
+  /** Only packages with these keywords (`keywords:` qualifier) */
+  keywords?: string[]
+  /** Only packages published by this user (`author:` qualifier) */
+  author?: string
+  /** Only packages maintained by this user (`maintainer:` qualifier) */
+  maintainer?: string
+  /** Only packages in this scope (`scope:` qualifier) */
+  scope?: string
+}
+
+export interface SearchPackage {
+  /** Package name */
+  name: string
+  /** Latest version */
+  version: string
+  /** Package description */
+  description?: string
+  /** Package keywords */
+  keywords?: string[]
+  /** Publish date of the latest version */
+  date?: string
+  /** Links to the npm page, homepage, repository and bug tracker */
+  links?: {
+    npm?: string
+    homepage?: string
+    repository?: string
+    bugs?: string
+  }
+  /** User who published the latest version */
+  publisher?: { username: string; email?: string }
+  /** Package maintainers */
+  maintainers?: Array<{ username: string; email?: string }>
+}
+
+export interface SearchResult {
+  /** Matched package */
+  package: SearchPackage
+  /** Package scores */
+  score: {
+    final: number
+    detail: { quality: number; popularity: number; maintenance: number }
+  }
+  /** Relevance of the package to the search text */
+  searchScore: number
+  /** Flags such as `insecure` or `unstable` */
+  flags?: Record<string, unknown>
+}
+
+export interface SearchResults {
+  /** Matched packages, best first */
+  objects: SearchResult[]
+  /** Total number of matches */
+  total: number
+  /** Time of the search */
+  time: string
+}
+
 export interface RegistryError extends Error {
   /** HTTP status code */
   statusCode?: number
@@ -124,6 +230,17 @@ export interface CacheEntry<T = unknown> {
   ttl: number
   /** Whether the entry is expired */
   expired: boolean
+  /** ETag of the response the data came from */
+  etag?: string
+  /** Last-Modified date of the response the data came from */
+  lastModified?: string
+}
+
+export interface CacheValidators {
+  /** ETag sent back as If-None-Match */
+  etag?: string
+  /** Last-Modified date sent back as If-Modified-Since */
+  lastModified?: string
 }
 
 export interface RetryOptions {
@@ -139,6 +256,17 @@ export interface RetryOptions {
   jitter: boolean
 }
 
+export interface RequestStats {
+  /** Requests made to the registry */
+  requests: number
+  /** Requests saved by joining an identical in-flight request */
+  coalesced: number
+  /** Lookups answered from the cache */
+  cacheHits: number
+  /** Requests currently in flight */
+  inFlight: number
+}
+
 export interface RateLimitState {
   /** Current request count */
   requestCount: number
@@ -0,0 +1,125 @@
+/**
+ * Tests for the CommonJS runtime over a virtual filesystem
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { CommonJSRuntime, FileSystemUtils, MemoryFileSystem, findRequires } from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function createFileSystem(files: Record<string, string | object>): Promise<MemoryFileSystem> {
+  const fs = new MemoryFileSystem()
+  for (const [path, content] of Object.entries(files)) {
+    await FileSystemUtils.ensureDir(fs, FileSystemUtils.getParentPath(path))
+    await fs.writeFile(path, typeof content === 'string' ? content : JSON.stringify(content))
+  }
+  return fs
+}
+
+describe('findRequires', () => {
+  it('finds string literal require calls only', () => {
+    const source = [
+      "const a = require('a')",
+      'const b = require("b/sub")',
+      'const c = require(`c`)',
+      'const d = require(`d/${name}`)',
+      'const e = require(name)',
+      "const f = notrequire('f')",
+      "require('a')",
+    ].join('\n')
+
+    expect(findRequires(source)).toEqual(['a', 'b/sub', 'c'])
+  })
+})
+
+describe('CommonJSRuntime', () => {
+  it('runs packages with their dependencies, JSON modules and a shared module cache', async () => {
+    const fs = await createFileSystem({
+      '/node_modules/greet/package.json': { name: 'greet', main: 'lib/index.js' },
+      '/node_modules/greet/lib/index.js':
+        "const { greeting } = require('../messages.json')\nconst upper = require('upper')\nmodule.exports = (name) => upper(greeting + ' ' + name)\nmodule.exports.dir = __dirname",
+      '/node_modules/greet/messages.json': { greeting: 'hello' },
+      '/node_modules/upper/package.json': { name: 'upper', exports: { require: './upper.cjs', import: './upper.mjs' } },
+      '/node_modules/upper/upper.cjs': 'exports.calls = 0\nmodule.exports = (value) => value.toUpperCase()',
+    })
+    const runtime = new CommonJSRuntime({ fs })
+
+    const greet = (await runtime.require('greet')) as ((name: string) => string) & { dir: string }
+
+    expect(greet('world')).toBe('HELLO WORLD')
+    expect(greet.dir).toBe('/node_modules/greet/lib')
+    expect(await runtime.require('greet')).toBe(greet)
+    expect([...runtime.cache.keys()].sort()).toEqual([
+      '/node_modules/greet/lib/index.js',
+      '/node_modules/greet/messages.json',
+      '/node_modules/upper/upper.cjs',
+    ])
+    expect(runtime.cache.get('/node_modules/greet/lib/index.js')?.children.map((child) => child.id)).toEqual([
+      '/node_modules/greet/messages.json',
+      '/node_modules/upper/upper.cjs',
+    ])
+  })
+
+  it('gives circular requires the partially initialized exports', async () => {
+    const fs = await createFileSystem({
+      '/app/a.js': "exports.early = 'a'\nconst b = require('./b')\nexports.fromB = b.seenA\nexports.done = true",
+      '/app/b.js': "const a = require('./a')\nexports.seenA = { ...a }\nexports.aLater = () => a.done",
+    })
+    const runtime = new CommonJSRuntime({ fs })
+
+    const a = (await runtime.require('./a', '/app/index.js')) as Record<string, unknown>
+    const b = (await runtime.require('./b', '/app/index.js')) as { aLater: () => boolean }
+
+    expect(a.fromB).toEqual({ early: 'a' })
+    expect(b.aLater()).toBe(true)
+  })
+
+  it('resolves built-ins to the configured shims and ignored modules to empty objects', async () => {
+    const pathShim = { join: (...parts: string[]) => parts.join('/') }
+    const fs = await createFileSystem({
+      '/node_modules/tool/package.json': { name: 'tool', browser: { './node-only.js': false } },
+      '/node_modules/tool/index.js':
+        "const path = require('path')\nconst samePath = require('node:path')\nconst nodeOnly = require('./node-only.js')\nmodule.exports = { joined: path.join('a', 'b'), same: path === samePath, nodeOnly, env: process.env.NODE_ENV }",
+      '/node_modules/tool/node-only.js': "throw new Error('should not run')",
+    })
+    const runtime = new CommonJSRuntime({ fs, builtins: { path: pathShim }, globals: { process: { env: { NODE_ENV: 'test' } } } })
+
+    expect(await runtime.require('tool')).toEqual({ joined: 'a/b', same: true, nodeOnly: {}, env: 'test' })
+  })
+
+  it('reports missing modules, missing shims and dynamic requires when they run', async () => {
+    const fs = await createFileSystem({
+      '/app/lazy.js': "exports.load = (name) => require(name)\nexports.missing = () => require('./missing')\nexports.fs = () => require('fs')",
+      '/app/other.js': 'module.exports = 42',
+    })
+    const runtime = new CommonJSRuntime({ fs })
+
+    const lazy = (await runtime.require('./lazy', '/app/index.js')) as Record<string, (name?: string) => unknown>
+
+    expect(() => lazy.missing()).toThrow(expect.objectContaining({ code: 'ERR_WEBPM_MODULE_NOT_FOUND' }))
+    expect(() => lazy.fs()).toThrow(expect.objectContaining({ code: 'ERR_WEBPM_MISSING_BUILTIN_SHIM' }))
+    expect(() => lazy.load('./other')).toThrow(expect.objectContaining({ code: 'ERR_WEBPM_MODULE_NOT_PRELOADED' }))
+
+    await runtime.preload('./other', '/app/lazy.js')
+    expect(lazy.load('./other')).toBe(42)
+  })
+
+  it('does not cache modules that throw while executing', async () => {
+    const fs = await createFileSystem({
+      '/app/flaky.js': "globalThis.__flakyRuns = (globalThis.__flakyRuns ?? 0) + 1\nif (globalThis.__flakyRuns === 1) throw new Error('first run')\nmodule.exports = 'ok'",
+    })
+    const runtime = new CommonJSRuntime({ fs })
+
+    await expect(runtime.require('./flaky', '/app/index.js')).rejects.toThrow('first run')
+    await expect(runtime.require('./flaky', '/app/index.js')).resolves.toBe('ok')
+    delete (globalThis as Record<string, unknown>).__flakyRuns
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Tests for selective extraction with glob filters and the types-only preset
+ */
+
+import { createHash } from 'node:crypto'
+import { gzipSync } from 'fflate'
+import * as tar from 'tar-stream'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import {
+  TarballFetcher,
+  createExtractionMatcher,
+  decompress,
+  extractTarball,
+  globToRegExp,
+  parseTar,
+  type ResolvedPackage,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function createTar(files: Record<string, string>): Promise<Uint8Array<ArrayBuffer>> {
+  const pack = tar.pack()
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name: `package/${name}` }, content)
+  }
+  pack.finalize()
+
+  const chunks: Buffer[] = []
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer)
+  }
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+function fileNames(files: Array<{ name: string }>): string[] {
+  return files.map((file) => file.name)
+}
+
+const packageFiles = {
+  'package.json': JSON.stringify({
+    name: 'pkg',
+    version: '1.0.0',
+    types: './index.d.ts',
+    typesVersions: { '<4.0': { '*': ['ts3/*'] } },
+  }),
+  'index.js': 'module.exports = 1',
+  'index.d.ts': 'export {}',
+  'lib/util.d.mts': 'export {}',
+  'lib/util.mjs': 'export {}',
+  'ts3/index.ts': 'export {}',
+  'README.md': '# pkg',
+}
+
+describe('globToRegExp', () => {
+  it('matches stars within a segment and globstars across directories', () => {
+    expect(globToRegExp('*.js').test('index.js')).toBe(true)
+    expect(globToRegExp('*.js').test('lib/index.js')).toBe(false)
+    expect(globToRegExp('**/*.js').test('index.js')).toBe(true)
+    expect(globToRegExp('**/*.js').test('lib/deep/index.js')).toBe(true)
+    expect(globToRegExp('lib/**').test('lib/deep/index.js')).toBe(true)
+    expect(globToRegExp('./src/?.{ts,tsx}').test('src/a.tsx')).toBe(true)
+    expect(globToRegExp('src/?.{ts,tsx}').test('src/ab.ts')).toBe(false)
+  })
+})
+
+describe('extractTarball with a filter', () => {
+  it('extracts included files, except excluded ones, and always package.json', async () => {
+    const tarball = await createTar(packageFiles)
+
+    const result = await extractTarball(tarball, { filter: { include: ['lib/**', '*.js'], exclude: ['**/*.mjs'] } })
+
+    expect(fileNames(result.files)).toEqual(['package.json', 'index.js', 'lib/util.d.mts'])
+    expect(result.manifest).toMatchObject({ name: 'pkg' })
+  })
+
+  it('extracts type declarations and typesVersions targets for types-only', async () => {
+    const tarball = await createTar(packageFiles)
+
+    const result = await extractTarball(new Uint8Array(gzipSync(tarball)), { filter: 'types-only' })
+
+    expect(fileNames(result.files)).toEqual(['package.json', 'index.d.ts', 'lib/util.d.mts', 'ts3/index.ts'])
+  })
+
+  it('skips the data of filtered entries without reading it into memory', async () => {
+    const tarball = await createTar({ 'package.json': '{}', 'large.js': 'x'.repeat(100_000) })
+    const matches = createExtractionMatcher('types-only')
+    const sizes: number[] = []
+
+    for await (const entry of parseTar(decompress(tarball), {
+      filter: (header) => matches(header.name.replace(/^package\//, '')),
+    })) {
+      sizes.push(entry.data.byteLength)
+    }
+
+    expect(sizes).toEqual([2])
+  })
+
+  it('still rejects unsafe entries that the filter would skip', async () => {
+    const pack = tar.pack()
+    pack.entry({ name: 'package/../../evil.js' }, 'x')
+    pack.finalize()
+    const chunks: Buffer[] = []
+    for await (const chunk of pack) {
+      chunks.push(chunk as Buffer)
+    }
+
+    await expect(
+      extractTarball(new Uint8Array(Buffer.concat(chunks)), { filter: 'types-only' })
+    ).rejects.toMatchObject({ reason: 'PATH_TRAVERSAL' })
+  })
+})
+
+describe('TarballFetcher with an extraction filter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('caches packages extracted with different filters separately', async () => {
+    const tarball = new Uint8Array(gzipSync(await createTar(packageFiles)))
+    const integrity = `sha512-${createHash('sha512').update(tarball).digest('base64')}`
+    const url = 'https://registry.example.com/pkg/-/pkg-1.0.0.tgz'
+    const pkg: ResolvedPackage = {
+      id: 'pkg@1.0.0',
+      name: 'pkg',
+      version: '1.0.0',
+      resolution: { type: 'npm', tarball: url, integrity },
+      dependencies: {},
+      devDependencies: {},
+      peerDependencies: {},
+      optionalDependencies: {},
+      manifest: { name: 'pkg', version: '1.0.0', dist: { tarball: url } },
+    }
+    const fetchMock = vi.fn(async () => new Response(tarball))
+    vi.stubGlobal('fetch', fetchMock)
+    const fetcher = new TarballFetcher({ tarballCache: null })
+
+    const typesOnly = await fetcher.fetchPackage(pkg, { extractionFilter: 'types-only' })
+    const full = await fetcher.fetchPackage(pkg)
+    const typesOnlyAgain = await fetcher.fetchPackage(pkg, { extractionFilter: 'types-only' })
+
+    expect(typesOnly?.extractedFiles.files).toHaveLength(4)
+    expect(full?.extractedFiles.files).toHaveLength(7)
+    expect(typesOnlyAgain).toBe(typesOnly)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Tests for the extraction policy guarding paths, links and sizes of tarball entries
+ */
+
+import * as tar from 'tar-stream'
+import { describe, it, expect, vi } from 'vitest'
+import { BadTarballError } from '@webpm/error'
+import {
+  ExtractionWorkerPool,
+  MemoryFileSystem,
+  extractTarball,
+  linkHoisted,
+  normalizeEntryPath,
+  type DependencyTreeNode,
+  type ExtractionRequest,
+  type ExtractionResponse,
+  type ExtractionResult,
+  type ResolvedPackage,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function createTar(entries: Array<tar.Headers & { content?: string }>): Promise<ArrayBuffer> {
+  const pack = tar.pack()
+  for (const { content, ...header } of entries) {
+    pack.entry(header, content)
+  }
+  pack.finalize()
+
+  const chunks: Buffer[] = []
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer)
+  }
+  return new Uint8Array(Buffer.concat(chunks)).buffer as ArrayBuffer
+}
+
+async function extractError(tarball: ArrayBuffer): Promise<BadTarballError> {
+  const options = { url: 'https://registry.example.com/pkg/-/pkg-1.0.0.tgz', policy: { maxFileSize: 8, maxPackageSize: 12 } }
+  const error = await extractTarball(tarball, options).catch((e: unknown) => e)
+  expect(error).toBeInstanceOf(BadTarballError)
+  return error as BadTarballError
+}
+
+function createNode(result: ExtractionResult): DependencyTreeNode {
+  const pkg: ResolvedPackage = {
+    id: 'pkg@1.0.0',
+    name: 'pkg',
+    version: '1.0.0',
+    resolution: { type: 'npm', tarball: '' },
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    optionalDependencies: {},
+    manifest: { name: 'pkg', version: '1.0.0', dist: { tarball: '' } },
+  }
+  return {
+    package: pkg,
+    children: new Map(),
+    depth: 0,
+    installable: true,
+    fetched: {
+      package: pkg,
+      extractedFiles: result,
+      tarballBuffer: new ArrayBuffer(0),
+      integrity: '',
+      timings: { fetchTime: 0, extractionTime: 0, totalTime: 0 },
+    },
+  }
+}
+
+describe('normalizeEntryPath', () => {
+  it('strips the top level folder and keeps paths inside the package', () => {
+    expect(normalizeEntryPath('package/lib/./index.js')).toBe('lib/index.js')
+    expect(normalizeEntryPath('package/lib/../index.js')).toBe('index.js')
+    expect(normalizeEntryPath('/package/index.js')).toBe('index.js')
+    expect(normalizeEntryPath('C:\\package\\lib\\index.js')).toBe('lib/index.js')
+    expect(normalizeEntryPath('package/')).toBe('')
+  })
+
+  it('rejects paths leaving the package', () => {
+    expect(normalizeEntryPath('package/../index.js')).toBeNull()
+    expect(normalizeEntryPath('package/lib/../../../etc/passwd')).toBeNull()
+    expect(normalizeEntryPath('../package/index.js')).toBeNull()
+  })
+})
+
+describe('extractTarball policy', () => {
+  it('rejects entries traversing out of the package', async () => {
+    const tarball = await createTar([
+      { name: 'package/index.js', content: 'ok' },
+      { name: 'package/../../.bashrc', content: 'evil' },
+    ])
+
+    const error = await extractError(tarball)
+
+    expect(error).toMatchObject({
+      code: 'ERR_WEBPM_BAD_TARBALL',
+      reason: 'PATH_TRAVERSAL',
+      entry: 'package/../../.bashrc',
+      tarballUrl: 'https://registry.example.com/pkg/-/pkg-1.0.0.tgz',
+    })
+  })
+
+  it('records symlinks inside the package and resolves hard links to files', async () => {
+    const result = await extractTarball(
+      await createTar([
+        { name: 'package/lib/index.js', content: 'lib' },
+        { name: 'package/index.js', type: 'symlink', linkname: 'lib/index.js' },
+        { name: 'package/lib/copy.js', type: 'link', linkname: 'package/lib/index.js' },
+        { name: 'package/fifo', type: 'fifo' },
+      ])
+    )
+
+    expect(result.files.map((file) => [file.name, file.type, file.linkname])).toEqual([
+      ['lib/index.js', 'file', undefined],
+      ['index.js', 'symlink', 'lib/index.js'],
+      ['lib/copy.js', 'file', undefined],
+    ])
+    expect(new TextDecoder().decode(result.files[2].buffer)).toBe('lib')
+  })
+
+  it.each([
+    ['absolute symlinks', [{ name: 'package/passwd', type: 'symlink' as const, linkname: '/etc/passwd' }]],
+    ['symlinks leaving the package', [{ name: 'package/lib/up', type: 'symlink' as const, linkname: '../../..' }]],
+    ['hard links to files outside of it', [{ name: 'package/passwd', type: 'link' as const, linkname: '/etc/passwd' }]],
+    [
+      'files written through symlinks',
+      [
+        { name: 'package/lib', type: 'symlink' as const, linkname: '.' },
+        { name: 'package/lib/index.js', content: 'x' },
+      ],
+    ],
+    [
+      'symlinks leaving the package through other symlinks',
+      [
+        { name: 'package/a/b', type: 'symlink' as const, linkname: '.' },
+        { name: 'package/escape', type: 'symlink' as const, linkname: 'a/b/../..' },
+      ],
+    ],
+  ])('rejects %s', async (_, entries) => {
+    const error = await extractError(await createTar(entries))
+
+    expect(error.reason).toBe('UNSAFE_LINK')
+    expect(error.entry).toBe(entries[entries.length - 1].name)
+  })
+
+  it.each([
+    [
+      'symlinks leaving the package through symlinks later in the archive',
+      [
+        { name: 'package/a', type: 'symlink' as const, linkname: 'x/b/..' },
+        { name: 'package/x/b', type: 'symlink' as const, linkname: '..' },
+      ],
+    ],
+    [
+      'symlinks leaving the package through chains of later symlinks',
+      [
+        { name: 'package/a', type: 'symlink' as const, linkname: 'l/x/../..' },
+        { name: 'package/l', type: 'symlink' as const, linkname: 'm' },
+        { name: 'package/m', type: 'symlink' as const, linkname: 'n' },
+        { name: 'package/n', type: 'symlink' as const, linkname: '.' },
+      ],
+    ],
+    [
+      'symlinks looping through each other',
+      [
+        { name: 'package/a', type: 'symlink' as const, linkname: 'b' },
+        { name: 'package/b', type: 'symlink' as const, linkname: 'a' },
+      ],
+    ],
+  ])('rejects %s', async (_, entries) => {
+    const error = await extractError(await createTar(entries))
+
+    expect(error.reason).toBe('UNSAFE_LINK')
+    expect(error.entry).toBe('package/a')
+  })
+
+  it('accepts symlinks through symlinks that stay inside the package', async () => {
+    const result = await extractTarball(
+      await createTar([
+        { name: 'package/lib/index.js', content: 'lib' },
+        { name: 'package/main.js', type: 'symlink', linkname: 'current/../lib/index.js' },
+        { name: 'package/current', type: 'symlink', linkname: 'lib' },
+      ])
+    )
+
+    expect(result.files.map((file) => file.name)).toEqual(['lib/index.js', 'main.js', 'current'])
+  })
+
+  it('limits the size of files and packages', async () => {
+    const largeFile = await extractError(await createTar([{ name: 'package/large.js', content: '123456789' }]))
+    const largePackage = await extractError(
+      await createTar([
+        { name: 'package/a.js', content: '12345678' },
+        { name: 'package/b.js', content: '12345678' },
+      ])
+    )
+
+    expect(largeFile).toMatchObject({ reason: 'FILE_TOO_LARGE', entry: 'package/large.js' })
+    expect(largePackage).toMatchObject({ reason: 'PACKAGE_TOO_LARGE', entry: 'package/b.js' })
+  })
+
+  it('rebuilds policy violations sent by extraction workers', async () => {
+    const worker = {
+      onmessage: null as ((event: MessageEvent<ExtractionResponse>) => void) | null,
+      postMessage({ id, tarball }: ExtractionRequest) {
+        const badTarball = { tarballUrl: 'pkg.tgz', reason: 'PATH_TRAVERSAL' as const, entry: '../index.js', detail: 'outside' }
+        this.onmessage?.({ data: { type: 'error', id, tarball, message: 'outside', badTarball } } as MessageEvent<ExtractionResponse>)
+      },
+      terminate: vi.fn(),
+    }
+    const pool = new ExtractionWorkerPool({ createWorker: () => worker as unknown as Worker })
+    const extraction = pool.extract(new ArrayBuffer(0))
+    worker.onmessage?.({ data: { type: 'ready' } } as MessageEvent<ExtractionResponse>)
+
+    const error = await extraction.catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(BadTarballError)
+    expect(error).toMatchObject({ reason: 'PATH_TRAVERSAL', entry: '../index.js', tarballUrl: 'pkg.tgz' })
+  })
+})
+
+describe('linking extracted symlinks', () => {
+  it('writes symlinks relative to the package directory', async () => {
+    const fs = new MemoryFileSystem()
+    const result = await extractTarball(
+      await createTar([
+        { name: 'package/lib/index.js', content: 'lib' },
+        { name: 'package/index.js', type: 'symlink', linkname: 'lib/index.js' },
+      ])
+    )
+
+    const linked = await linkHoisted(fs, [createNode(result)])
+
+    expect(linked.files).toBe(1)
+    expect(await fs.readlink('/node_modules/pkg/index.js')).toBe('lib/index.js')
+  })
+})
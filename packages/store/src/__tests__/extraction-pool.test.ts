@@ -0,0 +1,180 @@
+/**
+ * Tests for streaming tarball extraction and the extraction worker pool
+ */
+
+import { gzipSync } from 'fflate'
+import * as tar from 'tar-stream'
+import { describe, it, expect, vi } from 'vitest'
+import { logger } from '@webpm/logger'
+import {
+  ExtractionWorkerPool,
+  extractTarball,
+  type ExtractionRequest,
+  type ExtractionResponse,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function createTar(entries: Array<tar.Headers & { content?: string }>): Promise<Uint8Array<ArrayBuffer>> {
+  const pack = tar.pack()
+  for (const { content, ...header } of entries) {
+    pack.entry(header, content)
+  }
+  pack.finalize()
+
+  const chunks: Buffer[] = []
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer)
+  }
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer
+}
+
+/**
+ * Runs the extract worker protocol in-process, transferring messages like
+ * a real worker does
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent<ExtractionResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  terminated = false
+
+  constructor(private options: { failToLoad?: boolean } = {}) {
+    setTimeout(() => {
+      if (this.options.failToLoad) {
+        this.onerror?.({ message: 'Failed to load worker script' } as ErrorEvent)
+      } else {
+        this.send({ type: 'ready' }, [])
+      }
+    })
+  }
+
+  postMessage(message: ExtractionRequest, transfer: Transferable[]): void {
+    const { id, tarball } = structuredClone(message, { transfer })
+    extractTarball(tarball).then((result) => {
+      this.send({ type: 'result', id, tarball, result }, [tarball, ...result.files.map((file) => file.buffer.buffer)])
+    })
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+
+  private send(message: ExtractionResponse, transfer: Transferable[]): void {
+    this.onmessage?.({ data: structuredClone(message, { transfer }) } as MessageEvent<ExtractionResponse>)
+  }
+}
+
+describe('extractTarball', () => {
+  it('streams gzipped and uncompressed tarballs', async () => {
+    const archive = await createTar([
+      { name: 'package', type: 'directory' },
+      { name: 'package/package.json', content: '{"name":"pkg","scripts":{"install":"node-gyp rebuild"}}' },
+      { name: 'package/lib/index.js', content: 'export default 1', mode: 0o755 },
+    ])
+
+    for (const tarball of [archive, new Uint8Array(gzipSync(archive))]) {
+      const result = await extractTarball(toArrayBuffer(tarball))
+
+      expect(result.files.map((file) => [file.name, file.size, file.type])).toEqual([
+        ['package.json', 55, 'file'],
+        ['lib/index.js', 16, 'file'],
+      ])
+      expect(result.files[1].mode).toBe(0o755)
+      expect(new TextDecoder().decode(result.files[1].buffer)).toBe('export default 1')
+      expect(result.manifest).toMatchObject({ name: 'pkg' })
+      expect(result.hasInstallScript).toBe(true)
+    }
+  })
+
+  it('reads long names from pax headers', async () => {
+    const longName = `${'a'.repeat(150)}.js`
+    const tarball = await createTar([{ name: `package/${longName}`, content: 'long' }])
+
+    const result = await extractTarball(toArrayBuffer(tarball))
+
+    expect(result.files.map((file) => file.name)).toEqual([longName])
+  })
+
+  it('rejects corrupted headers', async () => {
+    const tarball = await createTar([{ name: 'package/index.js', content: 'x' }])
+    tarball[0] ^= 0xff
+
+    await expect(extractTarball(toArrayBuffer(tarball))).rejects.toThrow('Invalid tar header checksum')
+  })
+})
+
+describe('ExtractionWorkerPool', () => {
+  it('extracts on the calling thread without workers', async () => {
+    const tarball = toArrayBuffer(await createTar([{ name: 'package/index.js', content: 'inline' }]))
+    const pool = new ExtractionWorkerPool({ createWorker: null })
+
+    const extraction = await pool.extract(tarball)
+
+    expect(extraction.tarball).toBe(tarball)
+    expect(extraction.result.files.map((file) => file.name)).toEqual(['index.js'])
+  })
+
+  it('transfers tarballs to workers and back, up to the pool size', async () => {
+    const workers: FakeWorker[] = []
+    const pool = new ExtractionWorkerPool({
+      size: 2,
+      createWorker: () => {
+        const worker = new FakeWorker()
+        workers.push(worker)
+        return worker as unknown as Worker
+      },
+    })
+    const tarballs = await Promise.all(
+      ['a', 'b', 'c'].map(async (name) => toArrayBuffer(await createTar([{ name: `package/${name}.js`, content: name }])))
+    )
+    const size = tarballs[0].byteLength
+
+    const extractions = await Promise.all(tarballs.map((tarball) => pool.extract(tarball)))
+
+    expect(workers).toHaveLength(2)
+    expect(tarballs[0].byteLength).toBe(0)
+    expect(extractions[0].tarball.byteLength).toBe(size)
+    expect(extractions.map((extraction) => extraction.result.files[0].name)).toEqual(['a.js', 'b.js', 'c.js'])
+
+    pool.setSize(1)
+    expect(workers.filter((worker) => worker.terminated)).toHaveLength(1)
+  })
+
+  it('falls back to the calling thread when workers fail to load', async () => {
+    const pool = new ExtractionWorkerPool({
+      createWorker: () => new FakeWorker({ failToLoad: true }) as unknown as Worker,
+    })
+    const tarball = toArrayBuffer(await createTar([{ name: 'package/index.js', content: 'fallback' }]))
+
+    const extraction = await pool.extract(tarball)
+
+    expect(new TextDecoder().decode(extraction.result.files[0].buffer)).toBe('fallback')
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('main thread'), 'Failed to load worker script')
+  })
+
+  it('falls back to the calling thread when a worker cannot be created', async () => {
+    const createWorker = vi.fn((): Worker => {
+      throw new Error('Blocked by Content-Security-Policy')
+    })
+    const pool = new ExtractionWorkerPool({ createWorker })
+    const tarball = toArrayBuffer(await createTar([{ name: 'package/index.js', content: 'fallback' }]))
+
+    const extractions = await Promise.all([pool.extract(tarball), pool.extract(tarball.slice(0))])
+
+    expect(extractions.map((extraction) => extraction.result.files[0].name)).toEqual(['index.js', 'index.js'])
+    expect(createWorker).toHaveBeenCalledTimes(1)
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('main thread'), 'Blocked by Content-Security-Policy')
+  })
+})
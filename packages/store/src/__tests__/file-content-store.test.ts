@@ -0,0 +1,165 @@
+/**
+ * Tests for storing text and binary package files in the FileContentStore
+ */
+
+import 'fake-indexeddb/auto'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  FileContentStore,
+  createPackageRequestHandler,
+  createStoredFileContent,
+  getContentType,
+  type ExtractedFile,
+  type StoredFileContent,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const pkg = { name: 'pkg', version: '1.0.0' }
+
+// `\0asm` magic number and version 1
+const wasm = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00])
+
+function createFile(name: string, buffer: Uint8Array): ExtractedFile {
+  return { name, buffer, size: buffer.byteLength, type: 'file' }
+}
+
+function createFiles(count: number, version = '1.0.0'): StoredFileContent[] {
+  return Array.from({ length: count }, (_, i) =>
+    createStoredFileContent({ name: 'pkg', version }, createFile(`lib/${i}.js`, new TextEncoder().encode(`export default ${i}`)))
+  )
+}
+
+describe('getContentType', () => {
+  it('knows wasm, images, fonts and source maps', () => {
+    expect(getContentType('esbuild.wasm')).toBe('application/wasm')
+    expect(getContentType('icons/home.svg')).toBe('image/svg+xml')
+    expect(getContentType('logo.PNG')).toBe('image/png')
+    expect(getContentType('fonts/inter.woff2')).toBe('font/woff2')
+    expect(getContentType('index.js.map')).toBe('application/json')
+    expect(getContentType('index.d.mts')).toBe('application/typescript')
+  })
+})
+
+describe('createStoredFileContent', () => {
+  it('decodes text files and keeps binary files as bytes', () => {
+    const text = createStoredFileContent(pkg, createFile('index.js', new TextEncoder().encode('export {}')))
+    const binary = createStoredFileContent(pkg, createFile('esbuild.wasm', wasm))
+
+    expect(text).toMatchObject({ id: 'pkg@1.0.0/index.js', content: 'export {}', encoding: 'utf-8' })
+    expect(binary).toMatchObject({ encoding: 'binary', contentType: 'application/wasm', size: 8 })
+    expect(binary.content).toEqual(wasm)
+  })
+
+  it('keeps text files that are not valid UTF-8 as bytes', () => {
+    const latin1 = new Uint8Array([0x63, 0x61, 0x66, 0xe9])
+
+    const stored = createStoredFileContent(pkg, createFile('README.txt', latin1))
+
+    expect(stored).toMatchObject({ encoding: 'binary', contentType: 'application/octet-stream' })
+    expect(stored.content).toEqual(latin1)
+  })
+
+  it('copies views into larger buffers', () => {
+    const buffer = new Uint8Array(64)
+    buffer.set(wasm, 16)
+
+    const stored = createStoredFileContent(pkg, createFile('esbuild.wasm', buffer.subarray(16, 24)))
+
+    expect((stored.content as Uint8Array).buffer.byteLength).toBe(8)
+  })
+})
+
+describe('FileContentStore with binary files', () => {
+  it('stores bytes unchanged and serves them with their content type', async () => {
+    const store = new FileContentStore()
+    await store.storeFileContent(createStoredFileContent(pkg, createFile('esbuild.wasm', wasm)))
+
+    const stored = await store.getFileContent('pkg@1.0.0/esbuild.wasm')
+    const response = await createPackageRequestHandler({ store })(
+      new Request('https://app.test/__webpm/node_modules/pkg@1.0.0/esbuild.wasm')
+    )
+
+    expect(stored?.encoding).toBe('binary')
+    expect(stored?.content).toEqual(wasm)
+    expect(response?.headers.get('Content-Type')).toBe('application/wasm')
+    expect(new Uint8Array(await response!.arrayBuffer())).toEqual(wasm)
+  })
+})
+
+describe('FileContentStore.storeFiles', () => {
+  it('stores the other files when some of them fail', async () => {
+    const store = new FileContentStore()
+    const files = createFiles(3)
+    const invalid = { ...files[1], id: undefined } as unknown as StoredFileContent
+
+    const result = await store.storeFiles([files[0], invalid, files[2]])
+
+    expect(result.stored).toBe(2)
+    expect(result.failed).toHaveLength(1)
+    expect(result.failed[0].error.name).toBe('DataError')
+    expect(await store.getFileContent(files[2].id)).toMatchObject({ content: 'export default 2' })
+  })
+
+  it('waits for running bulk writes before starting another one', async () => {
+    const store = new FileContentStore({ maxConcurrentWrites: 1 })
+    const transaction = IDBDatabase.prototype.transaction
+    let running = 0
+    let maxRunning = 0
+    const spy = vi.spyOn(IDBDatabase.prototype, 'transaction').mockImplementation(function (
+      this: IDBDatabase,
+      ...args: Parameters<IDBDatabase['transaction']>
+    ) {
+      const created = transaction.apply(this, args)
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      created.addEventListener('complete', () => running--)
+      return created
+    })
+
+    const results = await Promise.all([
+      store.storeFiles(createFiles(10, '1.0.0')),
+      store.storeFiles(createFiles(10, '2.0.0')),
+      store.storeFiles(createFiles(10, '3.0.0')),
+    ])
+    spy.mockRestore()
+
+    expect(maxRunning).toBe(1)
+    expect(results.map((result) => result.stored)).toEqual([10, 10, 10])
+  })
+
+  it('writes a batch in one transaction instead of one per file', async () => {
+    const store = new FileContentStore()
+    await store.init()
+    const files = createFiles(500)
+    const spy = vi.spyOn(IDBDatabase.prototype, 'transaction')
+
+    let start = performance.now()
+    for (const file of files) {
+      await store.storeFileContent(file)
+    }
+    const perFileTime = performance.now() - start
+    const perFileTransactions = spy.mock.calls.length
+
+    await store.clearAll()
+    spy.mockClear()
+    start = performance.now()
+    const result = await store.storeFiles(files)
+    const bulkTime = performance.now() - start
+    const bulkTransactions = spy.mock.calls.length
+    spy.mockRestore()
+
+    const timings = `bulk ${bulkTime.toFixed(1)}ms, per file ${perFileTime.toFixed(1)}ms`
+    expect(result).toEqual({ stored: 500, failed: [] })
+    expect(perFileTransactions, timings).toBe(500)
+    expect(bulkTransactions, timings).toBe(1)
+  })
+})
@@ -0,0 +1,375 @@
+/**
+ * Conformance tests shared by every FileSystemInterface implementation
+ */
+
+import 'fake-indexeddb/auto'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import {
+  FileSystemFactory,
+  IndexedDBFileSystem,
+  MemoryFileSystem,
+  NodeFileSystem,
+  OPFSFileSystem,
+  linkIsolated,
+  type FileSystemInterface,
+  type OPFSDirectoryHandle,
+  type OPFSFileHandle,
+  type OPFSSyncAccessHandle,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+interface Implementation {
+  name: string
+  create: () => Promise<FileSystemInterface>
+  cleanup?: () => Promise<void>
+  symlinks?: boolean
+}
+
+/**
+ * In-process stand-in for the Origin Private File System handles
+ */
+class FakeFileHandle implements OPFSFileHandle {
+  readonly kind = 'file'
+  data = new Uint8Array(0)
+  lastModified = Date.now()
+  syncAccessHandles = 0
+  private locked = false
+
+  constructor(readonly name: string) {}
+
+  async getFile() {
+    const data = this.data
+    return { size: data.length, lastModified: this.lastModified, arrayBuffer: async () => data.slice().buffer }
+  }
+
+  async createWritable() {
+    let written = new Uint8Array(0)
+    return {
+      write: async (data: Uint8Array) => {
+        written = data.slice()
+      },
+      close: async () => {
+        this.data = written
+        this.lastModified = Date.now()
+      },
+    }
+  }
+
+  async createSyncAccessHandle(): Promise<OPFSSyncAccessHandle> {
+    if (this.locked) {
+      throw new DOMException('Access handle is already open', 'NoModificationAllowedError')
+    }
+    this.locked = true
+    this.syncAccessHandles++
+
+    return {
+      read: (buffer, { at = 0 } = {}) => {
+        const chunk = this.data.subarray(at, at + buffer.length)
+        buffer.set(chunk)
+        return chunk.length
+      },
+      write: (buffer, { at = 0 } = {}) => {
+        const data = new Uint8Array(Math.max(this.data.length, at + buffer.length))
+        data.set(this.data)
+        data.set(buffer, at)
+        this.data = data
+        return buffer.length
+      },
+      truncate: (size) => {
+        this.data = this.data.slice(0, size)
+      },
+      getSize: () => this.data.length,
+      flush: () => {},
+      close: () => {
+        this.locked = false
+      },
+    }
+  }
+}
+
+class FakeDirectoryHandle implements OPFSDirectoryHandle {
+  readonly kind = 'directory'
+  readonly entries = new Map<string, FakeDirectoryHandle | FakeFileHandle>()
+
+  constructor(readonly name: string) {}
+
+  async getDirectoryHandle(name: string, { create = false } = {}): Promise<FakeDirectoryHandle> {
+    const entry = this.getEntry(name, 'directory', create) ?? new FakeDirectoryHandle(name)
+    this.entries.set(name, entry)
+    return entry as FakeDirectoryHandle
+  }
+
+  async getFileHandle(name: string, { create = false } = {}): Promise<FakeFileHandle> {
+    const entry = this.getEntry(name, 'file', create) ?? new FakeFileHandle(name)
+    this.entries.set(name, entry)
+    return entry as FakeFileHandle
+  }
+
+  async removeEntry(name: string, { recursive = false } = {}): Promise<void> {
+    const entry = this.entries.get(name)
+    if (!entry) {
+      throw new DOMException(`${name} not found`, 'NotFoundError')
+    }
+    if (entry.kind === 'directory' && entry.entries.size > 0 && !recursive) {
+      throw new DOMException(`${name} is not empty`, 'InvalidModificationError')
+    }
+    this.entries.delete(name)
+  }
+
+  async *keys(): AsyncIterable<string> {
+    yield* this.entries.keys()
+  }
+
+  private getEntry(name: string, kind: 'file' | 'directory', create: boolean) {
+    const entry = this.entries.get(name)
+    if (entry && entry.kind !== kind) {
+      throw new DOMException(`${name} is not a ${kind}`, 'TypeMismatchError')
+    }
+    if (!entry && !create) {
+      throw new DOMException(`${name} not found`, 'NotFoundError')
+    }
+    return entry
+  }
+}
+
+let tempDir: string | undefined
+let databaseCount = 0
+
+const implementations: Implementation[] = [
+  {
+    name: 'MemoryFileSystem',
+    create: async () => new MemoryFileSystem(),
+  },
+  {
+    name: 'IndexedDBFileSystem',
+    create: async () => {
+      const fs = new IndexedDBFileSystem({ name: `webpm-test-${databaseCount++}` })
+      await fs.init()
+      return fs
+    },
+  },
+  {
+    name: 'OPFSFileSystem',
+    create: async () => {
+      const fs = new OPFSFileSystem({ root: new FakeDirectoryHandle('') })
+      await fs.init()
+      return fs
+    },
+    symlinks: false,
+  },
+  {
+    name: 'NodeFileSystem',
+    create: async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'webpm-fs-'))
+      const fs = new NodeFileSystem({ root: tempDir })
+      await fs.init()
+      return fs
+    },
+    cleanup: async () => {
+      if (tempDir) {
+        await rm(tempDir, { recursive: true, force: true })
+        tempDir = undefined
+      }
+    },
+  },
+]
+
+describe.each(implementations)('$name', ({ create, cleanup, symlinks = true }) => {
+  let fs: FileSystemInterface
+
+  beforeEach(async () => {
+    fs = await create()
+  })
+
+  afterEach(async () => {
+    await fs.destroy?.()
+    await cleanup?.()
+  })
+
+  it('writes and reads files as bytes or utf8', async () => {
+    await fs.mkdir('/pkg')
+    await fs.writeFile('/pkg/index.js', 'module.exports = 1')
+    await fs.writeFile('/pkg/data.bin', new Uint8Array([0, 1, 255]))
+
+    expect(await fs.readFile('/pkg/index.js', { encoding: 'utf8' })).toBe('module.exports = 1')
+    expect(Array.from((await fs.readFile('/pkg/data.bin')) as Uint8Array)).toEqual([0, 1, 255])
+    expect((await fs.stat('/pkg/data.bin')).size).toBe(3)
+  })
+
+  it('lists, stats and removes entries', async () => {
+    await fs.mkdir('/dir')
+    await fs.mkdir('/dir/sub')
+    await fs.writeFile('/dir/file.txt', 'hello')
+
+    expect((await fs.readdir('/dir')).sort()).toEqual(['file.txt', 'sub'])
+    expect((await fs.stat('/dir')).isDirectory()).toBe(true)
+    expect((await fs.stat('/dir/file.txt')).isFile()).toBe(true)
+
+    await fs.unlink('/dir/file.txt')
+    await fs.rmdir('/dir/sub')
+    expect(await fs.readdir('/dir')).toEqual([])
+  })
+
+  it('reports errors with node error codes', async () => {
+    await fs.mkdir('/dir')
+    await fs.writeFile('/dir/file.txt', 'hello')
+
+    await expect(fs.readFile('/missing')).rejects.toMatchObject({ code: 'ENOENT' })
+    await expect(fs.stat('/dir/missing')).rejects.toMatchObject({ code: 'ENOENT' })
+    await expect(fs.mkdir('/dir')).rejects.toMatchObject({ code: 'EEXIST' })
+    await expect(fs.mkdir('/missing/dir')).rejects.toMatchObject({ code: 'ENOENT' })
+    await expect(fs.rmdir('/dir')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+  })
+
+  it('renames directories together with their contents', async () => {
+    await fs.mkdir('/old')
+    await fs.mkdir('/old/nested')
+    await fs.writeFile('/old/nested/file.txt', 'moved')
+
+    await fs.rename!('/old', '/new')
+
+    expect(await fs.readFile('/new/nested/file.txt', { encoding: 'utf8' })).toBe('moved')
+    await expect(fs.stat('/old')).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it('renames over existing entries like rename(2)', async () => {
+    await fs.mkdir('/dir')
+    await fs.mkdir('/dir/sub')
+    await fs.writeFile('/dir/sub/file.txt', 'kept')
+    await fs.mkdir('/empty')
+    await fs.mkdir('/full')
+    await fs.writeFile('/full/file.txt', 'full')
+    await fs.writeFile('/a.txt', 'a')
+    await fs.writeFile('/b.txt', 'b')
+
+    await expect(fs.rename!('/dir', '/dir/sub/moved')).rejects.toMatchObject({ code: 'EINVAL' })
+    await expect(fs.rename!('/dir', '/full')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+    await expect(fs.rename!('/dir', '/a.txt')).rejects.toMatchObject({ code: 'ENOTDIR' })
+    await expect(fs.rename!('/a.txt', '/empty')).rejects.toMatchObject({ code: 'EISDIR' })
+    expect(await fs.readFile('/dir/sub/file.txt', { encoding: 'utf8' })).toBe('kept')
+    expect(await fs.readFile('/full/file.txt', { encoding: 'utf8' })).toBe('full')
+
+    await fs.rename!('/a.txt', '/b.txt')
+    await fs.rename!('/dir', '/empty')
+
+    expect(await fs.readFile('/b.txt', { encoding: 'utf8' })).toBe('a')
+    expect(await fs.readFile('/empty/sub/file.txt', { encoding: 'utf8' })).toBe('kept')
+    await expect(fs.stat('/dir')).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it.runIf(symlinks)('follows symlinks except for lstat and readlink', async () => {
+    await fs.mkdir('/target')
+    await fs.writeFile('/target/file.txt', 'linked')
+    await fs.mkdir('/links')
+    await fs.symlink!('../target', '/links/relative')
+    await fs.symlink!('/target/file.txt', '/links/absolute')
+
+    expect(await fs.readFile('/links/relative/file.txt', { encoding: 'utf8' })).toBe('linked')
+    expect(await fs.readFile('/links/absolute', { encoding: 'utf8' })).toBe('linked')
+    expect((await fs.lstat!('/links/relative')).isSymbolicLink()).toBe(true)
+    expect((await fs.stat('/links/relative')).isDirectory()).toBe(true)
+    expect(await fs.readlink!('/links/relative')).toBe('../target')
+    expect(await fs.readlink!('/links/absolute')).toBe('/target/file.txt')
+    expect(await fs.realpath!('/links/relative/file.txt')).toBe('/target/file.txt')
+  })
+
+  it('computes disk usage of a directory tree', async () => {
+    await fs.mkdir('/usage')
+    await fs.mkdir('/usage/sub')
+    await fs.writeFile('/usage/a.txt', '1234')
+    await fs.writeFile('/usage/sub/b.txt', '123456')
+
+    expect(await fs.du!('/usage')).toBe(10)
+  })
+
+  it.runIf(symlinks)('hosts an isolated node_modules layout', async () => {
+    const files = [{ name: 'package.json', buffer: Buffer.from('{"name":"pkg"}'), size: 14, type: 'file' as const }]
+    const pkg = {
+      id: 'pkg@1.0.0',
+      name: 'pkg',
+      version: '1.0.0',
+      resolution: { type: 'npm' as const, tarball: '' },
+      dependencies: {},
+      devDependencies: {},
+      peerDependencies: {},
+      optionalDependencies: {},
+      manifest: { name: 'pkg', version: '1.0.0', dist: { tarball: '' } },
+    }
+
+    await linkIsolated(fs, [
+      {
+        package: pkg,
+        children: new Map(),
+        depth: 0,
+        installable: true,
+        fetched: {
+          package: pkg,
+          extractedFiles: { files, hasInstallScript: false },
+          tarballBuffer: new ArrayBuffer(0),
+          integrity: '',
+          timings: { fetchTime: 0, extractionTime: 0, totalTime: 0 },
+        },
+      },
+    ])
+
+    expect(await fs.readFile('/node_modules/pkg/package.json', { encoding: 'utf8' })).toBe('{"name":"pkg"}')
+    expect(await fs.realpath!('/node_modules/pkg')).toBe('/node_modules/.pnpm/pkg@1.0.0/node_modules/pkg')
+  })
+})
+
+describe('OPFSFileSystem', () => {
+  it('reads and writes through sync access handles in workers', async () => {
+    const root = new FakeDirectoryHandle('')
+    const fs = new OPFSFileSystem({ root, syncAccessHandles: true })
+
+    await fs.writeFile('/index.js', 'module.exports = 1')
+    await fs.writeFile('/index.js', 'short')
+
+    const handle = (root.entries.get('webpm-opfs') as FakeDirectoryHandle).entries.get('index.js') as FakeFileHandle
+    expect(await fs.readFile('/index.js', { encoding: 'utf8' })).toBe('short')
+    expect(handle.syncAccessHandles).toBe(3)
+  })
+
+  it('does not provide symlinks', () => {
+    expect((new OPFSFileSystem() as FileSystemInterface).symlink).toBeUndefined()
+  })
+})
+
+describe('FileSystemFactory', () => {
+  afterEach(async () => {
+    await FileSystemFactory.destroyAll()
+    vi.unstubAllGlobals()
+  })
+
+  it('prefers OPFS when navigator.storage.getDirectory is available', () => {
+    expect(FileSystemFactory.detectBestImplementation().type).toBe('memory')
+
+    vi.stubGlobal('navigator', { storage: { getDirectory: async () => new FakeDirectoryHandle('') } })
+    expect(FileSystemFactory.detectBestImplementation()).toEqual({ type: 'opfs', name: 'webpm-fs' })
+  })
+
+  it('creates the indexeddb and node-fs implementations', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'webpm-fs-'))
+
+    try {
+      expect(await FileSystemFactory.create({ type: 'indexeddb', name: 'webpm-factory' })).toBeInstanceOf(
+        IndexedDBFileSystem
+      )
+      expect(await FileSystemFactory.create({ type: 'node-fs', options: { root } })).toBeInstanceOf(NodeFileSystem)
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Tests for browser import maps of installed dependency trees
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  createImportMap,
+  getImportMapScript,
+  type DependencyTreeNode,
+  type ResolvedPackage,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function createNode(
+  manifest: Record<string, unknown> & { name: string; version: string },
+  files: string[],
+  children: Record<string, DependencyTreeNode> = {}
+): DependencyTreeNode {
+  const { name, version } = manifest
+  const pkg: ResolvedPackage = {
+    id: `${name}@${version}`,
+    name,
+    version,
+    resolution: { type: 'npm', tarball: '' },
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    optionalDependencies: {},
+    manifest: { name, version, dist: { tarball: '' } },
+  }
+  return {
+    package: pkg,
+    children: new Map(Object.entries(children)),
+    depth: 0,
+    installable: true,
+    fetched: {
+      package: pkg,
+      extractedFiles: {
+        files: ['package.json', ...files].map((fileName) => ({
+          name: fileName,
+          buffer: Buffer.from(''),
+          size: 0,
+          type: 'file',
+        })),
+        manifest,
+        hasInstallScript: false,
+      },
+      tarballBuffer: new ArrayBuffer(0),
+      integrity: '',
+      timings: { fetchTime: 0, extractionTime: 0, totalTime: 0 },
+    },
+  }
+}
+
+describe('createImportMap', () => {
+  it('maps entry points and subpath exports of direct dependencies', () => {
+    const preact = createNode(
+      {
+        name: 'preact',
+        version: '10.19.0',
+        exports: {
+          '.': { browser: './dist/preact.module.js', require: './dist/preact.js' },
+          './hooks': { import: './hooks/dist/hooks.module.js', require: './hooks/dist/hooks.js' },
+          './compat/*': './compat/src/*.js',
+          './compat/internal': null,
+          './package.json': './package.json',
+        },
+      },
+      ['dist/preact.module.js', 'hooks/dist/hooks.module.js', 'compat/src/index.js', 'compat/src/internal.js']
+    )
+    const lodash = createNode({ name: 'lodash-es', version: '4.17.21', main: 'lodash.js', module: 'lodash.js' }, [
+      'lodash.js',
+      'map.js',
+    ])
+
+    expect(createImportMap([preact, lodash]).imports).toEqual({
+      preact: '/__webpm/node_modules/preact@10.19.0/dist/preact.module.js',
+      'preact/hooks': '/__webpm/node_modules/preact@10.19.0/hooks/dist/hooks.module.js',
+      'preact/compat/index': '/__webpm/node_modules/preact@10.19.0/compat/src/index.js',
+      'preact/package.json': '/__webpm/node_modules/preact@10.19.0/package.json',
+      'lodash-es/': '/__webpm/node_modules/lodash-es@4.17.21/',
+      'lodash-es': '/__webpm/node_modules/lodash-es@4.17.21/lodash.js',
+    })
+  })
+
+  it('maps nested versions in the scope of the package that depends on them', () => {
+    const scheduler = createNode({ name: 'scheduler', version: '0.23.2', main: 'index.js' }, ['index.js'])
+    const legacyScheduler = createNode({ name: 'scheduler', version: '0.20.2', main: 'index.js' }, ['index.js'])
+    const reactDom = createNode({ name: 'react-dom', version: '18.2.0', main: 'index.js' }, ['index.js'], { scheduler })
+    const legacy = createNode({ name: 'legacy', version: '1.0.0' }, ['index.js'], { scheduler: legacyScheduler })
+
+    const importMap = createImportMap([reactDom, legacy, scheduler], { baseUrl: 'https://cdn.example.com/pkgs' })
+
+    expect(importMap.imports.scheduler).toBe('https://cdn.example.com/pkgs/scheduler@0.23.2/index.js')
+    expect(importMap.imports.legacy).toBe('https://cdn.example.com/pkgs/legacy@1.0.0/index.js')
+    expect(importMap.scopes).toEqual({
+      'https://cdn.example.com/pkgs/legacy@1.0.0/': {
+        scheduler: 'https://cdn.example.com/pkgs/scheduler@0.20.2/index.js',
+        'scheduler/': 'https://cdn.example.com/pkgs/scheduler@0.20.2/',
+      },
+    })
+  })
+})
+
+describe('getImportMapScript', () => {
+  it('renders a script element that URLs cannot close early', () => {
+    expect(getImportMapScript({ imports: { x: '/x</script>.js' }, scopes: {} })).toBe(
+      '<script type="importmap">\n{\n  "imports": {\n    "x": "/x\\u003c/script>.js"\n  },\n  "scopes": {}\n}\n</script>'
+    )
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Tests for tarball integrity verification
+ */
+
+import { createHash } from 'node:crypto'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { TarballIntegrityError } from '@webpm/error'
+import { parseIntegrity, verifyIntegrity, TarballFetcher, type ResolvedPackage } from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const data = new TextEncoder().encode('tarball contents')
+
+function sri(algorithm: string, content: Uint8Array = data): string {
+  return `${algorithm}-${createHash(algorithm).update(content).digest('base64')}`
+}
+
+describe('parseIntegrity', () => {
+  it('parses every hash of an SSRI string with its options', () => {
+    expect(parseIntegrity('sha512-abc+/== sha1-def?opt1?opt2 not-valid!')).toEqual([
+      { algorithm: 'sha512', digest: 'abc+/==', options: [] },
+      { algorithm: 'sha1', digest: 'def', options: ['opt1', 'opt2'] },
+    ])
+  })
+})
+
+describe('verifyIntegrity', () => {
+  it('returns the strongest verified hash', async () => {
+    const integrity = `${sri('sha1')} ${sri('sha512')}`
+
+    await expect(verifyIntegrity(data, integrity, 'https://example.com/a.tgz')).resolves.toBe(sri('sha512'))
+  })
+
+  it('throws TarballIntegrityError when any algorithm does not match', async () => {
+    const tampered = new TextEncoder().encode('tampered contents')
+    const integrity = `${sri('sha512')} ${sri('sha1', tampered)}`
+
+    await expect(verifyIntegrity(data, integrity, 'https://example.com/a.tgz')).rejects.toMatchObject({
+      name: 'TarballIntegrityError',
+      algorithm: 'sha1',
+      expected: sri('sha1', tampered),
+      found: sri('sha1'),
+    })
+  })
+
+  it('rejects strings without a supported algorithm', async () => {
+    await expect(verifyIntegrity(data, 'md5-abc==', 'https://example.com/a.tgz')).rejects.toMatchObject({
+      code: 'ERR_WEBPM_INVALID_TARBALL_INTEGRITY',
+    })
+  })
+})
+
+describe('TarballFetcher', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function createPackage(resolution: Partial<ResolvedPackage['resolution']>): ResolvedPackage {
+    const tarball = 'https://registry.example.com/pkg/-/pkg-1.0.0.tgz'
+    return {
+      id: 'pkg@1.0.0',
+      name: 'pkg',
+      version: '1.0.0',
+      resolution: { type: 'npm', tarball, ...resolution },
+      dependencies: {},
+      devDependencies: {},
+      peerDependencies: {},
+      optionalDependencies: {},
+      manifest: { name: 'pkg', version: '1.0.0', dist: { tarball } },
+    }
+  }
+
+  it('refuses tarballs that do not match the registry integrity', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(data)))
+    const tampered = new TextEncoder().encode('tampered contents')
+
+    await expect(
+      new TarballFetcher().fetchPackage(createPackage({ integrity: sri('sha512', tampered) }))
+    ).rejects.toBeInstanceOf(TarballIntegrityError)
+  })
+
+  it('verifies legacy shasums', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(data)))
+    const shasum = createHash('sha1').update('tampered contents').digest('hex')
+
+    await expect(
+      new TarballFetcher().fetchPackage(createPackage({ shasum }))
+    ).rejects.toBeInstanceOf(TarballIntegrityError)
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Tests for writing node_modules layouts into a virtual filesystem
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  MemoryFileSystem,
+  linkHoisted,
+  linkIsolated,
+  type DependencyTreeNode,
+  type ResolvedPackage,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function createNode(
+  name: string,
+  version: string,
+  children: Record<string, DependencyTreeNode> = {}
+): DependencyTreeNode {
+  const pkg: ResolvedPackage = {
+    id: `${name}@${version}`,
+    name,
+    version,
+    resolution: { type: 'npm', tarball: '' },
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    optionalDependencies: {},
+    manifest: { name, version, dist: { tarball: '' } },
+  }
+  const files = {
+    'package.json': JSON.stringify({ name, version }),
+    'lib/index.js': `module.exports = '${name}@${version}'`,
+  }
+  return {
+    package: pkg,
+    children: new Map(Object.entries(children)),
+    depth: 0,
+    installable: true,
+    fetched: {
+      package: pkg,
+      extractedFiles: {
+        files: Object.entries(files).map(([fileName, content]) => ({
+          name: fileName,
+          buffer: Buffer.from(content),
+          size: content.length,
+          type: 'file',
+        })),
+        hasInstallScript: false,
+      },
+      tarballBuffer: new ArrayBuffer(0),
+      integrity: '',
+      timings: { fetchTime: 0, extractionTime: 0, totalTime: 0 },
+    },
+  }
+}
+
+describe('linkIsolated', () => {
+  it('writes packages into the virtual store and links dependencies next to them', async () => {
+    const fs = new MemoryFileSystem()
+    const scheduler = createNode('scheduler', '0.23.2')
+    const reactDom = createNode('react-dom', '18.2.0', { scheduler })
+    const types = createNode('@types/react', '18.2.0')
+
+    const result = await linkIsolated(fs, [reactDom, types])
+
+    expect(result).toEqual({ nodeModulesDir: '/node_modules', packages: 3, files: 6, symlinks: 3 })
+    expect(await fs.readdir('/node_modules/.pnpm')).toEqual(['react-dom@18.2.0', 'scheduler@0.23.2', '@types+react@18.2.0'])
+    expect(await fs.readlink('/node_modules/react-dom')).toBe('.pnpm/react-dom@18.2.0/node_modules/react-dom')
+    expect(await fs.readlink('/node_modules/@types/react')).toBe('../.pnpm/@types+react@18.2.0/node_modules/@types/react')
+    expect(await fs.readlink('/node_modules/.pnpm/react-dom@18.2.0/node_modules/scheduler')).toBe(
+      '../../scheduler@0.23.2/node_modules/scheduler'
+    )
+    expect(await fs.readFile('/node_modules/@types/react/lib/index.js', { encoding: 'utf8' })).toBe(
+      "module.exports = '@types/react@18.2.0'"
+    )
+  })
+
+  it('lets Node-style lookups from a package real path find its dependencies', async () => {
+    const fs = new MemoryFileSystem()
+    const scheduler = createNode('scheduler', '0.23.2')
+    const reactDom = createNode('react-dom', '18.2.0', { scheduler })
+
+    await linkIsolated(fs, [reactDom], { projectDir: '/app' })
+
+    const realPath = await fs.realpath('/app/node_modules/react-dom')
+    expect(realPath).toBe('/app/node_modules/.pnpm/react-dom@18.2.0/node_modules/react-dom')
+    expect(await fs.readFile(`${realPath}/../scheduler/package.json`, { encoding: 'utf8' })).toBe(
+      JSON.stringify({ name: 'scheduler', version: '0.23.2' })
+    )
+    expect(await fs.realpath('/app/node_modules/.pnpm/react-dom@18.2.0/node_modules/scheduler/lib')).toBe(
+      '/app/node_modules/.pnpm/scheduler@0.23.2/node_modules/scheduler/lib'
+    )
+  })
+
+  it('replaces the previous layout when linking again', async () => {
+    const fs = new MemoryFileSystem()
+
+    await linkIsolated(fs, [createNode('pkg', '1.0.0')])
+    await linkIsolated(fs, [createNode('pkg', '2.0.0')])
+
+    expect(await fs.readlink('/node_modules/pkg')).toBe('.pnpm/pkg@2.0.0/node_modules/pkg')
+    expect(await fs.readFile('/node_modules/pkg/lib/index.js', { encoding: 'utf8' })).toBe("module.exports = 'pkg@2.0.0'")
+  })
+})
+
+describe('linkHoisted', () => {
+  it('hoists packages to the root and nests conflicting versions under their dependents', async () => {
+    const fs = new MemoryFileSystem()
+    const reactDom = createNode('react-dom', '18.2.0', { scheduler: createNode('scheduler', '0.23.2') })
+    const legacy = createNode('legacy', '1.0.0', { scheduler: createNode('scheduler', '0.20.2') })
+
+    const result = await linkHoisted(fs, [reactDom, legacy])
+
+    expect(await fs.readdir('/node_modules')).toEqual(['react-dom', 'legacy', 'scheduler'])
+    expect((await fs.lstat('/node_modules/legacy')).isSymbolicLink()).toBe(false)
+    expect(await fs.readFile('/node_modules/legacy/node_modules/scheduler/lib/index.js', { encoding: 'utf8' })).toBe(
+      "module.exports = 'scheduler@0.20.2'"
+    )
+    expect(result).toMatchObject({ packages: 4, symlinks: 0 })
+    expect(result.nested).toEqual([
+      {
+        id: 'scheduler@0.20.2',
+        path: '/node_modules/legacy/node_modules/scheduler',
+        requiredBy: 'legacy@1.0.0',
+        conflictsWith: 'scheduler@0.23.2',
+      },
+    ])
+  })
+
+  it('does not hoist into a directory another package already resolves the name through', async () => {
+    const fs = new MemoryFileSystem()
+    const x1 = createNode('x', '1.0.0')
+    const b1 = createNode('b', '1.0.0', { x: x1 })
+    const e1 = createNode('e', '1.0.0', { x: createNode('x', '2.0.0') })
+    const a = createNode('a', '1.0.0', { b: b1, e: e1 })
+
+    const result = await linkHoisted(fs, [x1, createNode('b', '2.0.0'), createNode('e', '2.0.0'), a])
+
+    expect(result.nested.map(({ path, conflictsWith }) => [path, conflictsWith])).toEqual([
+      ['/node_modules/a/node_modules/b', 'b@2.0.0'],
+      ['/node_modules/a/node_modules/e', 'e@2.0.0'],
+      ['/node_modules/a/node_modules/e/node_modules/x', 'x@1.0.0'],
+    ])
+  })
+
+  it('stops nesting when a cycle through other versions leads back to an ancestor', async () => {
+    const fs = new MemoryFileSystem()
+    const a1 = createNode('a', '1.0.0')
+    const b1 = createNode('b', '1.0.0')
+    const a2 = createNode('a', '2.0.0')
+    const b2 = createNode('b', '2.0.0')
+    a1.children.set('b', b1)
+    b1.children.set('a', a2)
+    a2.children.set('b', b2)
+    b2.children.set('a', a1)
+
+    const result = await linkHoisted(fs, [a1])
+
+    expect(result.nested.map(({ id, path }) => [id, path])).toEqual([
+      ['a@2.0.0', '/node_modules/b/node_modules/a'],
+      ['b@2.0.0', '/node_modules/b/node_modules/b'],
+    ])
+    expect(result.packages).toBe(4)
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * Tests for pnpm lockfile generation
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { BrokenLockfileError, OutdatedLockfileError } from '@webpm/error'
+import { NPMRegistry } from '@webpm/registry'
+import {
+  TarballFetcher,
+  createLockfile,
+  createTreesFromLockfile,
+  fetchLockedDependencies,
+  parseLockfile,
+  serializeLockfile,
+  type DependencyTreeNode,
+  type FetchedPackage,
+  type ResolvedPackage,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function createNode(
+  name: string,
+  version: string,
+  overrides: Partial<ResolvedPackage> = {},
+  children: Record<string, DependencyTreeNode> = {}
+): DependencyTreeNode {
+  const unscopedName = name.split('/').pop()
+  const pkg: ResolvedPackage = {
+    id: `${name}@${version}`,
+    name,
+    version,
+    resolution: {
+      type: 'npm',
+      tarball: `https://registry.npmjs.org/${name}/-/${unscopedName}-${version}.tgz`,
+      integrity: `sha512-${name}${version}==`,
+    },
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    optionalDependencies: {},
+    manifest: { name, version, dist: { tarball: '' } },
+    ...overrides,
+  }
+  return { package: pkg, children: new Map(Object.entries(children)), depth: 0, installable: true }
+}
+
+describe('createLockfile', () => {
+  it('records importer specifiers and resolved versions per dependency field', () => {
+    const leftPad = createNode('left-pad', '1.3.0')
+    const typescript = createNode('typescript', '5.9.2', {
+      manifest: { name: 'typescript', version: '5.9.2', dist: { tarball: '' }, bin: { tsc: './bin/tsc' } } as ResolvedPackage['manifest'],
+    })
+
+    const lockfile = createLockfile(
+      { dependencies: { 'left-pad': '^1.3.0' }, devDependencies: { typescript: '~5.9.0' } },
+      [leftPad, typescript]
+    )
+
+    expect(lockfile.lockfileVersion).toBe('9.0')
+    expect(lockfile.importers['.']).toEqual({
+      dependencies: { 'left-pad': { specifier: '^1.3.0', version: '1.3.0' } },
+      devDependencies: { typescript: { specifier: '~5.9.0', version: '5.9.2' } },
+    })
+    expect(lockfile.packages['typescript@5.9.2']).toEqual({
+      resolution: { integrity: 'sha512-typescript5.9.2==' },
+      hasBin: true,
+    })
+  })
+
+  it('records snapshot edges to the versions each parent resolved', () => {
+    const schedulerNew = createNode('scheduler', '0.23.2')
+    const schedulerOld = createNode('scheduler', '0.20.2')
+    const fsevents = createNode('fsevents', '2.3.3')
+    const reactDom = createNode('react-dom', '18.2.0', { dependencies: { scheduler: '^0.23.0' } }, { scheduler: schedulerNew })
+    const legacy = createNode(
+      'legacy',
+      '1.0.0',
+      { dependencies: { scheduler: '^0.20.0' }, optionalDependencies: { fsevents: '^2.0.0' } },
+      { scheduler: schedulerOld, fsevents }
+    )
+
+    const lockfile = createLockfile(
+      { dependencies: { 'react-dom': '^18.0.0', legacy: '^1.0.0' } },
+      [reactDom, legacy]
+    )
+
+    expect(Object.keys(lockfile.packages)).toEqual([
+      'fsevents@2.3.3',
+      'legacy@1.0.0',
+      'react-dom@18.2.0',
+      'scheduler@0.20.2',
+      'scheduler@0.23.2',
+    ])
+    expect(lockfile.snapshots['react-dom@18.2.0']).toEqual({ dependencies: { scheduler: '0.23.2' } })
+    expect(lockfile.snapshots['legacy@1.0.0']).toEqual({
+      dependencies: { scheduler: '0.20.2' },
+      optionalDependencies: { fsevents: '2.3.3' },
+    })
+    expect(lockfile.snapshots['fsevents@2.3.3']).toEqual({ optional: true })
+  })
+
+  it('keeps tarball URLs that are not served from the default registry path', () => {
+    const pkg = createNode('private-pkg', '1.0.0', {
+      resolution: { type: 'npm', tarball: 'https://cdn.example.com/private-pkg.tgz', integrity: 'sha512-abc==' },
+    })
+
+    const lockfile = createLockfile({ dependencies: { 'private-pkg': '1.0.0' } }, [pkg])
+
+    expect(lockfile.packages['private-pkg@1.0.0'].resolution).toEqual({
+      integrity: 'sha512-abc==',
+      tarball: 'https://cdn.example.com/private-pkg.tgz',
+    })
+  })
+})
+
+describe('serializeLockfile', () => {
+  const lockfile = createLockfile({ dependencies: { '@scope/pkg': '^1.0.0' } }, [createNode('@scope/pkg', '1.0.0')])
+
+  it('writes pnpm-lock.yaml v9 text', () => {
+    expect(serializeLockfile(lockfile)).toBe(`lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: false
+  excludeLinksFromLockfile: false
+
+importers:
+
+  .:
+    dependencies:
+      '@scope/pkg':
+        specifier: ^1.0.0
+        version: 1.0.0
+
+packages:
+
+  '@scope/pkg@1.0.0':
+    resolution: {integrity: sha512-@scope/pkg1.0.0==}
+
+snapshots:
+
+  '@scope/pkg@1.0.0': {}
+`)
+  })
+
+  it('writes the same structure as JSON', () => {
+    expect(JSON.parse(serializeLockfile(lockfile, 'json'))).toEqual(lockfile)
+  })
+})
+
+describe('createTreesFromLockfile', () => {
+  const scheduler = createNode('scheduler', '0.23.2')
+  const reactDom = createNode('react-dom', '18.2.0', { dependencies: { scheduler: '^0.23.0' } }, { scheduler })
+  const packageJson = { dependencies: { 'react-dom': '^18.0.0' } }
+  const lockfile = parseLockfile(serializeLockfile(createLockfile(packageJson, [reactDom])))
+
+  it('rebuilds the locked graph with registry tarball URLs', () => {
+    const trees = createTreesFromLockfile(packageJson, lockfile)
+    const root = trees.get('react-dom')!
+
+    expect(root.package.id).toBe('react-dom@18.2.0')
+    expect(root.children.get('scheduler')?.package).toMatchObject({
+      id: 'scheduler@0.23.2',
+      resolution: {
+        tarball: 'https://registry.npmjs.org/scheduler/-/scheduler-0.23.2.tgz',
+        integrity: 'sha512-scheduler0.23.2==',
+      },
+    })
+  })
+
+  it('reports every specifier that disagrees with package.json', () => {
+    const changed = { dependencies: { 'react-dom': '^19.0.0', lodash: '^4.0.0' } }
+
+    let error: unknown
+    try {
+      createTreesFromLockfile(changed, lockfile)
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(OutdatedLockfileError)
+    expect(error).toMatchObject({
+      code: 'ERR_WEBPM_OUTDATED_LOCKFILE',
+      mismatches: [
+        { field: 'dependencies', alias: 'lodash', wanted: '^4.0.0', locked: undefined },
+        { field: 'dependencies', alias: 'react-dom', wanted: '^19.0.0', locked: '^18.0.0' },
+      ],
+    })
+  })
+
+  it('rejects lockfiles with missing entries or another major version', () => {
+    const packages = { ...lockfile.packages }
+    delete packages['scheduler@0.23.2']
+
+    expect(() => createTreesFromLockfile(packageJson, { ...lockfile, packages })).toThrow(BrokenLockfileError)
+    expect(() => parseLockfile("lockfileVersion: '6.0'\n")).toThrow(BrokenLockfileError)
+  })
+})
+
+describe('fetchLockedDependencies', () => {
+  const scheduler = createNode('scheduler', '0.23.2')
+  const reactDom = createNode('react-dom', '18.2.0', { dependencies: { scheduler: '^0.23.0' } }, { scheduler })
+  const packageJson = { dependencies: { 'react-dom': '^18.0.0' } }
+  const lockfile = createLockfile(packageJson, [reactDom])
+
+  it('fails the install when a locked package cannot be fetched', async () => {
+    const spy = vi.spyOn(TarballFetcher.prototype, 'fetchPackage').mockImplementation(async (pkg) =>
+      pkg.name === 'scheduler'
+        ? null
+        : ({ package: pkg, extractedFiles: { files: [] } } as unknown as FetchedPackage)
+    )
+
+    const registry = new NPMRegistry()
+
+    const error = await fetchLockedDependencies(packageJson, registry, { lockfile }).catch((e: unknown) => e)
+    const fetchOptions = spy.mock.calls.map(([, options]) => options)
+    spy.mockRestore()
+
+    expect(error).toMatchObject({
+      code: 'ERR_WEBPM_LOCKED_DEPENDENCY_FETCH_FAILED',
+      message: 'Failed to fetch scheduler@0.23.2, locked as a dependency of react-dom',
+    })
+    // Tarballs are downloaded with the credentials and retry policy of the registry client
+    expect(fetchOptions).toEqual([expect.objectContaining({ registry }), expect.objectContaining({ registry })])
+  })
+})
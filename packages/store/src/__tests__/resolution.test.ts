@@ -0,0 +1,134 @@
+/**
+ * Tests for dependency resolution with several versions of the same package
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { NPMRegistry, PackageMetadata, PackageVersions } from '@webpm/registry'
+import { resolvePackageTree, type DependencyTreeNode } from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+type Fixture = Record<string, Record<string, Record<string, string>>>
+
+function createPackument(name: string, versions: Record<string, Record<string, string>>): PackageVersions {
+  const versionEntries: Record<string, PackageMetadata> = {}
+  for (const [version, dependencies] of Object.entries(versions)) {
+    versionEntries[version] = {
+      name,
+      version,
+      dependencies,
+      dist: { tarball: `https://registry.example.com/${name}/-/${name}-${version}.tgz` },
+    }
+  }
+  const latest = Object.keys(versions).at(-1)!
+  return {
+    name,
+    versions: versionEntries,
+    'dist-tags': { latest },
+    time: { created: '', modified: '' },
+  }
+}
+
+function createFakeRegistry(fixture: Fixture): NPMRegistry {
+  return {
+    getPackageVersions: vi.fn(async (name: string) => createPackument(name, fixture[name])),
+  } as unknown as NPMRegistry
+}
+
+function childVersion(node: DependencyTreeNode, ...path: string[]): string | undefined {
+  let current: DependencyTreeNode | undefined = node
+  for (const name of path) {
+    current = current?.children.get(name)
+  }
+  return current?.package.version
+}
+
+describe('resolvePackageTree', () => {
+  it('keeps several versions of a package that satisfy different ranges', async () => {
+    const registry = createFakeRegistry({
+      app: { '1.0.0': { 'react-dom': '^18.0.0', legacy: '^1.0.0' } },
+      'react-dom': { '18.2.0': { scheduler: '^0.23.0' } },
+      legacy: { '1.0.0': { scheduler: '^0.20.0' } },
+      scheduler: { '0.20.2': {}, '0.23.0': {}, '0.23.2': {} },
+    })
+
+    const root = await resolvePackageTree('app', '1.0.0', registry)
+
+    expect(root).not.toBeNull()
+    expect(childVersion(root!, 'react-dom', 'scheduler')).toBe('0.23.2')
+    expect(childVersion(root!, 'legacy', 'scheduler')).toBe('0.20.2')
+  })
+
+  it('shares the node of a version that several ranges resolve to', async () => {
+    const registry = createFakeRegistry({
+      app: { '1.0.0': { a: '1.0.0', b: '1.0.0' } },
+      a: { '1.0.0': { shared: '1.2.0' } },
+      b: { '1.0.0': { c: '1.0.0' } },
+      c: { '1.0.0': { shared: '^1.0.0' } },
+      shared: { '1.0.0': {}, '1.1.0': {}, '1.2.0': {} },
+    })
+
+    const root = await resolvePackageTree('app', '1.0.0', registry)
+
+    expect(childVersion(root!, 'a', 'shared')).toBe('1.2.0')
+    expect(root!.children.get('a')!.children.get('shared')).toBe(
+      root!.children.get('b')!.children.get('c')!.children.get('shared')
+    )
+  })
+
+  it('resolves each range to its highest version whichever resolves first', async () => {
+    const fixture: Fixture = {
+      app: { '1.0.0': { a: '1.0.0', b: '1.0.0' } },
+      a: { '1.0.0': { shared: '1.1.0' } },
+      b: { '1.0.0': { shared: '^1.0.0' } },
+      shared: { '1.0.0': {}, '1.1.0': {}, '1.2.0': {} },
+    }
+    // Answer for one of the dependents last, so its range is resolved after the other
+    const createDelayedRegistry = (slow: string) =>
+      ({
+        getPackageVersions: vi.fn(async (name: string) => {
+          await new Promise((resolve) => setTimeout(resolve, name === slow ? 20 : 0))
+          return createPackument(name, fixture[name])
+        }),
+      }) as unknown as NPMRegistry
+
+    for (const slow of ['a', 'b']) {
+      const root = await resolvePackageTree('app', '1.0.0', createDelayedRegistry(slow))
+
+      expect(childVersion(root!, 'a', 'shared')).toBe('1.1.0')
+      expect(childVersion(root!, 'b', 'shared')).toBe('1.2.0')
+    }
+  })
+
+  it('resolves the root node for dist-tag specifiers', async () => {
+    const registry = createFakeRegistry({
+      app: { '1.0.0': {}, '2.0.0': { dep: '^1.0.0' } },
+      dep: { '1.0.0': {} },
+    })
+
+    const root = await resolvePackageTree('app', 'latest', registry)
+
+    expect(root?.package.id).toBe('app@2.0.0')
+    expect(childVersion(root!, 'dep')).toBe('1.0.0')
+  })
+
+  it('keeps circular dependencies as references in the graph', async () => {
+    const registry = createFakeRegistry({
+      a: { '1.0.0': { b: '^1.0.0' } },
+      b: { '1.0.0': { a: '^1.0.0' } },
+    })
+
+    const root = await resolvePackageTree('a', '1.0.0', registry)
+    const b = root!.children.get('b')!
+
+    expect(b.children.get('a')).toBe(root)
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Tests for Node module resolution over a virtual filesystem
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { FileSystemUtils, MemoryFileSystem, resolveModule } from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function createFileSystem(files: Record<string, string | object>): Promise<MemoryFileSystem> {
+  const fs = new MemoryFileSystem()
+  for (const [path, content] of Object.entries(files)) {
+    await FileSystemUtils.ensureDir(fs, FileSystemUtils.getParentPath(path))
+    await fs.writeFile(path, typeof content === 'string' ? content : JSON.stringify(content))
+  }
+  return fs
+}
+
+describe('resolveModule', () => {
+  it('resolves "exports" subpaths and patterns with the given conditions', async () => {
+    const fs = await createFileSystem({
+      '/node_modules/pkg/package.json': {
+        name: 'pkg',
+        exports: {
+          '.': { browser: './browser.js', import: './index.mjs', require: './index.cjs' },
+          './features/*.js': './src/features/*.js',
+          './features/private/*': null,
+          './package.json': './package.json',
+        },
+      },
+      '/node_modules/pkg/browser.js': '',
+      '/node_modules/pkg/index.mjs': '',
+      '/node_modules/pkg/index.cjs': '',
+      '/node_modules/pkg/src/features/a.js': '',
+    })
+
+    expect(await resolveModule(fs, 'pkg', '/src/main.js')).toBe('/node_modules/pkg/browser.js')
+    expect(await resolveModule(fs, 'pkg', '/src/main.js', { conditions: ['import'] })).toBe('/node_modules/pkg/index.mjs')
+    expect(await resolveModule(fs, 'pkg', '/src/main.js', { conditions: ['require'] })).toBe('/node_modules/pkg/index.cjs')
+    expect(await resolveModule(fs, 'pkg/features/a.js', '/src/main.js')).toBe('/node_modules/pkg/src/features/a.js')
+    await expect(resolveModule(fs, 'pkg/features/private/a.js', '/src/main.js')).rejects.toMatchObject({
+      code: 'ERR_WEBPM_PACKAGE_PATH_NOT_EXPORTED',
+    })
+    await expect(resolveModule(fs, 'pkg/src/features/a.js', '/src/main.js')).rejects.toMatchObject({
+      code: 'ERR_WEBPM_PACKAGE_PATH_NOT_EXPORTED',
+    })
+  })
+
+  it('probes extensions and directory indexes of packages without "exports"', async () => {
+    const fs = await createFileSystem({
+      '/node_modules/lodash-es/package.json': { name: 'lodash-es', main: 'lodash.js', module: 'lodash.js' },
+      '/node_modules/lodash-es/lodash.js': '',
+      '/node_modules/lodash-es/map.js': '',
+      '/node_modules/legacy/package.json': { name: 'legacy', main: './lib', module: './es/index.js' },
+      '/node_modules/legacy/lib/index.js': '',
+      '/node_modules/legacy/es/index.js': '',
+      '/node_modules/legacy/utils/index.json': '{}',
+    })
+
+    expect(await resolveModule(fs, 'lodash-es/map', '/src/main.js')).toBe('/node_modules/lodash-es/map.js')
+    expect(await resolveModule(fs, 'legacy', '/src/main.js')).toBe('/node_modules/legacy/es/index.js')
+    expect(await resolveModule(fs, 'legacy', '/src/main.js', { conditions: ['require'] })).toBe(
+      '/node_modules/legacy/lib/index.js'
+    )
+    expect(await resolveModule(fs, 'legacy/utils', '/src/main.js')).toBe('/node_modules/legacy/utils/index.json')
+    await expect(resolveModule(fs, 'missing', '/src/main.js')).rejects.toMatchObject({
+      code: 'ERR_WEBPM_MODULE_NOT_FOUND',
+      specifier: 'missing',
+      importer: '/src/main.js',
+    })
+  })
+
+  it('applies the browser field to modules and files', async () => {
+    const fs = await createFileSystem({
+      '/node_modules/pkg/package.json': {
+        name: 'pkg',
+        main: './lib/node.js',
+        browser: { './lib/node.js': './lib/browser.js', fs: false, stream: 'readable-stream' },
+      },
+      '/node_modules/pkg/lib/node.js': "require('fs'); require('stream')",
+      '/node_modules/pkg/lib/browser.js': '',
+      '/node_modules/readable-stream/index.js': '',
+    })
+
+    expect(await resolveModule(fs, 'pkg', '/main.js')).toBe('/node_modules/pkg/lib/browser.js')
+    expect(await resolveModule(fs, 'pkg', '/main.js', { conditions: ['node', 'import'] })).toBe('/node_modules/pkg/lib/node.js')
+    expect(await resolveModule(fs, 'fs', '/node_modules/pkg/lib/node.js')).toBe(false)
+    expect(await resolveModule(fs, 'stream', '/node_modules/pkg/lib/node.js')).toBe('/node_modules/readable-stream/index.js')
+  })
+
+  it('resolves "imports" and package self references', async () => {
+    const fs = await createFileSystem({
+      '/app/package.json': {
+        name: 'app',
+        exports: { './utils': './src/utils.js' },
+        imports: { '#config': { browser: './src/config.browser.js', default: './src/config.js' }, '#dep': 'dep' },
+      },
+      '/app/src/utils.js': '',
+      '/app/src/config.js': '',
+      '/app/src/config.browser.js': '',
+      '/app/node_modules/dep/index.js': '',
+    })
+
+    expect(await resolveModule(fs, '#config', '/app/src/main.js')).toBe('/app/src/config.browser.js')
+    expect(await resolveModule(fs, '#config', '/app/src/main.js', { conditions: ['require'] })).toBe('/app/src/config.js')
+    expect(await resolveModule(fs, '#dep', '/app/src/main.js')).toBe('/app/node_modules/dep/index.js')
+    expect(await resolveModule(fs, 'app/utils', '/app/src/main.js')).toBe('/app/src/utils.js')
+    await expect(resolveModule(fs, '#missing', '/app/src/main.js')).rejects.toMatchObject({
+      code: 'ERR_WEBPM_PACKAGE_IMPORT_NOT_DEFINED',
+    })
+  })
+
+  it('returns real paths so dependencies resolve from an isolated layout', async () => {
+    const fs = await createFileSystem({
+      '/node_modules/.pnpm/a@1.0.0/node_modules/a/index.js': "require('b')",
+      '/node_modules/.pnpm/b@1.0.0/node_modules/b/index.js': '',
+    })
+    await fs.symlink('.pnpm/a@1.0.0/node_modules/a', '/node_modules/a')
+    await fs.symlink('../../b@1.0.0/node_modules/b', '/node_modules/.pnpm/a@1.0.0/node_modules/b')
+
+    const a = await resolveModule(fs, 'a', '/index.js')
+    expect(a).toBe('/node_modules/.pnpm/a@1.0.0/node_modules/a/index.js')
+    expect(await resolveModule(fs, 'b', a as string)).toBe('/node_modules/.pnpm/b@1.0.0/node_modules/b/index.js')
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * Tests for the service worker that serves installed packages
+ */
+
+import 'fake-indexeddb/auto'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import {
+  FileContentStore,
+  FileSystemUtils,
+  MemoryFileSystem,
+  PACKAGE_SERVER_CLAIM_MESSAGE,
+  createPackageRequestHandler,
+  getPackageBaseUrl,
+  installPackageServer,
+  parsePackageFileUrl,
+  registerPackageServer,
+  type PackageServerExtendableEvent,
+  type PackageServerFetchEvent,
+  type PackageServerMessageEvent,
+  type PackageServerScope,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function writeFiles(fs: MemoryFileSystem, files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await FileSystemUtils.ensureDir(fs, FileSystemUtils.getParentPath(path))
+    await fs.writeFile(path, content)
+  }
+}
+
+function createScope() {
+  const listeners: {
+    fetch?: (event: PackageServerFetchEvent) => void
+    activate?: (event: PackageServerExtendableEvent) => void
+    message?: (event: PackageServerMessageEvent) => void
+  } = {}
+  const scope: PackageServerScope = {
+    addEventListener: (
+      type: string,
+      listener: (event: PackageServerFetchEvent & PackageServerMessageEvent) => void
+    ) => {
+      Object.assign(listeners, { [type]: listener })
+    },
+    skipWaiting: vi.fn(async () => {}),
+    clients: { claim: vi.fn(async () => {}) },
+  }
+  return { scope, listeners }
+}
+
+describe('parsePackageFileUrl', () => {
+  it('parses names, versions, generations and file paths', () => {
+    expect(parsePackageFileUrl('/__webpm/node_modules/@scope/pkg@1.0.0/lib/index.js')).toEqual({
+      generation: undefined,
+      name: '@scope/pkg',
+      version: '1.0.0',
+      path: 'lib/index.js',
+    })
+    expect(parsePackageFileUrl('/__webpm/abc123/node_modules/pkg/index.js')).toEqual({
+      generation: 'abc123',
+      name: 'pkg',
+      version: undefined,
+      path: 'index.js',
+    })
+    expect(parsePackageFileUrl('/__webpm/node_modules/pkg@1.0.0')).toBeNull()
+    expect(parsePackageFileUrl('/__webpm/node_modules/pkg/../../secret')).toBeNull()
+    expect(parsePackageFileUrl('/app/index.js')).toBeNull()
+  })
+
+  it('rejects malformed percent-encoding', () => {
+    expect(parsePackageFileUrl('/__webpm/node_modules/pkg/%E0%A4%A.js')).toBeNull()
+  })
+
+  it('rejects encoded separators and dot segments', () => {
+    expect(parsePackageFileUrl('/__webpm/node_modules/foo/x%2F..%2F..%2F..%2Fsecret')).toBeNull()
+    expect(parsePackageFileUrl('/__webpm/node_modules/foo/x%5C..%5Csecret')).toBeNull()
+    expect(parsePackageFileUrl('/__webpm/node_modules/foo/%2E%2E/secret')).toBeNull()
+    expect(parsePackageFileUrl('/__webpm/node_modules/foo/./index.js')).toBeNull()
+  })
+})
+
+describe('createPackageRequestHandler', () => {
+  it('serves files from the FileContentStore with their content type', async () => {
+    const store = new FileContentStore()
+    await store.storeFileContent({
+      id: 'pkg@1.0.0/index.mjs',
+      packageName: 'pkg',
+      packageVersion: '1.0.0',
+      filePath: 'index.mjs',
+      content: "export * from './lib.mjs'",
+      size: 25,
+      contentType: 'application/javascript',
+    })
+    const handleRequest = createPackageRequestHandler({ store })
+
+    const response = await handleRequest(new Request('https://app.test/__webpm/gen-1/node_modules/pkg@1.0.0/index.mjs'))
+
+    expect(response?.status).toBe(200)
+    expect(response?.headers.get('Content-Type')).toBe('application/javascript')
+    expect(response?.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable')
+    expect(await response?.text()).toBe("export * from './lib.mjs'")
+  })
+
+  it('serves files from isolated and hoisted layouts of the virtual filesystem', async () => {
+    const fs = new MemoryFileSystem()
+    await writeFiles(fs, {
+      '/node_modules/.pnpm/@scope+a@1.0.0/node_modules/@scope/a/index.js': 'isolated',
+      '/node_modules/b/package.json': JSON.stringify({ name: 'b', version: '2.0.0' }),
+      '/node_modules/b/style.css': 'hoisted',
+    })
+    const handleRequest = createPackageRequestHandler({ fs })
+
+    const isolated = await handleRequest(new Request('https://app.test/__webpm/node_modules/@scope/a@1.0.0/index.js'))
+    const hoisted = await handleRequest(new Request('https://app.test/__webpm/node_modules/b@2.0.0/style.css'))
+    const unversioned = await handleRequest(new Request('https://app.test/__webpm/node_modules/b/style.css'))
+    const otherVersion = await handleRequest(new Request('https://app.test/__webpm/node_modules/b@1.0.0/style.css'))
+
+    expect(await isolated?.text()).toBe('isolated')
+    expect(hoisted?.headers.get('Content-Type')).toBe('text/css')
+    expect(hoisted?.headers.get('Cache-Control')).toBe('no-cache')
+    expect(await unversioned?.text()).toBe('hoisted')
+    expect(otherVersion?.status).toBe(404)
+    expect(await handleRequest(new Request('https://app.test/index.html'))).toBeNull()
+  })
+
+  it('serves versions nested below their dependents in a hoisted layout', async () => {
+    const fs = new MemoryFileSystem()
+    await writeFiles(fs, {
+      '/node_modules/b/package.json': JSON.stringify({ name: 'b', version: '2.0.0' }),
+      '/node_modules/b/index.js': 'root',
+      '/node_modules/@scope/a/node_modules/b/package.json': JSON.stringify({ name: 'b', version: '1.0.0' }),
+      '/node_modules/@scope/a/node_modules/b/index.js': 'nested',
+      '/node_modules/c/node_modules/d/node_modules/b/package.json': JSON.stringify({ name: 'b', version: '0.1.0' }),
+      '/node_modules/c/node_modules/d/node_modules/b/index.js': 'deeply nested',
+    })
+    const handleRequest = createPackageRequestHandler({ fs })
+
+    const root = await handleRequest(new Request('https://app.test/__webpm/node_modules/b@2.0.0/index.js'))
+    const nested = await handleRequest(new Request('https://app.test/__webpm/node_modules/b@1.0.0/index.js'))
+    const deeplyNested = await handleRequest(new Request('https://app.test/__webpm/node_modules/b@0.1.0/index.js'))
+    const missing = await handleRequest(new Request('https://app.test/__webpm/node_modules/b@3.0.0/index.js'))
+
+    expect(await root?.text()).toBe('root')
+    expect(await nested?.text()).toBe('nested')
+    expect(await deeplyNested?.text()).toBe('deeply nested')
+    expect(missing?.status).toBe(404)
+  })
+})
+
+describe('installPackageServer', () => {
+  it('answers package requests and claims clients on activation', async () => {
+    const { scope, listeners } = createScope()
+    const fs = new MemoryFileSystem()
+    await writeFiles(fs, { '/node_modules/pkg/index.js': 'served' })
+
+    installPackageServer(scope, { fs })
+
+    const waitUntil = vi.fn()
+    listeners.activate?.({ waitUntil })
+    expect(scope.clients.claim).toHaveBeenCalled()
+
+    const respondWith = vi.fn()
+    listeners.fetch?.({ request: new Request('https://app.test/__webpm/node_modules/pkg/index.js'), respondWith })
+    listeners.fetch?.({ request: new Request('https://app.test/index.html'), respondWith })
+
+    expect(respondWith).toHaveBeenCalledTimes(1)
+    expect(await (await respondWith.mock.calls[0][0]).text()).toBe('served')
+  })
+
+  it('claims clients when a page asks for it', () => {
+    const { scope, listeners } = createScope()
+    installPackageServer(scope)
+
+    const waitUntil = vi.fn()
+    listeners.message?.({ data: { type: 'other' }, waitUntil })
+    expect(scope.clients.claim).not.toHaveBeenCalled()
+
+    listeners.message?.({ data: { type: PACKAGE_SERVER_CLAIM_MESSAGE }, waitUntil })
+    expect(scope.clients.claim).toHaveBeenCalledTimes(1)
+    expect(waitUntil).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('registerPackageServer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('registers the worker and returns the base URL of the install generation', async () => {
+    const registration = { scope: '/' }
+    const register = vi.fn(async () => registration)
+    vi.stubGlobal('navigator', { serviceWorker: { register, controller: {} } })
+
+    await expect(registerPackageServer('/webpm-sw.js', { type: 'module', generation: 'install 2' })).resolves.toEqual({
+      registration,
+      baseUrl: '/__webpm/install%202/node_modules/',
+    })
+    expect(register).toHaveBeenCalledWith('/webpm-sw.js', { scope: undefined, type: 'module' })
+    expect(getPackageBaseUrl()).toBe('/__webpm/node_modules/')
+  })
+
+  it('asks an active worker to claim a page it does not control', async () => {
+    const registration = { scope: '/' }
+    const listeners: Array<() => void> = []
+    const serviceWorker = {
+      controller: null as object | null,
+      register: vi.fn(async () => registration),
+      addEventListener: (_type: string, listener: () => void) => listeners.push(listener),
+      ready: Promise.resolve({
+        active: {
+          postMessage: vi.fn((message: { type: string }) => {
+            // The worker claims the page, like after a hard reload
+            if (message.type === PACKAGE_SERVER_CLAIM_MESSAGE) {
+              serviceWorker.controller = {}
+              listeners.forEach((listener) => listener())
+            }
+          }),
+        },
+      }),
+    }
+    vi.stubGlobal('navigator', { serviceWorker })
+
+    await expect(registerPackageServer('/webpm-sw.js')).resolves.toMatchObject({ registration })
+    expect((await serviceWorker.ready).active.postMessage).toHaveBeenCalledWith({ type: PACKAGE_SERVER_CLAIM_MESSAGE })
+  })
+
+  it('fails when no worker takes control of the page', async () => {
+    vi.stubGlobal('navigator', {
+      serviceWorker: {
+        controller: null,
+        register: vi.fn(async () => ({ scope: '/' })),
+        addEventListener: vi.fn(),
+        ready: Promise.resolve({ active: { postMessage: vi.fn() } }),
+      },
+    })
+
+    await expect(registerPackageServer('/webpm-sw.js', { timeout: 10 })).rejects.toMatchObject({
+      code: 'ERR_WEBPM_SERVICE_WORKER_NOT_CONTROLLING',
+    })
+  })
+})
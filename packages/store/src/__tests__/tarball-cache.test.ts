@@ -0,0 +1,151 @@
+/**
+ * Tests for the persistent content-addressable tarball cache
+ */
+
+import 'fake-indexeddb/auto'
+import { createHash } from 'node:crypto'
+import { gzipSync } from 'fflate'
+import * as tar from 'tar-stream'
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest'
+import { TarballCache, TarballFetcher, type ResolvedPackage } from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function sri(algorithm: string, data: Uint8Array): string {
+  return `${algorithm}-${createHash(algorithm).update(data).digest('base64')}`
+}
+
+function bytes(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer
+}
+
+async function createTarball(files: Record<string, string>): Promise<Uint8Array<ArrayBuffer>> {
+  const pack = tar.pack()
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name: `package/${name}` }, content)
+  }
+  pack.finalize()
+
+  const chunks: Buffer[] = []
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer)
+  }
+  return new Uint8Array(gzipSync(Buffer.concat(chunks)))
+}
+
+function createPackage(name: string, version: string, integrity: string): ResolvedPackage {
+  const tarball = `https://registry.example.com/${name}/-/${name}-${version}.tgz`
+  return {
+    id: `${name}@${version}`,
+    name,
+    version,
+    resolution: { type: 'npm', tarball, integrity },
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    optionalDependencies: {},
+    manifest: { name, version, dist: { tarball } },
+  }
+}
+
+describe('TarballCache', () => {
+  let cache: TarballCache
+
+  beforeEach(async () => {
+    cache = new TarballCache(`test-tarball-cache-${Math.random()}`)
+    await cache.init()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('finds tarballs by any hash of an SSRI string', async () => {
+    const data = new TextEncoder().encode('tarball contents')
+    await cache.set(sri('sha512', data), data.buffer as ArrayBuffer)
+
+    const found = await cache.get(`${sri('sha1', data)} ${sri('sha512', data)}`)
+
+    expect(new TextDecoder().decode(found!)).toBe('tarball contents')
+    expect(await cache.get(sri('sha1', data))).toBeNull()
+    expect(await cache.getCacheSize()).toBe(data.byteLength)
+  })
+
+  it('prunes unused and least recently used tarballs', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    await cache.set('sha512-old', bytes('old'))
+    vi.advanceTimersByTime(1000)
+    await cache.set('sha512-recent', bytes('recent'))
+    vi.advanceTimersByTime(1000)
+    await cache.set('sha512-newest', bytes('newest'))
+    vi.advanceTimersByTime(1000)
+    await cache.get('sha512-old')
+
+    expect(await cache.prune({ maxAge: 1500 })).toEqual(['sha512-recent'])
+    expect(await cache.prune({ maxSize: 4 })).toEqual(['sha512-newest'])
+    expect(await cache.getCacheSize()).toBe(3)
+  })
+
+  it('removes tarballs whose contents no longer match', async () => {
+    const data = new TextEncoder().encode('tarball contents')
+    await cache.set(sri('sha512', data), data.buffer as ArrayBuffer)
+    await cache.set(sri('sha512', data).replace(/.{4}=*$/, 'AAAA=='), bytes('corrupted'))
+
+    const result = await cache.verify()
+
+    expect(result.checked).toBe(2)
+    expect(result.removed).toHaveLength(1)
+    expect(await cache.get(sri('sha512', data))).not.toBeNull()
+  })
+})
+
+describe('TarballFetcher with a tarball cache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reinstalls from the cache without network and shares tarballs by content', async () => {
+    const tarball = await createTarball({ 'package.json': '{"name":"pkg","version":"1.0.0"}' })
+    const integrity = sri('sha512', tarball)
+    const cache = new TarballCache(`test-tarball-cache-${Math.random()}`)
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(tarball)))
+
+    await new TarballFetcher({ tarballCache: cache }).fetchPackage(createPackage('pkg', '1.0.0', integrity))
+
+    const offlineFetch = vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    })
+    vi.stubGlobal('fetch', offlineFetch)
+    const fetcher = new TarballFetcher({ tarballCache: cache })
+    const reinstalled = await fetcher.fetchPackage(createPackage('pkg', '1.0.0', integrity))
+    const alias = await fetcher.fetchPackage(createPackage('pkg-alias', '2.0.0', integrity))
+
+    expect(reinstalled?.integrity).toBe(integrity)
+    expect(reinstalled?.extractedFiles.manifest).toMatchObject({ name: 'pkg' })
+    expect(alias?.extractedFiles.files.map((file) => file.name)).toEqual(['package.json'])
+    expect(offlineFetch).not.toHaveBeenCalled()
+  })
+
+  it('downloads corrupted cache entries again', async () => {
+    const tarball = await createTarball({ 'package.json': '{"name":"pkg","version":"1.0.0"}' })
+    const integrity = sri('sha512', tarball)
+    const cache = new TarballCache(`test-tarball-cache-${Math.random()}`)
+    await cache.set(integrity, bytes('corrupted'))
+    const fetchMock = vi.fn(async () => new Response(tarball))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const fetched = await new TarballFetcher({ tarballCache: cache }).fetchPackage(createPackage('pkg', '1.0.0', integrity))
+
+    expect(fetched?.extractedFiles.manifest).toMatchObject({ name: 'pkg' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(await cache.verify()).toEqual({ checked: 1, removed: [] })
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Tests for fetching and extracting package tarballs
+ */
+
+import { gzipSync } from 'fflate'
+import * as tar from 'tar-stream'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { FetchError, isFetchError } from '@webpm/error'
+import { NPMRegistry } from '@webpm/registry'
+import {
+  TarballFetcher,
+  fetchDependencyTree,
+  type DependencyTreeNode,
+  type FetchedPackage,
+  type ResolvedPackage,
+} from '../index'
+
+// Mock the logger to avoid console output during tests
+vi.mock('@webpm/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+async function createTarball(files: Record<string, string>): Promise<Uint8Array<ArrayBuffer>> {
+  const pack = tar.pack()
+  for (const [name, content] of Object.entries(files)) {
+    pack.entry({ name: `package/${name}` }, content)
+  }
+  pack.finalize()
+
+  const chunks: Buffer[] = []
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer)
+  }
+  return new Uint8Array(gzipSync(Buffer.concat(chunks)))
+}
+
+function createPackage(name: string): ResolvedPackage {
+  const tarball = `https://registry.example.com/${name}/-/${name}-1.0.0.tgz`
+  return {
+    id: `${name}@1.0.0`,
+    name,
+    version: '1.0.0',
+    resolution: { type: 'npm', tarball },
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    optionalDependencies: {},
+    manifest: { name, version: '1.0.0', dist: { tarball } },
+  }
+}
+
+describe('TarballFetcher', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('extracts files and the manifest from a tarball', async () => {
+    const tarball = await createTarball({
+      'package.json': JSON.stringify({ name: 'pkg', version: '1.0.0', scripts: { postinstall: 'node setup.js' } }),
+      'index.js': 'module.exports = 1',
+    })
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(tarball)))
+
+    const fetched = await new TarballFetcher().fetchPackage(createPackage('pkg'))
+
+    expect(fetched?.extractedFiles.files.map((file) => file.name)).toEqual(['package.json', 'index.js'])
+    expect(fetched?.extractedFiles.manifest).toMatchObject({ name: 'pkg' })
+    expect(fetched?.extractedFiles.hasInstallScript).toBe(true)
+  })
+
+  it('downloads a package once for concurrent fetches', async () => {
+    const tarball = await createTarball({ 'package.json': '{"name":"tslib","version":"1.0.0"}' })
+    const fetchMock = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      return new Response(tarball)
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    const fetcher = new TarballFetcher()
+
+    const results = await Promise.all([
+      fetcher.fetchPackage(createPackage('tslib')),
+      fetcher.fetchPackage(createPackage('tslib')),
+      fetcher.fetchPackage(createPackage('tslib')),
+    ])
+    await fetcher.fetchPackage(createPackage('tslib'))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(results[1]).toBe(results[0])
+    expect(results[2]).toBe(results[0])
+    expect(fetcher.getStats()).toEqual({ requests: 1, coalesced: 2, cacheHits: 1, inFlight: 0 })
+  })
+
+  it('retries failed downloads and sends the registry credentials', async () => {
+    const tarball = await createTarball({ 'package.json': '{"name":"flaky","version":"1.0.0"}' })
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 500, headers: { 'Retry-After': '0' } }))
+      .mockResolvedValueOnce(new Response(tarball))
+    vi.stubGlobal('fetch', fetchMock)
+    const registry = new NPMRegistry({ url: 'https://registry.example.com', token: 'secret' })
+
+    const fetched = await new TarballFetcher({ registry }).fetchPackage(createPackage('flaky'))
+
+    expect(fetched?.extractedFiles.manifest).toMatchObject({ name: 'flaky' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ Authorization: 'Bearer secret' })
+  })
+
+  it('throws a FetchError with the URL and status when the download fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404, statusText: 'Not Found' })))
+    const pkg = createPackage('missing')
+
+    await expect(new TarballFetcher().fetchPackage(pkg)).rejects.toSatisfy(
+      (error) =>
+        isFetchError(error) &&
+        error.request.url === pkg.resolution.tarball &&
+        error.response.status === 404
+    )
+  })
+})
+
+describe('fetchDependencyTree', () => {
+  function createNode(pkg: ResolvedPackage, children: Record<string, DependencyTreeNode> = {}): DependencyTreeNode {
+    return { package: pkg, children: new Map(Object.entries(children)), depth: 0, installable: true }
+  }
+
+  function failFetching(names: string[]) {
+    return vi.spyOn(TarballFetcher.prototype, 'fetchPackage').mockImplementation(async (pkg) => {
+      if (names.includes(pkg.name)) {
+        throw new FetchError({ url: pkg.resolution.tarball! }, { status: 404, statusText: 'Not Found' })
+      }
+      return { package: pkg, extractedFiles: { files: [] } } as unknown as FetchedPackage
+    })
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('skips optional dependencies that cannot be fetched', async () => {
+    const fsevents = createNode(createPackage('fsevents'), { 'node-gyp': createNode(createPackage('node-gyp')) })
+    const root = createNode({ ...createPackage('chokidar'), optionalDependencies: { fsevents: '^2.0.0' } }, { fsevents })
+    failFetching(['fsevents', 'node-gyp'])
+
+    const result = await fetchDependencyTree(root)
+
+    expect([...result!.allFetchedPackages.keys()]).toEqual(['chokidar@1.0.0'])
+    expect(fsevents.fetched).toBeUndefined()
+  })
+
+  it('fails when a required dependency cannot be fetched', async () => {
+    const root = createNode(createPackage('app'), { dep: createNode(createPackage('dep')) })
+    failFetching(['dep'])
+
+    await expect(fetchDependencyTree(root)).rejects.toSatisfy(isFetchError)
+  })
+
+  it('fails for optional packages that another package requires', async () => {
+    const shared = createNode(createPackage('shared'))
+    const required = createNode({ ...createPackage('required'), dependencies: { shared: '^1.0.0' } }, { shared })
+    // Reached through the optional edge first
+    const root = createNode({ ...createPackage('app'), optionalDependencies: { shared: '^1.0.0' } }, { shared, required })
+    failFetching(['shared'])
+
+    await expect(fetchDependencyTree(root)).rejects.toSatisfy(isFetchError)
+  })
+})
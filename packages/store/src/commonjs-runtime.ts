@@ -0,0 +1,307 @@
+/**
+ * CommonJS runtime over a FileSystemInterface
+ *
+ * `require()` is synchronous while the virtual filesystem is not, so modules
+ * are loaded in two steps: `preload` resolves and reads a module and every
+ * statically visible `require('...')` it reaches, then execution runs
+ * synchronously from what was loaded. Resolution follows resolveModule with
+ * the "require" condition.
+ */
+
+import { ModuleResolutionError, WebpmError } from '@webpm/error'
+import { FileSystemUtils, type FileSystemInterface } from './filesystem'
+import { resolveModule } from './resolve-module'
+// Kept out of the module source, the bundler would otherwise add a Node-only
+// shim defining the wrapper's path variables to the browser build
+import WRAPPER_PARAMETERS from './commonjs-wrapper-parameters.txt?raw'
+
+export interface CommonJSRuntimeOptions {
+  /** Filesystem installed packages are loaded from */
+  fs: FileSystemInterface
+  /** Modules returned for node built-ins, keyed without the "node:" prefix */
+  builtins?: Record<string, unknown>
+  /** Conditions for "exports" and "imports" (defaults to ['browser', 'require']) */
+  conditions?: string[]
+  /** Variables every module sees, `process` defaults to globalThis.process or a minimal shim */
+  globals?: Record<string, unknown>
+}
+
+export interface CommonJSModule {
+  id: string
+  filename: string
+  exports: unknown
+  loaded: boolean
+  children: CommonJSModule[]
+}
+
+export interface CommonJSRequire {
+  (specifier: string): unknown
+  resolve(specifier: string): string
+  cache: Map<string, CommonJSModule>
+}
+
+interface LoadedSource {
+  source: string
+  /** Resolved path of each require() found in the source, false for browser-ignored modules */
+  requires: Map<string, string | false | Error>
+}
+
+const DEFAULT_CONDITIONS = ['browser', 'require']
+
+const NODE_BUILTINS = new Set([
+  'assert', 'async_hooks', 'buffer', 'child_process', 'cluster', 'console', 'constants', 'crypto',
+  'dgram', 'diagnostics_channel', 'dns', 'domain', 'events', 'fs', 'fs/promises', 'http', 'http2',
+  'https', 'inspector', 'module', 'net', 'os', 'path', 'perf_hooks', 'process', 'punycode',
+  'querystring', 'readline', 'repl', 'stream', 'stream/promises', 'string_decoder', 'sys', 'timers',
+  'tls', 'tty', 'url', 'util', 'v8', 'vm', 'worker_threads', 'zlib',
+])
+
+// String literal require() calls, template literals only without substitutions
+const REQUIRE_PATTERN = /\brequire\s*\(\s*(?:'([^'\n]+)'|"([^"\n]+)"|`([^`$\n]+)`)\s*\)/g
+
+/**
+ * Find the specifiers of static require() calls in a source file
+ */
+export function findRequires(source: string): string[] {
+  const specifiers = new Set<string>()
+  for (const match of source.matchAll(REQUIRE_PATTERN)) {
+    specifiers.add(match[1] ?? match[2] ?? match[3])
+  }
+  return [...specifiers]
+}
+
+/**
+ * Runs CommonJS packages from a virtual filesystem
+ */
+export class CommonJSRuntime {
+  /** Executed modules by real path, shared with require.cache */
+  readonly cache = new Map<string, CommonJSModule>()
+
+  private sources = new Map<string, LoadedSource>()
+  private loading = new Map<string, Promise<LoadedSource>>()
+  private entryResolutions = new Map<string, string | false>()
+  private builtins: Map<string, unknown>
+  private conditions: string[]
+  private globals: Record<string, unknown>
+
+  constructor(private options: CommonJSRuntimeOptions) {
+    this.builtins = new Map(Object.entries(options.builtins ?? {}))
+    this.conditions = options.conditions ?? DEFAULT_CONDITIONS
+    this.globals = {
+      process: globalThis.process ?? { env: { NODE_ENV: 'production' }, browser: true, version: '', versions: {} },
+      ...options.globals,
+    }
+  }
+
+  /**
+   * Load a module and its static dependencies, then execute it
+   *
+   * Defined as a property, the bundler reads a `require(` method as a Node
+   * require and would add a Node-only shim to the browser build.
+   * @param specifier - Path or package specifier to require
+   * @param fromFile - File the specifier is resolved from (defaults to "/index.js")
+   * @returns The module's exports
+   */
+  readonly require = async (specifier: string, fromFile = '/index.js'): Promise<unknown> => {
+    await this.preload(specifier, fromFile)
+    return this.createRequire(fromFile)(specifier)
+  }
+
+  /**
+   * Resolve and read a module and everything it statically requires, so
+   * require() can run it synchronously
+   * @returns The resolved path, or false when the browser field ignores the module
+   */
+  async preload(specifier: string, fromFile = '/index.js'): Promise<string | false> {
+    const builtin = this.getBuiltinName(specifier)
+    if (builtin && this.builtins.has(builtin)) {
+      return false
+    }
+
+    const resolved = await this.resolve(specifier, fromFile)
+    this.entryResolutions.set(`${fromFile}\0${specifier}`, resolved)
+    if (resolved) {
+      await this.load(resolved)
+    }
+    return resolved
+  }
+
+  /**
+   * Create a synchronous require function for modules preloaded from a file
+   */
+  createRequire(fromFile: string): CommonJSRequire {
+    const parent = this.cache.get(fromFile)
+
+    const resolveSpecifier = (specifier: string): string | false => {
+      const resolved =
+        this.sources.get(fromFile)?.requires.get(specifier) ?? this.entryResolutions.get(`${fromFile}\0${specifier}`)
+
+      if (resolved === undefined) {
+        throw new WebpmError('MODULE_NOT_PRELOADED', `Cannot require "${specifier}" from ${fromFile}, it was not preloaded`, {
+          hint: 'Dynamic require() calls are not detected ahead of time, call runtime.preload() for the specifier first.',
+        })
+      }
+      if (resolved instanceof Error) {
+        throw resolved
+      }
+      return resolved
+    }
+
+    const requireModule = ((specifier: string) => {
+      const builtin = this.getBuiltinName(specifier)
+      if (builtin && this.builtins.has(builtin)) {
+        return this.builtins.get(builtin)
+      }
+
+      const resolved = resolveSpecifier(specifier)
+      if (resolved === false) {
+        // Ignored through the browser field
+        return {}
+      }
+
+      const module = this.execute(resolved)
+      if (parent && !parent.children.includes(module)) {
+        parent.children.push(module)
+      }
+      return module.exports
+    }) as CommonJSRequire
+
+    requireModule.resolve = (specifier: string) => {
+      const resolved = resolveSpecifier(specifier)
+      return resolved === false ? specifier : resolved
+    }
+    requireModule.cache = this.cache
+
+    return requireModule
+  }
+
+  private async resolve(specifier: string, fromFile: string): Promise<string | false> {
+    try {
+      return await resolveModule(this.options.fs, specifier, fromFile, { conditions: this.conditions })
+    } catch (error) {
+      const builtin = this.getBuiltinName(specifier)
+      if (builtin && error instanceof ModuleResolutionError) {
+        throw new WebpmError('MISSING_BUILTIN_SHIM', `No shim was provided for the node built-in module "${builtin}"`, {
+          hint: `Pass a "${builtin}" module in the builtins option of the runtime, or install a browser polyfill package.`,
+        })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Load a file and everything it statically requires, each file once
+   */
+  private async load(entry: string): Promise<void> {
+    const visited = new Set<string>()
+    let pending = [entry]
+
+    while (pending.length > 0) {
+      pending.forEach((filename) => visited.add(filename))
+      const loaded = await Promise.all(pending.map((filename) => this.loadSource(filename)))
+
+      pending = [
+        ...new Set(
+          loaded.flatMap(({ requires }) => [...requires.values()])
+            .filter((resolved): resolved is string => typeof resolved === 'string' && !visited.has(resolved))
+        ),
+      ]
+    }
+  }
+
+  /**
+   * Read a file and resolve its require() calls, without loading them
+   */
+  private async loadSource(filename: string): Promise<LoadedSource> {
+    if (!this.loading.has(filename)) {
+      const loading = this.readSource(filename)
+      // Retry failed reads on the next preload
+      loading.catch(() => this.loading.delete(filename))
+      this.loading.set(filename, loading)
+    }
+    return this.loading.get(filename)!
+  }
+
+  private async readSource(filename: string): Promise<LoadedSource> {
+    const source = (await this.options.fs.readFile(filename, { encoding: 'utf8' })) as string
+    const requires = new Map<string, string | false | Error>()
+
+    if (!filename.endsWith('.json')) {
+      await Promise.all(
+        findRequires(source).map(async (specifier) => {
+          const builtin = this.getBuiltinName(specifier)
+          if (builtin && this.builtins.has(builtin)) return
+
+          try {
+            requires.set(specifier, await this.resolve(specifier, filename))
+          } catch (error) {
+            // Matches in comments or unused branches only fail if they run
+            requires.set(specifier, error as Error)
+          }
+        })
+      )
+    }
+
+    const loaded = { source, requires }
+    this.sources.set(filename, loaded)
+    return loaded
+  }
+
+  /**
+   * Execute a preloaded module, circular requires get its partial exports
+   */
+  private execute(filename: string): CommonJSModule {
+    const cached = this.cache.get(filename)
+    if (cached) {
+      return cached
+    }
+
+    const loaded = this.sources.get(filename)
+    if (!loaded) {
+      throw new WebpmError('MODULE_NOT_PRELOADED', `Module ${filename} was not preloaded`)
+    }
+
+    const module: CommonJSModule = { id: filename, filename, exports: {}, loaded: false, children: [] }
+    this.cache.set(filename, module)
+
+    try {
+      if (filename.endsWith('.json')) {
+        module.exports = JSON.parse(loaded.source)
+      } else {
+        const globalNames = Object.keys(this.globals)
+        const wrapper = new Function(
+          WRAPPER_PARAMETERS, ...globalNames,
+          `${loaded.source}\n//# sourceURL=${filename}`
+        )
+        wrapper.call(
+          module.exports,
+          module.exports,
+          this.createRequire(filename),
+          module,
+          filename,
+          FileSystemUtils.getParentPath(filename),
+          ...globalNames.map((name) => this.globals[name])
+        )
+      }
+    } catch (error) {
+      // Let a later require retry instead of returning half-initialized exports
+      this.cache.delete(filename)
+      throw error
+    }
+
+    module.loaded = true
+    return module
+  }
+
+  private getBuiltinName(specifier: string): string | undefined {
+    const name = specifier.startsWith('node:') ? specifier.slice(5) : specifier
+    return specifier.startsWith('node:') || NODE_BUILTINS.has(name) || this.builtins.has(name) ? name : undefined
+  }
+}
+
+/**
+ * Create a CommonJS runtime for packages installed into a filesystem
+ */
+export function createCommonJSRuntime(options: CommonJSRuntimeOptions): CommonJSRuntime {
+  return new CommonJSRuntime(options)
+}
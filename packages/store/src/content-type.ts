@@ -0,0 +1,84 @@
+/**
+ * Content types of package files, used when storing and serving them
+ */
+
+/**
+ * Determine the content type of a package file from its extension
+ */
+export function getContentType(filePath: string): string {
+  const ext = filePath.split('.').pop()?.toLowerCase()
+
+  switch (ext) {
+    case 'js':
+    case 'mjs':
+    case 'cjs':
+    case 'jsx':
+      return 'application/javascript'
+    case 'ts':
+    case 'mts':
+    case 'cts':
+    case 'tsx':
+      return 'application/typescript'
+    case 'json':
+      return 'application/json'
+    case 'map':
+      // Source maps are JSON
+      return 'application/json'
+    case 'css':
+      return 'text/css'
+    case 'html':
+    case 'htm':
+      return 'text/html'
+    case 'md':
+      return 'text/markdown'
+    case 'txt':
+      return 'text/plain'
+    case 'yml':
+    case 'yaml':
+      return 'application/yaml'
+    case 'xml':
+      return 'application/xml'
+    case 'vue':
+      return 'text/x-vue'
+    case 'wasm':
+      return 'application/wasm'
+    case 'svg':
+      return 'image/svg+xml'
+    case 'png':
+      return 'image/png'
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg'
+    case 'gif':
+      return 'image/gif'
+    case 'webp':
+      return 'image/webp'
+    case 'avif':
+      return 'image/avif'
+    case 'ico':
+      return 'image/x-icon'
+    case 'woff':
+      return 'font/woff'
+    case 'woff2':
+      return 'font/woff2'
+    case 'ttf':
+      return 'font/ttf'
+    case 'otf':
+      return 'font/otf'
+    case 'eot':
+      return 'application/vnd.ms-fontobject'
+    default:
+      return 'text/plain'
+  }
+}
+
+/**
+ * Whether files of a content type are text, as opposed to binary data
+ */
+export function isTextContentType(contentType: string): boolean {
+  return (
+    contentType.startsWith('text/') ||
+    contentType === 'image/svg+xml' ||
+    /^application\/(javascript|typescript|json|yaml|xml)$/.test(contentType)
+  )
+}
@@ -0,0 +1,49 @@
+/**
+ * Web Worker that extracts tarballs for the extraction pool
+ *
+ * Receives a transferred tarball and sends it back, transferred, together
+ * with the extracted files.
+ */
+
+import { BadTarballError } from '@webpm/error'
+import { extractTarball } from './untar'
+import type { ExtractionRequest, ExtractionResponse } from './extraction-pool'
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ExtractionRequest>) => void) | null
+  postMessage(message: ExtractionResponse, transfer: Transferable[]): void
+}
+
+const scope = globalThis as unknown as WorkerScope
+
+scope.onmessage = async (event) => {
+  const { id, tarball, options } = event.data
+
+  try {
+    const result = await extractTarball(tarball, options)
+    const transfer = new Set<Transferable>([tarball])
+    for (const file of result.files) {
+      transfer.add(file.buffer.buffer as ArrayBuffer)
+    }
+    scope.postMessage({ type: 'result', id, tarball, result }, [...transfer])
+  } catch (error) {
+    const badTarball =
+      error instanceof BadTarballError
+        ? {
+            tarballUrl: error.tarballUrl,
+            reason: error.reason,
+            entry: error.entry,
+            detail: error.detail,
+            expectedSize: error.expectedSize,
+            receivedSize: error.receivedSize,
+          }
+        : undefined
+    scope.postMessage(
+      { type: 'error', id, tarball, message: error instanceof Error ? error.message : String(error), badTarball },
+      [tarball]
+    )
+  }
+}
+
+// Jobs are only sent once the worker has loaded
+scope.postMessage({ type: 'ready' }, [])
@@ -0,0 +1,115 @@
+/**
+ * Filters selecting which files of a tarball are extracted
+ *
+ * Filters are plain data so they can be sent to extraction workers. Entries
+ * that do not match are skipped while the tarball is parsed, their contents
+ * are never buffered. `package.json` is always extracted.
+ */
+
+import type { BaseManifest, TypesVersions } from '@webpm/types'
+
+export interface ExtractionGlobFilter {
+  /** Globs of package paths to extract, all files when empty */
+  include?: string[]
+  /** Globs of package paths to skip, even when they are included */
+  exclude?: string[]
+}
+
+/**
+ * Glob filter, or `types-only` for the files type-checking needs: type
+ * declarations and whatever `types`, `typings` and `typesVersions` point to
+ */
+export type ExtractionFilter = ExtractionGlobFilter | 'types-only'
+
+export const TYPES_ONLY_GLOBS = ['**/*.d.ts', '**/*.d.mts', '**/*.d.cts']
+
+type TypesManifest = Pick<BaseManifest, 'types' | 'typings' | 'typesVersions'>
+
+/**
+ * Create a matcher for package paths, `manifest` adds the type entry points
+ * it declares to the `types-only` preset
+ */
+export function createExtractionMatcher(
+  filter: ExtractionFilter,
+  manifest?: TypesManifest
+): (path: string) => boolean {
+  const { include = [], exclude = [] } =
+    filter === 'types-only' ? { include: [...TYPES_ONLY_GLOBS, ...getTypesGlobs(manifest)] } : filter
+
+  const included = include.map(globToRegExp)
+  const excluded = exclude.map(globToRegExp)
+
+  return (path) => {
+    if (path === 'package.json') return true
+    if (included.length > 0 && !included.some((pattern) => pattern.test(path))) return false
+    return !excluded.some((pattern) => pattern.test(path))
+  }
+}
+
+/**
+ * Key identifying a filter, equal filters extract the same files
+ */
+export function getExtractionFilterKey(filter: ExtractionFilter): string {
+  return typeof filter === 'string' ? filter : JSON.stringify([filter.include ?? [], filter.exclude ?? []])
+}
+
+/**
+ * Globs for the type entry points of a manifest, `*` in typesVersions
+ * targets matches nested paths
+ */
+function getTypesGlobs(manifest: TypesManifest | undefined): string[] {
+  if (!manifest) return []
+
+  const targets = [manifest.types, manifest.typings]
+  const typesVersions: TypesVersions = manifest.typesVersions ?? {}
+  for (const paths of Object.values(typesVersions)) {
+    for (const mapped of Object.values<string[]>(paths)) {
+      targets.push(...mapped)
+    }
+  }
+  return targets
+    .filter((target): target is string => typeof target === 'string')
+    .map((target) => target.replace(/\*+/g, '**'))
+}
+
+/**
+ * Convert a glob to a regular expression matching whole paths
+ *
+ * Supports `**` across directories, `*` and `?` within a segment and `{a,b}`
+ * alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  let braces = 0
+  const pattern = glob.replace(/^\.?\/+/, '')
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{') {
+      braces++
+      source += '(?:'
+    } else if (char === '}' && braces > 0) {
+      braces--
+      source += ')'
+    } else if (char === ',' && braces > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
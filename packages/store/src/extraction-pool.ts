@@ -0,0 +1,222 @@
+/**
+ * Pool of Web Workers that extract tarballs off the main thread
+ *
+ * Tarballs are transferred to a worker and back, so they are never copied.
+ * Where workers are not available, like in Node, tarballs are extracted on
+ * the calling thread with the same API.
+ */
+
+import { logger } from '@webpm/logger'
+import { BadTarballError, type BadTarballDetails } from '@webpm/error'
+import { extractTarball, type ExtractionResult, type ExtractTarballOptions } from './untar'
+
+export interface ExtractionRequest {
+  id: number
+  tarball: ArrayBuffer
+  options?: ExtractTarballOptions
+}
+
+export type ExtractionResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; tarball: ArrayBuffer; result: ExtractionResult }
+  | { type: 'error'; id: number; tarball: ArrayBuffer; message: string; badTarball?: BadTarballDetails }
+
+export interface TarballExtraction {
+  /** The extracted tarball, transferred back from the worker */
+  tarball: ArrayBuffer
+  result: ExtractionResult
+}
+
+export interface ExtractionPoolOptions {
+  /** Maximum number of workers */
+  size?: number
+  /** Create a worker running the extract-worker entry, `null` extracts on the calling thread */
+  createWorker?: (() => Worker) | null
+}
+
+interface ExtractionJob {
+  id: number
+  tarball: ArrayBuffer
+  options?: ExtractTarballOptions
+  resolve: (extraction: TarballExtraction) => void
+  reject: (error: Error) => void
+}
+
+interface PoolWorker {
+  worker: Worker
+  ready: boolean
+  job?: ExtractionJob
+}
+
+const DEFAULT_POOL_SIZE = 4
+
+/**
+ * Start a worker from the package's "./extract-worker" export, which bundlers
+ * resolve to the source entry in development and to the built one in dist.
+ * Without a bundler, pass `createWorker` with the worker's URL instead.
+ */
+function createExtractWorker(): Worker {
+  return new Worker(new URL('@webpm/store/extract-worker', import.meta.url), { type: 'module' })
+}
+
+export class ExtractionWorkerPool {
+  private size: number
+  private createWorker: (() => Worker) | null
+  private workers: PoolWorker[] = []
+  private queue: ExtractionJob[] = []
+  private nextId = 0
+
+  constructor(options: ExtractionPoolOptions = {}) {
+    this.size = Math.max(1, options.size ?? DEFAULT_POOL_SIZE)
+    this.createWorker =
+      options.createWorker !== undefined
+        ? options.createWorker
+        : typeof Worker !== 'undefined'
+          ? createExtractWorker
+          : null
+  }
+
+  /**
+   * Extract a tarball in a worker, the tarball is detached until the
+   * extraction returns it. Policy violations reject with a BadTarballError.
+   */
+  async extract(tarball: ArrayBuffer, options?: ExtractTarballOptions): Promise<TarballExtraction> {
+    if (!this.createWorker) {
+      return { tarball, result: await extractTarball(tarball, options) }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, tarball, options, resolve, reject })
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Change the maximum number of workers, idle workers above it are stopped
+   */
+  setSize(size: number): void {
+    this.size = Math.max(1, size)
+
+    for (const poolWorker of [...this.workers]) {
+      if (this.workers.length <= this.size) break
+      if (!poolWorker.job) {
+        this.removeWorker(poolWorker)
+      }
+    }
+    this.dispatch()
+  }
+
+  getSize(): number {
+    return this.size
+  }
+
+  /**
+   * Stop all workers, queued and running extractions are rejected
+   */
+  terminate(): void {
+    for (const poolWorker of [...this.workers]) {
+      poolWorker.job?.reject(new Error('Extraction pool was terminated'))
+      this.removeWorker(poolWorker)
+    }
+    for (const job of this.queue.splice(0)) {
+      job.reject(new Error('Extraction pool was terminated'))
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const idle = this.workers.find((poolWorker) => poolWorker.ready && !poolWorker.job)
+      if (idle) {
+        const job = this.queue.shift()!
+        idle.job = job
+        idle.worker.postMessage(
+          { id: job.id, tarball: job.tarball, options: job.options } satisfies ExtractionRequest,
+          [job.tarball]
+        )
+        continue
+      }
+
+      // Workers that are still loading take the next jobs once ready
+      const starting = this.workers.filter((poolWorker) => !poolWorker.ready).length
+      if (this.workers.length >= this.size || starting >= this.queue.length || !this.createWorker) {
+        return
+      }
+      this.spawn(this.createWorker)
+    }
+  }
+
+  private spawn(createWorker: () => Worker): void {
+    let worker: Worker
+    try {
+      worker = createWorker()
+    } catch (error) {
+      this.fallBackToInline(error instanceof Error ? error.message : String(error))
+      return
+    }
+    const poolWorker: PoolWorker = { worker, ready: false }
+    this.workers.push(poolWorker)
+
+    poolWorker.worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+      const message = event.data
+      if (message.type === 'ready') {
+        poolWorker.ready = true
+      } else if (poolWorker.job) {
+        const job = poolWorker.job
+        poolWorker.job = undefined
+        if (message.type === 'result') {
+          job.resolve({ tarball: message.tarball, result: message.result })
+        } else {
+          // Errors are cloned as plain messages, rebuild the policy violation
+          job.reject(message.badTarball ? new BadTarballError(message.badTarball) : new Error(message.message))
+        }
+      }
+
+      if (this.workers.length > this.size) {
+        this.removeWorker(poolWorker)
+      }
+      this.dispatch()
+    }
+
+    poolWorker.worker.onerror = (event) => {
+      event.preventDefault?.()
+      this.removeWorker(poolWorker)
+
+      if (poolWorker.job) {
+        poolWorker.job.reject(new Error(`Extraction worker failed: ${event.message}`))
+        this.dispatch()
+        return
+      }
+
+      // The worker script could not be loaded, extract on this thread instead
+      if (!poolWorker.ready) {
+        this.fallBackToInline(event.message)
+      }
+    }
+  }
+
+  /**
+   * Stop starting workers and extract queued and later tarballs on this thread
+   */
+  private fallBackToInline(reason: string): void {
+    logger.warn('Extraction worker failed to start, extracting tarballs on the main thread', reason)
+    this.createWorker = null
+    this.drainInline()
+  }
+
+  private drainInline(): void {
+    for (const job of this.queue.splice(0)) {
+      extractTarball(job.tarball, job.options).then(
+        (result) => job.resolve({ tarball: job.tarball, result }),
+        (error: Error) => job.reject(error)
+      )
+    }
+  }
+
+  private removeWorker(poolWorker: PoolWorker): void {
+    poolWorker.worker.terminate()
+    this.workers = this.workers.filter((other) => other !== poolWorker)
+  }
+}
+
+// Global extraction pool, sized by WebpmConfig.concurrency
+export const extractionPool = new ExtractionWorkerPool()
@@ -2,13 +2,16 @@
  * Filesystem abstraction layer for webpm
  * 
  * This module provides a unified interface for filesystem operations that can be
- * backed by different implementations (lightning-fs, memory, etc.) depending on
+ * backed by different implementations (lightning-fs, opfs, indexeddb, node-fs, memory, etc.) depending on
  * the environment and requirements.
  */
 
 export * from './types.js'
 export * from './lightning-fs-impl.js'
 export * from './memory-fs-impl.js'
+export * from './indexeddb-fs-impl.js'
+export * from './node-fs-impl.js'
+export * from './opfs-fs-impl.js'
 
 import { 
   FileSystemInterface, 
@@ -18,6 +21,9 @@ import {
 } from './types.js'
 import { LightningFileSystem, createLightningFileSystem, type LightningFSOptions } from './lightning-fs-impl.js'
 import { MemoryFileSystem, createMemoryFileSystem } from './memory-fs-impl.js'
+import { createIndexedDBFileSystem, type IndexedDBFSOptions } from './indexeddb-fs-impl.js'
+import { createNodeFileSystem, type NodeFSOptions } from './node-fs-impl.js'
+import { createOPFSFileSystem, isOPFSSupported, type OPFSOptions } from './opfs-fs-impl.js'
 
 /**
  * Filesystem factory that creates appropriate filesystem implementations
@@ -46,6 +52,18 @@ export class FileSystemFactory {
         fs = createLightningFileSystem(config.options as LightningFSOptions)
         break
 
+      case 'indexeddb':
+        fs = createIndexedDBFileSystem(config.options as IndexedDBFSOptions)
+        break
+
+      case 'opfs':
+        fs = createOPFSFileSystem(config.options as OPFSOptions)
+        break
+
+      case 'node-fs':
+        fs = createNodeFileSystem(config.options as NodeFSOptions)
+        break
+
       case 'memory':
         fs = createMemoryFileSystem()
         break
@@ -114,6 +132,14 @@ export class FileSystemFactory {
    * Detect the best filesystem implementation for the current environment
    */
   static detectBestImplementation(): FileSystemConfig {
+    // Prefer OPFS, which writes many small files much faster than IndexedDB
+    if (isOPFSSupported()) {
+      return {
+        type: 'opfs',
+        name: 'webpm-fs'
+      }
+    }
+
     // Check if we're in a browser environment
     if (typeof window !== 'undefined' && typeof indexedDB !== 'undefined') {
       return {
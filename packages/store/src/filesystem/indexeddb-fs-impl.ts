@@ -0,0 +1,585 @@
+/**
+ * IndexedDB filesystem implementation
+ *
+ * This module provides a persistent filesystem implementation that stores one
+ * record per file, directory or symlink in a plain IndexedDB object store,
+ * without depending on lightning-fs.
+ */
+
+import {
+  FileSystemInterface,
+  FileStats,
+  FileOperationOptions,
+  FileSystemError,
+  FileSystemErrorCodes
+} from './types.js'
+
+/**
+ * IndexedDB filesystem configuration options
+ */
+export interface IndexedDBFSOptions {
+  /** Database name (defaults to 'webpm-idb-fs') */
+  name?: string
+}
+
+/**
+ * Stored filesystem record, keyed by its normalized absolute path
+ */
+interface IndexedDBEntry {
+  path: string
+  parent: string
+  type: 'file' | 'directory' | 'symlink'
+  content?: Uint8Array
+  target?: string
+  mode: number
+  mtime: number
+  ctime: number
+  ino: string
+}
+
+// Same limit as Linux, after which a path is treated as a symlink loop
+const MAX_SYMLINK_DEPTH = 40
+
+const STORE_NAME = 'entries'
+
+/**
+ * IndexedDB filesystem stats implementation
+ */
+class IndexedDBFileStats implements FileStats {
+  constructor(private entry: IndexedDBEntry) {}
+
+  get type(): 'file' | 'directory' | 'symlink' {
+    return this.entry.type
+  }
+
+  get size(): number {
+    return this.entry.content?.length ?? 0
+  }
+
+  get mode(): number {
+    return this.entry.mode
+  }
+
+  get ino(): string {
+    return this.entry.ino
+  }
+
+  get mtimeMs(): number {
+    return this.entry.mtime
+  }
+
+  get ctimeMs(): number {
+    return this.entry.ctime
+  }
+
+  isFile(): boolean {
+    return this.entry.type === 'file'
+  }
+
+  isDirectory(): boolean {
+    return this.entry.type === 'directory'
+  }
+
+  isSymbolicLink(): boolean {
+    return this.entry.type === 'symlink'
+  }
+}
+
+/**
+ * IndexedDB-based filesystem implementation
+ *
+ * Directories are listed through an index on the parent path, and renames
+ * move a directory's descendants in the same transaction.
+ */
+export class IndexedDBFileSystem implements FileSystemInterface {
+  private db: IDBDatabase | null = null
+  private dbName: string
+
+  constructor(options: IndexedDBFSOptions = {}) {
+    this.dbName = options.name || 'webpm-idb-fs'
+  }
+
+  /**
+   * Open the database and create the root directory
+   */
+  async init(name?: string, _options?: IndexedDBFSOptions): Promise<void> {
+    if (this.db) {
+      return
+    }
+
+    if (name) {
+      this.dbName = name
+    }
+
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'path' })
+        store.createIndex('parent', 'parent', { unique: false })
+      }
+    })
+
+    if (!(await this.getRecord('/'))) {
+      await this.putRecords([this.createRecord('/', 'directory', 0o755)])
+    }
+  }
+
+  /**
+   * Read a file's contents
+   */
+  async readFile(filepath: string, options: FileOperationOptions = {}): Promise<Uint8Array | string> {
+    const entry = (await this.resolveEntry(filepath, true))?.entry
+
+    if (!entry) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'open', filepath)
+    }
+
+    if (entry.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'read', filepath)
+    }
+
+    const content = entry.content ?? new Uint8Array(0)
+    if (options.encoding === 'utf8') {
+      return new TextDecoder('utf-8').decode(content)
+    }
+
+    return content
+  }
+
+  /**
+   * Write data to a file
+   */
+  async writeFile(filepath: string, data: string | Uint8Array, options: FileOperationOptions = {}): Promise<void> {
+    const path = await this.resolveParent(filepath, 'open')
+    const existing = await this.getRecord(path)
+
+    if (existing?.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'open', filepath)
+    }
+
+    const record = this.createRecord(path, 'file', options.mode || 0o666)
+    // Copy so later changes to the caller's buffer don't leak into the stored file
+    record.content = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data)
+    if (existing) {
+      record.ctime = existing.ctime
+      record.ino = existing.ino
+    }
+
+    await this.putRecords([record])
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const resolved = await this.resolveEntry(filepath, false)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'unlink', filepath)
+    }
+
+    if (resolved.entry.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'unlink', filepath)
+    }
+
+    await this.deleteRecords([resolved.realPath])
+  }
+
+  /**
+   * Read directory contents
+   */
+  async readdir(filepath: string, _options: FileOperationOptions = {}): Promise<string[]> {
+    const resolved = await this.resolveEntry(filepath, true)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'scandir', filepath)
+    }
+
+    if (resolved.entry.type !== 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'scandir', filepath)
+    }
+
+    const children = await this.getChildren(resolved.realPath)
+    return children.map(child => this.getBasename(child.path))
+  }
+
+  /**
+   * Create a directory
+   */
+  async mkdir(filepath: string, options: FileOperationOptions = {}): Promise<void> {
+    const path = await this.resolveParent(filepath, 'mkdir')
+
+    if (await this.getRecord(path)) {
+      throw this.createError(FileSystemErrorCodes.EEXIST, -17, 'file already exists', 'mkdir', filepath)
+    }
+
+    await this.putRecords([this.createRecord(path, 'directory', options.mode || 0o755)])
+  }
+
+  /**
+   * Remove a directory
+   */
+  async rmdir(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const resolved = await this.resolveEntry(filepath, false)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'rmdir', filepath)
+    }
+
+    if (resolved.entry.type !== 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'rmdir', filepath)
+    }
+
+    if ((await this.getChildren(resolved.realPath)).length > 0) {
+      throw this.createError(FileSystemErrorCodes.ENOTEMPTY, -39, 'directory not empty', 'rmdir', filepath)
+    }
+
+    await this.deleteRecords([resolved.realPath])
+  }
+
+  /**
+   * Get file/directory statistics
+   */
+  async stat(filepath: string, _options: FileOperationOptions = {}): Promise<FileStats> {
+    const resolved = await this.resolveEntry(filepath, true)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'stat', filepath)
+    }
+
+    return new IndexedDBFileStats(resolved.entry)
+  }
+
+  /**
+   * Get file/directory statistics (don't follow symlinks)
+   */
+  async lstat(filepath: string, _options: FileOperationOptions = {}): Promise<FileStats> {
+    const resolved = await this.resolveEntry(filepath, false)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'lstat', filepath)
+    }
+
+    return new IndexedDBFileStats(resolved.entry)
+  }
+
+  /**
+   * Rename/move a file or directory, including everything below it
+   */
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const resolved = await this.resolveEntry(oldPath, false)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'rename', oldPath)
+    }
+
+    const from = resolved.realPath
+    const to = await this.resolveParent(newPath, 'rename')
+    if (to === from) {
+      return
+    }
+    if (to.startsWith(`${from}/`)) {
+      throw this.createError(FileSystemErrorCodes.EINVAL, -22, 'invalid argument', 'rename', oldPath)
+    }
+
+    // Like rename(2), files replace files and directories replace empty directories
+    const existing = await this.getRecord(to)
+    if (existing?.type === 'directory') {
+      if (resolved.entry.type !== 'directory') {
+        throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'rename', newPath)
+      }
+      if ((await this.getChildren(to)).length > 0) {
+        throw this.createError(FileSystemErrorCodes.ENOTEMPTY, -39, 'directory not empty', 'rename', newPath)
+      }
+    } else if (existing && resolved.entry.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'rename', newPath)
+    }
+
+    const descendants = resolved.entry.type === 'directory' ? await this.getDescendants(from) : []
+    const moved = [resolved.entry, ...descendants].map(entry => {
+      const path = to + entry.path.slice(from.length)
+      return { ...entry, path, parent: this.getParentPath(path), mtime: Date.now() }
+    })
+
+    await this.transaction(store => {
+      for (const entry of [resolved.entry, ...descendants]) {
+        store.delete(entry.path)
+      }
+      for (const entry of moved) {
+        store.put(entry)
+      }
+    })
+  }
+
+  /**
+   * Create a symbolic link
+   */
+  async symlink(target: string, filepath: string): Promise<void> {
+    const path = await this.resolveParent(filepath, 'symlink')
+
+    if (await this.getRecord(path)) {
+      throw this.createError(FileSystemErrorCodes.EEXIST, -17, 'file already exists', 'symlink', filepath)
+    }
+
+    const record = this.createRecord(path, 'symlink', 0o777)
+    record.target = target
+    await this.putRecords([record])
+  }
+
+  /**
+   * Read a symbolic link
+   */
+  async readlink(filepath: string, _options: FileOperationOptions = {}): Promise<string> {
+    const entry = (await this.resolveEntry(filepath, false))?.entry
+
+    if (!entry) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'readlink', filepath)
+    }
+
+    if (entry.type !== 'symlink') {
+      throw this.createError('EINVAL', -22, 'invalid argument', 'readlink', filepath)
+    }
+
+    return entry.target!
+  }
+
+  /**
+   * Resolve the real path of a file or directory by following all symlinks
+   */
+  async realpath(filepath: string, _options: FileOperationOptions = {}): Promise<string> {
+    const resolved = await this.resolveEntry(filepath, true)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'realpath', filepath)
+    }
+
+    return resolved.realPath
+  }
+
+  /**
+   * Get disk usage for a path
+   */
+  async du(filepath: string): Promise<number> {
+    const resolved = await this.resolveEntry(filepath, true)
+
+    if (!resolved) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', 'du', filepath)
+    }
+
+    const entries = resolved.entry.type === 'directory' ? await this.getDescendants(resolved.realPath) : [resolved.entry]
+    return entries.reduce((total, entry) => total + (entry.content?.length ?? 0), 0)
+  }
+
+  /**
+   * Close the database connection, the stored files are kept
+   */
+  async destroy(): Promise<void> {
+    this.db?.close()
+    this.db = null
+  }
+
+  /**
+   * Walk a path from the root, resolving each symlink relative to the real
+   * directory it was found in
+   */
+  private async resolveEntry(
+    filepath: string,
+    followSymlinks: boolean,
+    depth = 0
+  ): Promise<{ entry: IndexedDBEntry; realPath: string } | null> {
+    if (depth > MAX_SYMLINK_DEPTH) {
+      return null
+    }
+
+    const parts = this.normalizePath(filepath).split('/').filter(part => part !== '')
+    let current = await this.getRecord('/')
+    let realPath = '/'
+
+    for (let i = 0; i < parts.length; i++) {
+      if (!current || current.type !== 'directory') {
+        return null
+      }
+
+      const nextPath = this.joinPath([realPath, parts[i]])
+      const next = await this.getRecord(nextPath)
+      if (!next) {
+        return null
+      }
+
+      if (next.type === 'symlink' && (followSymlinks || i < parts.length - 1)) {
+        const resolved = await this.resolveEntry(this.resolveSymlink(nextPath, next.target!), true, depth + 1)
+        if (!resolved) {
+          return null
+        }
+        current = resolved.entry
+        realPath = resolved.realPath
+      } else {
+        current = next
+        realPath = nextPath
+      }
+    }
+
+    return current ? { entry: current, realPath } : null
+  }
+
+  /**
+   * Get the real path an entry would be created at, after checking its parent is a directory
+   */
+  private async resolveParent(filepath: string, syscall: string): Promise<string> {
+    const normalizedPath = this.normalizePath(filepath)
+    const parent = await this.resolveEntry(this.getParentPath(normalizedPath), true)
+
+    if (!parent) {
+      throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', syscall, filepath)
+    }
+
+    if (parent.entry.type !== 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', syscall, filepath)
+    }
+
+    return this.joinPath([parent.realPath, this.getBasename(normalizedPath)])
+  }
+
+  /**
+   * Resolve a symlink target relative to the symlink's directory
+   */
+  private resolveSymlink(symlinkPath: string, target: string): string {
+    if (target.startsWith('/')) {
+      return target // Absolute path
+    }
+
+    return this.joinPath([this.getParentPath(symlinkPath), target])
+  }
+
+  private createRecord(path: string, type: IndexedDBEntry['type'], mode: number): IndexedDBEntry {
+    const now = Date.now()
+    return {
+      path,
+      parent: path === '/' ? '' : this.getParentPath(path),
+      type,
+      mode,
+      mtime: now,
+      ctime: now,
+      ino: crypto.randomUUID(),
+    }
+  }
+
+  private async getRecord(path: string): Promise<IndexedDBEntry | undefined> {
+    return this.request('readonly', store => store.get(path) as IDBRequest<IndexedDBEntry | undefined>)
+  }
+
+  private async getChildren(path: string): Promise<IndexedDBEntry[]> {
+    return this.request('readonly', store => store.index('parent').getAll(path) as IDBRequest<IndexedDBEntry[]>)
+  }
+
+  private async getDescendants(path: string): Promise<IndexedDBEntry[]> {
+    const prefix = path === '/' ? '/' : `${path}/`
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+    return this.request('readonly', store => store.getAll(range) as IDBRequest<IndexedDBEntry[]>)
+  }
+
+  private async putRecords(records: IndexedDBEntry[]): Promise<void> {
+    await this.transaction(store => records.forEach(record => store.put(record)))
+  }
+
+  private async deleteRecords(paths: string[]): Promise<void> {
+    await this.transaction(store => paths.forEach(path => store.delete(path)))
+  }
+
+  private async request<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const request = createRequest(db.transaction([STORE_NAME], mode).objectStore(STORE_NAME))
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+    })
+  }
+
+  private async transaction(write: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME], 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+      write(transaction.objectStore(STORE_NAME))
+    })
+  }
+
+  private async getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      await this.init()
+    }
+    return this.db!
+  }
+
+  private createError(code: string, errno: number, description: string, syscall: string, path: string): FileSystemError {
+    return new FileSystemError(`${code}: ${description}, ${syscall} '${path}'`, code, errno, path, syscall)
+  }
+
+  /**
+   * Normalize a file path
+   */
+  private normalizePath(filepath: string): string {
+    if (!filepath.startsWith('/')) {
+      filepath = '/' + filepath
+    }
+
+    // Remove duplicate slashes and resolve . and ..
+    const parts = filepath.split('/').filter(part => part !== '' && part !== '.')
+    const resolved: string[] = []
+
+    for (const part of parts) {
+      if (part === '..') {
+        if (resolved.length > 0) {
+          resolved.pop()
+        }
+      } else {
+        resolved.push(part)
+      }
+    }
+
+    return '/' + resolved.join('/')
+  }
+
+  /**
+   * Get the parent directory path
+   */
+  private getParentPath(filepath: string): string {
+    const normalized = this.normalizePath(filepath)
+    if (normalized === '/') {
+      return '/'
+    }
+
+    const lastSlash = normalized.lastIndexOf('/')
+    return lastSlash === 0 ? '/' : normalized.substring(0, lastSlash)
+  }
+
+  /**
+   * Get the basename of a path
+   */
+  private getBasename(filepath: string): string {
+    const normalized = this.normalizePath(filepath)
+    const lastSlash = normalized.lastIndexOf('/')
+    return normalized.substring(lastSlash + 1)
+  }
+
+  /**
+   * Join path parts
+   */
+  private joinPath(parts: string[]): string {
+    return this.normalizePath(parts.join('/'))
+  }
+}
+
+/**
+ * Factory function to create a new IndexedDB filesystem instance
+ */
+export function createIndexedDBFileSystem(options: IndexedDBFSOptions = {}): IndexedDBFileSystem {
+  return new IndexedDBFileSystem(options)
+}
@@ -48,6 +48,9 @@ interface MemorySymlinkEntry {
 
 type MemoryEntry = MemoryFileEntry | MemoryDirectoryEntry | MemorySymlinkEntry
 
+// Same limit as Linux, after which a path is treated as a symlink loop
+const MAX_SYMLINK_DEPTH = 40
+
 /**
  * Memory filesystem stats implementation
  */
@@ -364,14 +367,13 @@ export class MemoryFileSystem implements FileSystemInterface {
     if (!oldEntry) {
       throw new FileSystemError(`ENOENT: no such file or directory, rename '${oldPath}' -> '${newPath}'`, FileSystemErrorCodes.ENOENT, -2, oldPath, 'rename')
     }
+    if (newNormalizedPath === oldNormalizedPath) {
+      return
+    }
+    if (newNormalizedPath.startsWith(`${oldNormalizedPath}/`)) {
+      throw new FileSystemError(`EINVAL: invalid argument, rename '${oldPath}' -> '${newPath}'`, FileSystemErrorCodes.EINVAL, -22, oldPath, 'rename')
+    }
 
-    // Remove from old location
-    const oldParentPath = this.getParentPath(oldNormalizedPath)
-    const oldFilename = this.getBasename(oldNormalizedPath)
-    const oldParent = this.getEntry(oldParentPath) as MemoryDirectoryEntry
-    oldParent.children.delete(oldFilename)
-
-    // Add to new location
     const newParentPath = this.getParentPath(newNormalizedPath)
     const newFilename = this.getBasename(newNormalizedPath)
     const newParent = this.getEntry(newParentPath)
@@ -380,6 +382,24 @@ export class MemoryFileSystem implements FileSystemInterface {
       throw new FileSystemError(`ENOENT: no such file or directory, rename '${oldPath}' -> '${newPath}'`, FileSystemErrorCodes.ENOENT, -2, newPath, 'rename')
     }
 
+    // Like rename(2), files replace files and directories replace empty directories
+    const existing = newParent.children.get(newFilename)
+    if (existing?.type === 'directory') {
+      if (oldEntry.type !== 'directory') {
+        throw new FileSystemError(`EISDIR: illegal operation on a directory, rename '${oldPath}' -> '${newPath}'`, FileSystemErrorCodes.EISDIR, -21, newPath, 'rename')
+      }
+      if (existing.children.size > 0) {
+        throw new FileSystemError(`ENOTEMPTY: directory not empty, rename '${oldPath}' -> '${newPath}'`, FileSystemErrorCodes.ENOTEMPTY, -39, newPath, 'rename')
+      }
+    } else if (existing && oldEntry.type === 'directory') {
+      throw new FileSystemError(`ENOTDIR: not a directory, rename '${oldPath}' -> '${newPath}'`, FileSystemErrorCodes.ENOTDIR, -20, newPath, 'rename')
+    }
+
+    // Move from the old location
+    const oldParentPath = this.getParentPath(oldNormalizedPath)
+    const oldFilename = this.getBasename(oldNormalizedPath)
+    const oldParent = this.getEntry(oldParentPath) as MemoryDirectoryEntry
+    oldParent.children.delete(oldFilename)
     newParent.children.set(newFilename, oldEntry)
     
     // Update inode mapping
@@ -444,6 +464,19 @@ export class MemoryFileSystem implements FileSystemInterface {
     return entry.target
   }
 
+  /**
+   * Resolve the real path of a file or directory by following all symlinks
+   */
+  async realpath(filepath: string, _options: FileOperationOptions = {}): Promise<string> {
+    const resolved = this.resolveEntry(filepath, true)
+
+    if (!resolved) {
+      throw new FileSystemError(`ENOENT: no such file or directory, realpath '${filepath}'`, FileSystemErrorCodes.ENOENT, -2, filepath, 'realpath')
+    }
+
+    return resolved.realPath
+  }
+
   /**
    * Get disk usage for a path
    */
@@ -470,39 +503,54 @@ export class MemoryFileSystem implements FileSystemInterface {
    * Get an entry from the filesystem
    */
   private getEntry(filepath: string, followSymlinks = true): MemoryEntry | null {
-    const normalizedPath = this.normalizePath(filepath)
-    
-    if (normalizedPath === '/') {
-      return this.root
+    return this.resolveEntry(filepath, followSymlinks)?.entry ?? null
+  }
+
+  /**
+   * Walk a path from the root, resolving each symlink relative to the real
+   * directory it was found in. Symlinks in the last segment are only
+   * followed when followSymlinks is set.
+   */
+  private resolveEntry(
+    filepath: string,
+    followSymlinks: boolean,
+    depth = 0
+  ): { entry: MemoryEntry; realPath: string } | null {
+    if (depth > MAX_SYMLINK_DEPTH) {
+      return null
     }
 
-    const parts = normalizedPath.split('/').filter(part => part !== '')
+    const parts = this.normalizePath(filepath).split('/').filter(part => part !== '')
     let current: MemoryEntry = this.root
+    let realPath = '/'
 
-    for (const part of parts) {
+    for (let i = 0; i < parts.length; i++) {
       if (current.type !== 'directory') {
         return null
       }
 
-      const next = current.children.get(part)
+      const next = current.children.get(parts[i])
       if (!next) {
         return null
       }
 
-      if (next.type === 'symlink' && followSymlinks) {
-        // Follow symlink
-        const target = this.resolveSymlink(this.joinPath(parts.slice(0, parts.indexOf(part) + 1)), next.target)
-        const targetEntry = this.getEntry(target, followSymlinks)
-        if (!targetEntry) {
+      const nextPath = this.joinPath([realPath, parts[i]])
+      const isLast = i === parts.length - 1
+
+      if (next.type === 'symlink' && (followSymlinks || !isLast)) {
+        const resolved = this.resolveEntry(this.resolveSymlink(nextPath, next.target), true, depth + 1)
+        if (!resolved) {
           return null
         }
-        current = targetEntry
+        current = resolved.entry
+        realPath = resolved.realPath
       } else {
         current = next
+        realPath = nextPath
       }
     }
 
-    return current
+    return { entry: current, realPath }
   }
 
   /**
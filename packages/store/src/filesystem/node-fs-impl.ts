@@ -0,0 +1,381 @@
+/**
+ * Node.js filesystem implementation
+ *
+ * This module adapts `node:fs/promises` to the FileSystemInterface, so the same
+ * install pipeline can write a real node_modules directory when webpm runs
+ * under Node (tests, scripts). Virtual paths are mapped below a root directory.
+ */
+
+import type * as NodeFS from 'node:fs/promises'
+import type { Stats } from 'node:fs'
+import {
+  FileSystemInterface,
+  FileStats,
+  FileOperationOptions,
+  FileSystemError
+} from './types.js'
+
+// Loaded through a variable so browser bundlers do not try to resolve it
+const NODE_FS_MODULE = 'node:fs/promises'
+
+/**
+ * Node filesystem configuration options
+ */
+export interface NodeFSOptions {
+  /** Directory that the virtual root '/' maps to (defaults to the current working directory) */
+  root?: string
+}
+
+/**
+ * Adapter class that wraps Node's fs.Stats to match our FileStats interface
+ */
+class NodeFileStats implements FileStats {
+  constructor(private stats: Stats) {}
+
+  get type(): 'file' | 'directory' | 'symlink' {
+    if (this.stats.isSymbolicLink()) return 'symlink'
+    return this.stats.isDirectory() ? 'directory' : 'file'
+  }
+
+  get size(): number {
+    return this.stats.size
+  }
+
+  get mode(): number {
+    return this.stats.mode
+  }
+
+  get ino(): number {
+    return this.stats.ino
+  }
+
+  get mtimeMs(): number {
+    return this.stats.mtimeMs
+  }
+
+  get ctimeMs(): number {
+    return this.stats.ctimeMs
+  }
+
+  get uid(): number {
+    return this.stats.uid
+  }
+
+  get gid(): number {
+    return this.stats.gid
+  }
+
+  get dev(): number {
+    return this.stats.dev
+  }
+
+  isFile(): boolean {
+    return this.stats.isFile()
+  }
+
+  isDirectory(): boolean {
+    return this.stats.isDirectory()
+  }
+
+  isSymbolicLink(): boolean {
+    return this.stats.isSymbolicLink()
+  }
+}
+
+/**
+ * Node.js filesystem implementation
+ *
+ * `node:fs/promises` is loaded on init, so importing this module is safe in
+ * browsers as long as the implementation is not used there.
+ */
+export class NodeFileSystem implements FileSystemInterface {
+  private fs: typeof NodeFS | null = null
+  private root: string
+  private realRoot = ''
+
+  constructor(options: NodeFSOptions = {}) {
+    this.root = options.root ?? ''
+  }
+
+  /**
+   * Load node:fs/promises and create the root directory
+   */
+  async init(_name?: string, options?: NodeFSOptions): Promise<void> {
+    if (options?.root) {
+      this.root = options.root
+    }
+
+    if (this.fs) {
+      return
+    }
+
+    const fs: typeof NodeFS = await import(/* @vite-ignore */ NODE_FS_MODULE)
+    // Relative roots resolve against the working directory in runtimes without `process`
+    this.root = (this.root || globalThis.process?.cwd?.() || '.').replace(/[\\/]+$/, '')
+    await fs.mkdir(this.root, { recursive: true })
+    // Compare symlink targets and real paths against the resolved root (e.g. /tmp on macOS)
+    this.realRoot = await fs.realpath(this.root)
+    this.fs = fs
+  }
+
+  /**
+   * Read a file's contents
+   */
+  async readFile(filepath: string, options: FileOperationOptions = {}): Promise<Uint8Array | string> {
+    const fs = await this.getFs()
+
+    try {
+      if (options.encoding === 'utf8') {
+        return await fs.readFile(this.toNativePath(filepath), { encoding: 'utf8' })
+      }
+      return new Uint8Array(await fs.readFile(this.toNativePath(filepath)))
+    } catch (error) {
+      throw this.wrapError(error, 'open', filepath)
+    }
+  }
+
+  /**
+   * Write data to a file
+   */
+  async writeFile(filepath: string, data: string | Uint8Array, options: FileOperationOptions = {}): Promise<void> {
+    const fs = await this.getFs()
+
+    try {
+      await fs.writeFile(this.toNativePath(filepath), data, { mode: options.mode })
+    } catch (error) {
+      throw this.wrapError(error, 'open', filepath)
+    }
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const fs = await this.getFs()
+
+    try {
+      await fs.unlink(this.toNativePath(filepath))
+    } catch (error) {
+      throw this.wrapError(error, 'unlink', filepath)
+    }
+  }
+
+  /**
+   * Read directory contents
+   */
+  async readdir(filepath: string, _options: FileOperationOptions = {}): Promise<string[]> {
+    const fs = await this.getFs()
+
+    try {
+      return await fs.readdir(this.toNativePath(filepath))
+    } catch (error) {
+      throw this.wrapError(error, 'scandir', filepath)
+    }
+  }
+
+  /**
+   * Create a directory
+   */
+  async mkdir(filepath: string, options: FileOperationOptions = {}): Promise<void> {
+    const fs = await this.getFs()
+
+    try {
+      await fs.mkdir(this.toNativePath(filepath), { mode: options.mode })
+    } catch (error) {
+      throw this.wrapError(error, 'mkdir', filepath)
+    }
+  }
+
+  /**
+   * Remove a directory
+   */
+  async rmdir(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const fs = await this.getFs()
+
+    try {
+      await fs.rmdir(this.toNativePath(filepath))
+    } catch (error) {
+      throw this.wrapError(error, 'rmdir', filepath)
+    }
+  }
+
+  /**
+   * Get file/directory statistics
+   */
+  async stat(filepath: string, _options: FileOperationOptions = {}): Promise<FileStats> {
+    const fs = await this.getFs()
+
+    try {
+      return new NodeFileStats(await fs.stat(this.toNativePath(filepath)))
+    } catch (error) {
+      throw this.wrapError(error, 'stat', filepath)
+    }
+  }
+
+  /**
+   * Get file/directory statistics (don't follow symlinks)
+   */
+  async lstat(filepath: string, _options: FileOperationOptions = {}): Promise<FileStats> {
+    const fs = await this.getFs()
+
+    try {
+      return new NodeFileStats(await fs.lstat(this.toNativePath(filepath)))
+    } catch (error) {
+      throw this.wrapError(error, 'lstat', filepath)
+    }
+  }
+
+  /**
+   * Rename/move a file or directory
+   */
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const fs = await this.getFs()
+
+    try {
+      await fs.rename(this.toNativePath(oldPath), this.toNativePath(newPath))
+    } catch (error) {
+      throw this.wrapError(error, 'rename', oldPath)
+    }
+  }
+
+  /**
+   * Create a symbolic link, absolute targets are mapped below the root
+   */
+  async symlink(target: string, filepath: string): Promise<void> {
+    const fs = await this.getFs()
+    const nativeTarget = target.startsWith('/') ? this.toNativePath(target) : target
+
+    try {
+      await fs.symlink(nativeTarget, this.toNativePath(filepath))
+    } catch (error) {
+      throw this.wrapError(error, 'symlink', filepath)
+    }
+  }
+
+  /**
+   * Read a symbolic link
+   */
+  async readlink(filepath: string, _options: FileOperationOptions = {}): Promise<string> {
+    const fs = await this.getFs()
+
+    try {
+      const target = await fs.readlink(this.toNativePath(filepath))
+      return this.toVirtualPath(target) ?? target
+    } catch (error) {
+      throw this.wrapError(error, 'readlink', filepath)
+    }
+  }
+
+  /**
+   * Resolve the real path of a file or directory by following all symlinks
+   */
+  async realpath(filepath: string, _options: FileOperationOptions = {}): Promise<string> {
+    const fs = await this.getFs()
+
+    try {
+      const realPath = await fs.realpath(this.toNativePath(filepath))
+      const virtualPath = this.toVirtualPath(realPath)
+      if (virtualPath == null) {
+        throw new FileSystemError(`EACCES: path resolves outside of the root, realpath '${filepath}'`, 'EACCES', -13, filepath, 'realpath')
+      }
+      return virtualPath
+    } catch (error) {
+      throw this.wrapError(error, 'realpath', filepath)
+    }
+  }
+
+  /**
+   * Get disk usage for a path
+   */
+  async du(filepath: string): Promise<number> {
+    const stats = await this.lstat(filepath)
+
+    if (!stats.isDirectory()) {
+      return stats.isFile() ? stats.size : 0
+    }
+
+    let total = 0
+    for (const entry of await this.readdir(filepath)) {
+      total += await this.du(`${filepath.replace(/\/+$/, '')}/${entry}`)
+    }
+    return total
+  }
+
+  /**
+   * Clean up resources (no-op, files on disk are kept)
+   */
+  async destroy(): Promise<void> {
+    // Nothing to release
+  }
+
+  private async getFs(): Promise<typeof NodeFS> {
+    if (!this.fs) {
+      await this.init()
+    }
+    return this.fs!
+  }
+
+  /**
+   * Map a virtual path to a path below the root directory
+   */
+  private toNativePath(filepath: string): string {
+    return `${this.root}${this.normalizePath(filepath)}`.replace(/\/$/, '') || '/'
+  }
+
+  /**
+   * Map an absolute native path back to a virtual path, or null when it is outside the root
+   */
+  private toVirtualPath(nativePath: string): string | null {
+    for (const root of [this.realRoot, this.root]) {
+      if (nativePath === root) return '/'
+      if (nativePath.startsWith(`${root}/`)) return nativePath.slice(root.length)
+    }
+    return null
+  }
+
+  /**
+   * Wrap Node errors in our standardized error format, with virtual paths
+   */
+  private wrapError(error: unknown, syscall: string, path: string): FileSystemError {
+    if (error instanceof FileSystemError) {
+      return error
+    }
+
+    const nodeError = error as NodeJS.ErrnoException
+    const code = nodeError.code || 'UNKNOWN'
+    const description = nodeError.message?.replace(/^[A-Z]+: /, '').replace(/,.*$/, '') || 'unknown filesystem error'
+    return new FileSystemError(`${code}: ${description}, ${syscall} '${path}'`, code, nodeError.errno, path, syscall)
+  }
+
+  /**
+   * Normalize a file path
+   */
+  private normalizePath(filepath: string): string {
+    if (!filepath.startsWith('/')) {
+      filepath = '/' + filepath
+    }
+
+    // Remove duplicate slashes and resolve . and .. so paths can't escape the root
+    const parts = filepath.split('/').filter(part => part !== '' && part !== '.')
+    const resolved: string[] = []
+
+    for (const part of parts) {
+      if (part === '..') {
+        if (resolved.length > 0) {
+          resolved.pop()
+        }
+      } else {
+        resolved.push(part)
+      }
+    }
+
+    return '/' + resolved.join('/')
+  }
+}
+
+/**
+ * Factory function to create a new Node.js filesystem instance
+ */
+export function createNodeFileSystem(options: NodeFSOptions = {}): NodeFileSystem {
+  return new NodeFileSystem(options)
+}
@@ -0,0 +1,561 @@
+/**
+ * Origin Private File System implementation
+ *
+ * This module stores files in the browser's Origin Private File System
+ * (`navigator.storage.getDirectory()`), which writes many small files much
+ * faster than IndexedDB. In dedicated workers, file contents are read and
+ * written through synchronous access handles.
+ */
+
+import {
+  FileSystemInterface,
+  FileStats,
+  FileOperationOptions,
+  FileSystemError,
+  FileSystemErrorCodes
+} from './types.js'
+
+/**
+ * Synchronous access handle, only available in dedicated workers
+ */
+export interface OPFSSyncAccessHandle {
+  read(buffer: Uint8Array, options?: { at?: number }): number
+  write(buffer: Uint8Array, options?: { at?: number }): number
+  truncate(size: number): void
+  getSize(): number
+  flush(): void
+  close(): void
+}
+
+/**
+ * Subset of FileSystemFileHandle used by the OPFS implementation
+ */
+export interface OPFSFileHandle {
+  readonly kind: 'file'
+  readonly name: string
+  getFile(): Promise<{ size: number; lastModified: number; arrayBuffer(): Promise<ArrayBuffer> }>
+  createWritable(): Promise<{ write(data: Uint8Array): Promise<void>; close(): Promise<void> }>
+  createSyncAccessHandle?(): Promise<OPFSSyncAccessHandle>
+}
+
+/**
+ * Subset of FileSystemDirectoryHandle used by the OPFS implementation
+ */
+export interface OPFSDirectoryHandle {
+  readonly kind: 'directory'
+  readonly name: string
+  getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<OPFSDirectoryHandle>
+  getFileHandle(name: string, options?: { create?: boolean }): Promise<OPFSFileHandle>
+  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>
+  keys(): AsyncIterable<string>
+}
+
+/**
+ * OPFS specific configuration options
+ */
+export interface OPFSOptions {
+  /** Directory below the origin private root that holds the filesystem */
+  name?: string
+  /** Directory handle to use instead of `navigator.storage.getDirectory()` */
+  root?: OPFSDirectoryHandle
+  /** Use synchronous access handles (defaults to true inside workers) */
+  syncAccessHandles?: boolean
+}
+
+type OPFSEntry =
+  | { type: 'file'; parent: OPFSDirectoryHandle; handle: OPFSFileHandle }
+  | { type: 'directory'; parent: OPFSDirectoryHandle | null; handle: OPFSDirectoryHandle }
+
+/**
+ * OPFS filesystem stats implementation
+ */
+class OPFSFileStats implements FileStats {
+  constructor(
+    readonly type: 'file' | 'directory',
+    readonly size: number,
+    readonly mtimeMs: number
+  ) {}
+
+  get mode(): number {
+    return this.type === 'directory' ? 0o755 : 0o644
+  }
+
+  get ino(): number {
+    return 0
+  }
+
+  isFile(): boolean {
+    return this.type === 'file'
+  }
+
+  isDirectory(): boolean {
+    return this.type === 'directory'
+  }
+
+  isSymbolicLink(): boolean {
+    return false
+  }
+}
+
+/**
+ * Check whether the Origin Private File System is available
+ */
+export function isOPFSSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function'
+}
+
+/**
+ * Check whether the code runs in a worker, where sync access handles exist
+ */
+function isWorkerScope(): boolean {
+  return typeof (globalThis as { WorkerGlobalScope?: unknown }).WorkerGlobalScope !== 'undefined'
+}
+
+/**
+ * Origin Private File System implementation of the filesystem interface
+ *
+ * OPFS has no symbolic links, so `symlink` and `readlink` are not provided
+ * and node_modules layouts are written with the hoisted linker.
+ */
+export class OPFSFileSystem implements FileSystemInterface {
+  private root: OPFSDirectoryHandle | null = null
+  private name: string
+  private syncAccessHandles: boolean
+
+  constructor(private options: OPFSOptions = {}) {
+    this.name = options.name || 'webpm-opfs'
+    this.syncAccessHandles = options.syncAccessHandles ?? isWorkerScope()
+  }
+
+  /**
+   * Open the filesystem directory below the origin private root
+   */
+  async init(name?: string, _options?: OPFSOptions): Promise<void> {
+    if (this.root) {
+      return
+    }
+
+    if (name) {
+      this.name = name
+    }
+
+    const originRoot = this.options.root
+      ?? (await navigator.storage.getDirectory()) as unknown as OPFSDirectoryHandle
+    this.root = await originRoot.getDirectoryHandle(this.name, { create: true })
+  }
+
+  /**
+   * Read a file's contents
+   */
+  async readFile(filepath: string, options: FileOperationOptions = {}): Promise<Uint8Array | string> {
+    const entry = await this.getEntry(filepath, 'open')
+
+    if (entry.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'read', filepath)
+    }
+
+    const data = await this.readHandle(entry.handle, filepath)
+    return options.encoding === 'utf8' ? new TextDecoder().decode(data) : data
+  }
+
+  /**
+   * Write data to a file
+   */
+  async writeFile(filepath: string, data: string | Uint8Array, _options: FileOperationOptions = {}): Promise<void> {
+    const parent = await this.getParent(filepath, 'open')
+    const name = this.getBasename(filepath)
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+
+    try {
+      const handle = await parent.getFileHandle(name, { create: true })
+
+      if (this.syncAccessHandles && handle.createSyncAccessHandle) {
+        const access = await handle.createSyncAccessHandle()
+        try {
+          access.truncate(0)
+          access.write(bytes, { at: 0 })
+          access.flush()
+        } finally {
+          access.close()
+        }
+        return
+      }
+
+      const writable = await handle.createWritable()
+      await writable.write(bytes)
+      await writable.close()
+    } catch (error) {
+      throw this.wrapError(error, 'open', filepath)
+    }
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const entry = await this.getEntry(filepath, 'unlink')
+
+    if (entry.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'unlink', filepath)
+    }
+
+    await this.removeEntry(entry.parent, entry.handle.name, false, 'unlink', filepath)
+  }
+
+  /**
+   * Read directory contents
+   */
+  async readdir(filepath: string, _options: FileOperationOptions = {}): Promise<string[]> {
+    const entry = await this.getEntry(filepath, 'scandir')
+
+    if (entry.type !== 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'scandir', filepath)
+    }
+
+    const names: string[] = []
+    for await (const name of entry.handle.keys()) {
+      names.push(name)
+    }
+    return names
+  }
+
+  /**
+   * Create a directory
+   */
+  async mkdir(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const parent = await this.getParent(filepath, 'mkdir')
+    const name = this.getBasename(filepath)
+
+    if (name === '' || (await this.getChild(parent, name))) {
+      throw this.createError(FileSystemErrorCodes.EEXIST, -17, 'file already exists', 'mkdir', filepath)
+    }
+
+    try {
+      await parent.getDirectoryHandle(name, { create: true })
+    } catch (error) {
+      throw this.wrapError(error, 'mkdir', filepath)
+    }
+  }
+
+  /**
+   * Remove a directory
+   */
+  async rmdir(filepath: string, _options: FileOperationOptions = {}): Promise<void> {
+    const entry = await this.getEntry(filepath, 'rmdir')
+
+    if (entry.type !== 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'rmdir', filepath)
+    }
+
+    if (!entry.parent) {
+      throw this.createError(FileSystemErrorCodes.EPERM, -1, 'operation not permitted', 'rmdir', filepath)
+    }
+
+    // Non-recursive removal fails with InvalidModificationError when not empty
+    await this.removeEntry(entry.parent, entry.handle.name, false, 'rmdir', filepath)
+  }
+
+  /**
+   * Get file/directory statistics
+   */
+  async stat(filepath: string, _options: FileOperationOptions = {}): Promise<FileStats> {
+    const entry = await this.getEntry(filepath, 'stat')
+
+    if (entry.type === 'directory') {
+      return new OPFSFileStats('directory', 0, 0)
+    }
+
+    try {
+      const file = await entry.handle.getFile()
+      return new OPFSFileStats('file', file.size, file.lastModified)
+    } catch (error) {
+      throw this.wrapError(error, 'stat', filepath)
+    }
+  }
+
+  /**
+   * Get file/directory statistics, the same as stat since OPFS has no symlinks
+   */
+  async lstat(filepath: string, options: FileOperationOptions = {}): Promise<FileStats> {
+    return this.stat(filepath, options)
+  }
+
+  /**
+   * Rename/move a file or directory
+   *
+   * OPFS handles can't be moved in every browser, so entries are copied to
+   * the new path and the old entry is removed afterwards.
+   */
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const entry = await this.getEntry(oldPath, 'rename')
+
+    if (!entry.parent) {
+      throw this.createError(FileSystemErrorCodes.EPERM, -1, 'operation not permitted', 'rename', oldPath)
+    }
+
+    const normalizedOld = this.normalizePath(oldPath)
+    const normalizedNew = this.normalizePath(newPath)
+    if (normalizedNew === normalizedOld) {
+      return
+    }
+    if (normalizedNew.startsWith(`${normalizedOld}/`)) {
+      throw this.createError(FileSystemErrorCodes.EINVAL, -22, 'invalid argument', 'rename', oldPath)
+    }
+
+    // Like rename(2), files replace files and directories replace empty directories
+    const existing = await this.getEntry(normalizedNew, 'rename').catch(() => undefined)
+    if (existing?.type === 'directory') {
+      if (entry.type !== 'directory') {
+        throw this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', 'rename', newPath)
+      }
+      if ((await this.readdir(normalizedNew)).length > 0) {
+        throw this.createError(FileSystemErrorCodes.ENOTEMPTY, -39, 'directory not empty', 'rename', newPath)
+      }
+    } else if (existing && entry.type === 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'rename', newPath)
+    }
+
+    await this.copyEntry(entry, normalizedNew)
+    await this.removeEntry(entry.parent, entry.handle.name, true, 'rename', oldPath)
+  }
+
+  /**
+   * Get disk usage for a path
+   */
+  async du(filepath: string): Promise<number> {
+    const stats = await this.stat(filepath)
+
+    if (stats.isFile()) {
+      return stats.size
+    }
+
+    let total = 0
+    for (const name of await this.readdir(filepath)) {
+      total += await this.du(this.joinPath([filepath, name]))
+    }
+    return total
+  }
+
+  /**
+   * Clean up resources, files stay in the origin private file system
+   */
+  async destroy(): Promise<void> {
+    this.root = null
+  }
+
+  private async getRoot(): Promise<OPFSDirectoryHandle> {
+    if (!this.root) {
+      await this.init()
+    }
+    return this.root!
+  }
+
+  /**
+   * Walk from the root to the entry at a path
+   */
+  private async getEntry(filepath: string, syscall: string): Promise<OPFSEntry> {
+    const parts = this.normalizePath(filepath).split('/').filter(Boolean)
+    let entry: OPFSEntry = { type: 'directory', parent: null, handle: await this.getRoot() }
+
+    for (const part of parts) {
+      if (entry.type !== 'directory') {
+        throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', syscall, filepath)
+      }
+
+      const child: OPFSEntry | undefined = await this.getChild(entry.handle, part).catch((error) => {
+        throw this.wrapError(error, syscall, filepath)
+      })
+      if (!child) {
+        throw this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', syscall, filepath)
+      }
+      entry = child
+    }
+
+    return entry
+  }
+
+  /**
+   * Get the handle of the directory that contains a path
+   */
+  private async getParent(filepath: string, syscall: string): Promise<OPFSDirectoryHandle> {
+    const parent = await this.getEntry(this.getParentPath(filepath), syscall)
+
+    if (parent.type !== 'directory') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', syscall, filepath)
+    }
+    return parent.handle
+  }
+
+  /**
+   * Look up a child entry of either kind, or undefined when it doesn't exist
+   */
+  private async getChild(parent: OPFSDirectoryHandle, name: string): Promise<OPFSEntry | undefined> {
+    try {
+      return { type: 'directory', parent, handle: await parent.getDirectoryHandle(name) }
+    } catch (error) {
+      if (this.isDOMException(error, 'NotFoundError')) {
+        return undefined
+      }
+      if (!this.isDOMException(error, 'TypeMismatchError')) {
+        throw error
+      }
+    }
+
+    // The name exists but is not a directory
+    return { type: 'file', parent, handle: await parent.getFileHandle(name) }
+  }
+
+  private async readHandle(handle: OPFSFileHandle, filepath: string): Promise<Uint8Array> {
+    try {
+      if (this.syncAccessHandles && handle.createSyncAccessHandle) {
+        const access = await handle.createSyncAccessHandle()
+        try {
+          const data = new Uint8Array(access.getSize())
+          access.read(data, { at: 0 })
+          return data
+        } finally {
+          access.close()
+        }
+      }
+
+      const file = await handle.getFile()
+      return new Uint8Array(await file.arrayBuffer())
+    } catch (error) {
+      throw this.wrapError(error, 'read', filepath)
+    }
+  }
+
+  /**
+   * Copy a file or directory tree to a new path
+   */
+  private async copyEntry(entry: OPFSEntry, destPath: string): Promise<void> {
+    if (entry.type === 'file') {
+      await this.writeFile(destPath, await this.readHandle(entry.handle, destPath))
+      return
+    }
+
+    const existing = await this.getEntry(destPath, 'rename').catch(() => undefined)
+    if (existing?.type === 'file') {
+      throw this.createError(FileSystemErrorCodes.ENOTDIR, -20, 'not a directory', 'rename', destPath)
+    }
+    if (!existing) {
+      await this.mkdir(destPath)
+    }
+
+    for await (const name of entry.handle.keys()) {
+      const child = await this.getChild(entry.handle, name)
+      if (child) {
+        await this.copyEntry(child, this.joinPath([destPath, name]))
+      }
+    }
+  }
+
+  private async removeEntry(
+    parent: OPFSDirectoryHandle,
+    name: string,
+    recursive: boolean,
+    syscall: string,
+    filepath: string
+  ): Promise<void> {
+    try {
+      await parent.removeEntry(name, { recursive })
+    } catch (error) {
+      throw this.wrapError(error, syscall, filepath)
+    }
+  }
+
+  private isDOMException(error: unknown, name: string): boolean {
+    return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === name
+  }
+
+  /**
+   * Map DOMExceptions thrown by OPFS to node error codes
+   */
+  private wrapError(error: unknown, syscall: string, path: string): FileSystemError {
+    if (error instanceof FileSystemError) {
+      return error
+    }
+    if (this.isDOMException(error, 'NotFoundError')) {
+      return this.createError(FileSystemErrorCodes.ENOENT, -2, 'no such file or directory', syscall, path)
+    }
+    if (this.isDOMException(error, 'TypeMismatchError')) {
+      return this.createError(FileSystemErrorCodes.EISDIR, -21, 'illegal operation on a directory', syscall, path)
+    }
+    if (this.isDOMException(error, 'InvalidModificationError')) {
+      return this.createError(FileSystemErrorCodes.ENOTEMPTY, -39, 'directory not empty', syscall, path)
+    }
+    if (this.isDOMException(error, 'NoModificationAllowedError')) {
+      // Another sync access handle holds the file lock
+      return this.createError('EBUSY', -16, 'resource busy or locked', syscall, path)
+    }
+    if (this.isDOMException(error, 'NotAllowedError') || this.isDOMException(error, 'SecurityError')) {
+      return this.createError(FileSystemErrorCodes.EACCES, -13, 'permission denied', syscall, path)
+    }
+    return this.createError('EIO', -5, (error as Error)?.message || 'i/o error', syscall, path)
+  }
+
+  private createError(code: string, errno: number, description: string, syscall: string, path: string): FileSystemError {
+    return new FileSystemError(`${code}: ${description}, ${syscall} '${path}'`, code, errno, path, syscall)
+  }
+
+  /**
+   * Normalize a file path
+   */
+  private normalizePath(filepath: string): string {
+    if (!filepath.startsWith('/')) {
+      filepath = '/' + filepath
+    }
+
+    // Remove duplicate slashes and resolve . and ..
+    const parts = filepath.split('/').filter(part => part !== '' && part !== '.')
+    const resolved: string[] = []
+
+    for (const part of parts) {
+      if (part === '..') {
+        if (resolved.length > 0) {
+          resolved.pop()
+        }
+      } else {
+        resolved.push(part)
+      }
+    }
+
+    return '/' + resolved.join('/')
+  }
+
+  /**
+   * Get the parent directory path
+   */
+  private getParentPath(filepath: string): string {
+    const normalized = this.normalizePath(filepath)
+    if (normalized === '/') {
+      return '/'
+    }
+
+    const lastSlash = normalized.lastIndexOf('/')
+    return lastSlash === 0 ? '/' : normalized.substring(0, lastSlash)
+  }
+
+  /**
+   * Get the basename of a path
+   */
+  private getBasename(filepath: string): string {
+    const normalized = this.normalizePath(filepath)
+    const lastSlash = normalized.lastIndexOf('/')
+    return normalized.substring(lastSlash + 1)
+  }
+
+  /**
+   * Join path parts
+   */
+  private joinPath(parts: string[]): string {
+    return this.normalizePath(parts.join('/'))
+  }
+}
+
+/**
+ * Factory function to create a new OPFS filesystem instance
+ */
+export function createOPFSFileSystem(options: OPFSOptions = {}): OPFSFileSystem {
+  return new OPFSFileSystem(options)
+}
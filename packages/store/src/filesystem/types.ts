@@ -157,6 +157,14 @@ export interface FileSystemInterface {
    */
   readlink?(filepath: string, options?: FileOperationOptions): Promise<string>
 
+  /**
+   * Resolve the real path of a file or directory by following symlinks
+   * @param filepath Path to resolve
+   * @param options Resolve options
+   * @returns Absolute path without symlinks
+   */
+  realpath?(filepath: string, options?: FileOperationOptions): Promise<string>
+
   /**
    * Get disk usage for a path
    * @param filepath Path to check
@@ -182,7 +190,7 @@ export interface FileSystemInterface {
  */
 export interface FileSystemConfig {
   /** Filesystem type identifier */
-  type: 'lightning-fs' | 'memory' | 'indexeddb' | 'node-fs' | 'custom'
+  type: 'lightning-fs' | 'memory' | 'indexeddb' | 'node-fs' | 'opfs' | 'custom'
   /** Optional name for the filesystem instance */
   name?: string
   /** Implementation-specific options */
@@ -198,6 +206,7 @@ export const FileSystemErrorCodes = {
   ENOTDIR: 'ENOTDIR', // Not a directory
   EISDIR: 'EISDIR', // Is a directory
   ENOTEMPTY: 'ENOTEMPTY', // Directory not empty
+  EINVAL: 'EINVAL', // Invalid argument
   EPERM: 'EPERM', // Operation not permitted
   EACCES: 'EACCES', // Permission denied
 } as const
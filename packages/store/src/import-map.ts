@@ -0,0 +1,218 @@
+/**
+ * Browser import maps for installed dependency trees
+ *
+ * Maps bare specifiers to the URLs package files are served from, so ESM code
+ * in the page can import what webpm installed. Direct dependencies go in
+ * "imports", and dependencies that differ from them are mapped in "scopes"
+ * of the packages that depend on them.
+ */
+
+import type { BaseManifest } from '@webpm/types'
+import type { DependencyTreeNode, FetchedDependencyTree, ResolvedPackage } from './index'
+import { collectNodes, getRootNodes } from './linker/utils'
+import { getConditionalTarget, getExportsMap } from './resolve-module'
+
+export interface ImportMap {
+  imports: Record<string, string>
+  scopes: Record<string, Record<string, string>>
+}
+
+export interface ImportMapOptions {
+  /** URL prefix package files are served under as `<name>@<version>/<path>` (defaults to DEFAULT_IMPORT_MAP_BASE_URL) */
+  baseUrl?: string
+  /** Conditions matched against "exports" (defaults to ['browser', 'import']) */
+  conditions?: string[]
+}
+
+/** Prefix the webpm service worker serves installed package files under */
+export const DEFAULT_IMPORT_MAP_BASE_URL = '/__webpm/node_modules/'
+
+const DEFAULT_CONDITIONS = ['browser', 'import']
+const MAIN_EXTENSIONS = ['', '.js', '.mjs', '.cjs', '.json', '/index.js', '/index.mjs', '/index.json']
+
+/**
+ * Create an import map for the given dependency trees
+ */
+export function createImportMap(
+  trees: Array<FetchedDependencyTree | DependencyTreeNode>,
+  options: ImportMapOptions = {}
+): ImportMap {
+  const baseUrl = options.baseUrl ?? DEFAULT_IMPORT_MAP_BASE_URL
+  const conditions = options.conditions ?? DEFAULT_CONDITIONS
+  const roots = getRootNodes(trees)
+  const specifiersCache = new Map<string, Record<string, string>>()
+
+  const getSpecifiers = (alias: string, node: DependencyTreeNode) => {
+    const key = `${alias}\0${node.package.id}`
+    if (!specifiersCache.has(key)) {
+      specifiersCache.set(key, getPackageSpecifiers(alias, node, getPackageUrl(baseUrl, node.package), conditions))
+    }
+    return specifiersCache.get(key)!
+  }
+
+  const importMap: ImportMap = { imports: {}, scopes: {} }
+  for (const root of roots) {
+    Object.assign(importMap.imports, getSpecifiers(root.package.name, root))
+  }
+
+  for (const node of collectNodes(roots).values()) {
+    for (const [alias, child] of node.children) {
+      for (const [specifier, url] of Object.entries(getSpecifiers(alias, child))) {
+        if (importMap.imports[specifier] === url) continue
+
+        const scope = getPackageUrl(baseUrl, node.package)
+        importMap.scopes[scope] ??= {}
+        importMap.scopes[scope][specifier] = url
+      }
+    }
+  }
+
+  return importMap
+}
+
+/**
+ * Render an import map as a `<script type="importmap">` element
+ */
+export function getImportMapScript(importMap: ImportMap): string {
+  // Keep "</script>" inside URLs from closing the element early
+  const json = JSON.stringify(importMap, null, 2).replace(/</g, '\\u003c')
+  return `<script type="importmap">\n${json}\n</script>`
+}
+
+/**
+ * Get the URL prefix the files of a package are served under
+ */
+export function getPackageUrl(baseUrl: string, pkg: Pick<ResolvedPackage, 'name' | 'version'>): string {
+  return `${baseUrl.replace(/\/?$/, '/')}${pkg.name}@${pkg.version}/`
+}
+
+/**
+ * Map the specifiers a package can be imported with to file URLs
+ */
+function getPackageSpecifiers(
+  alias: string,
+  node: DependencyTreeNode,
+  packageUrl: string,
+  conditions: string[]
+): Record<string, string> {
+  const manifest = (node.fetched?.extractedFiles.manifest ?? node.package.manifest) as BaseManifest
+  const files = node.fetched
+    ? new Set(node.fetched.extractedFiles.files.map((file) => file.name.replace(/^\.?\//, '')))
+    : undefined
+
+  if (manifest.exports === undefined) {
+    const specifiers: Record<string, string> = { [`${alias}/`]: packageUrl }
+    const main = getMainFile(manifest, conditions, files)
+    if (main) {
+      specifiers[alias] = `${packageUrl}${main}`
+    }
+    return specifiers
+  }
+
+  const specifiers: Record<string, string> = {}
+  const exportsMap = getExportsMap(manifest.exports)
+
+  // Less specific patterns first, so exact keys and longer prefixes win
+  const keys = Object.keys(exportsMap)
+    .filter((key) => key.startsWith('.'))
+    .sort((a, b) => getPatternSpecificity(a) - getPatternSpecificity(b))
+
+  for (const key of keys) {
+    const target = getConditionalTarget(exportsMap[key], conditions)
+
+    if (target === null) {
+      // Excluded subpaths drop what less specific patterns mapped
+      const specifier = key === '.' ? alias : `${alias}${key.slice(1)}`
+      const [prefix, suffix = ''] = specifier.split('*')
+      for (const mapped of Object.keys(specifiers)) {
+        if (mapped === specifier || (specifier.includes('*') && mapped.startsWith(prefix) && mapped.endsWith(suffix))) {
+          delete specifiers[mapped]
+        }
+      }
+    } else if (target?.startsWith('./')) {
+      for (const [specifier, path] of Object.entries(expandExport(alias, key, target, files))) {
+        specifiers[specifier] = `${packageUrl}${path}`
+      }
+    }
+  }
+
+  return specifiers
+}
+
+/**
+ * Expand an "exports" key to specifiers and the package-relative paths they load
+ */
+function expandExport(
+  alias: string,
+  key: string,
+  target: string,
+  files: Set<string> | undefined
+): Record<string, string> {
+  const specifier = key === '.' ? alias : `${alias}${key.slice(1)}`
+  const starIndex = key.indexOf('*')
+
+  if (starIndex === -1) {
+    return { [specifier]: target.slice(2) }
+  }
+
+  const keyPrefix = specifier.slice(0, specifier.indexOf('*'))
+  const keySuffix = key.slice(starIndex + 1)
+
+  // Without a file list, a pattern can only be mapped as a prefix
+  if (!files) {
+    if (keySuffix !== '' || !target.endsWith('/*')) return {}
+    return { [keyPrefix]: target.slice(2, -1) }
+  }
+
+  const targetStar = target.indexOf('*')
+  const targetPrefix = target.slice(2, targetStar)
+  const targetSuffix = target.slice(targetStar + 1)
+
+  const expanded: Record<string, string> = {}
+  for (const file of files) {
+    if (!file.startsWith(targetPrefix) || !file.endsWith(targetSuffix)) continue
+    if (file.length < targetPrefix.length + targetSuffix.length) continue
+
+    const match = file.slice(targetPrefix.length, file.length - targetSuffix.length)
+    if (target.replaceAll('*', match) === `./${file}`) {
+      expanded[`${keyPrefix}${match}${keySuffix}`] = file
+    }
+  }
+  return expanded
+}
+
+/**
+ * Find the entry file of a package without "exports" through its main fields
+ */
+function getMainFile(manifest: BaseManifest, conditions: string[], files: Set<string> | undefined): string | undefined {
+  const browser = conditions.includes('browser')
+  const fields = [
+    browser && typeof manifest.browser === 'string' ? manifest.browser : undefined,
+    conditions.includes('require') ? undefined : manifest.module,
+    manifest.main,
+    'index.js',
+  ]
+
+  for (const field of fields) {
+    if (!field) continue
+
+    const path = field.replace(/^\.?\//, '').replace(/\/$/, '')
+    const main = files ? MAIN_EXTENSIONS.map((extension) => `${path}${extension}`).find((file) => files.has(file)) : path
+    if (!main) continue
+
+    // The browser field can replace the entry file
+    const replacement = browser && typeof manifest.browser === 'object'
+      ? manifest.browser[`./${main}`] ?? manifest.browser[main]
+      : undefined
+    return typeof replacement === 'string' ? replacement.replace(/^\.?\//, '') : main
+  }
+  return undefined
+}
+
+/**
+ * Rank "exports" keys, exact keys highest, then patterns by the length before "*"
+ */
+function getPatternSpecificity(key: string): number {
+  const starIndex = key.indexOf('*')
+  return starIndex === -1 ? Number.MAX_SAFE_INTEGER : starIndex
+}
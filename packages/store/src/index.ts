@@ -1,7 +1,12 @@
 import { NPMRegistry, type PackageMetadata, type PackageVersions } from '@webpm/registry'
 import { logger } from '@webpm/logger'
+import { WebpmError, isWebpmError } from '@webpm/error'
 import semver from 'semver'
-import { tarballFetcher, type FetchedPackage } from './tarball-fetcher'
+import { tarballFetcher, type FetchedPackage, type FetchPackageOptions } from './tarball-fetcher'
+import type { ExtractionFilter } from './extraction-filter'
+import { createTreesFromLockfile, type Lockfile } from './lockfile'
+import { getContentType, isTextContentType } from './content-type'
+import type { ExtractedFile } from './untar'
 
 // Timing utilities
 class Timer {
@@ -38,22 +43,45 @@ function createTimings(): InstallationTimings {
 }
 
 // IndexedDB File Content Store
+// 'utf-8' content is a string, 'binary' content the raw bytes
+export type StoredFileEncoding = 'utf-8' | 'binary'
+
 export interface StoredFileContent {
   id: string // packageName@version/filePath
   packageName: string
   packageVersion: string
   filePath: string
-  content: string
+  content: string | Uint8Array<ArrayBuffer>
+  // Records stored before binary files were supported have no encoding and are text
+  encoding?: StoredFileEncoding
   size: number
   mtime?: Date
   contentType: string
 }
 
+export interface StoreFilesResult {
+  stored: number
+  // Files that could not be written, the others are stored regardless
+  failed: Array<{ id: string, error: Error }>
+}
+
+export interface FileContentStoreOptions {
+  // Bulk writes running at once, further storeFiles calls wait for one to finish
+  maxConcurrentWrites?: number
+}
+
 export class FileContentStore {
   private dbName = 'webpm-file-store'
   private dbVersion = 1
   private storeName = 'file-contents'
   private db: IDBDatabase | null = null
+  private maxConcurrentWrites: number
+  private activeWrites = 0
+  private writeQueue: Array<() => void> = []
+
+  constructor(options: FileContentStoreOptions = {}) {
+    this.maxConcurrentWrites = Math.max(1, options.maxConcurrentWrites ?? 2)
+  }
 
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -94,6 +122,78 @@ export class FileContentStore {
     })
   }
 
+  /**
+   * Store many files, like all files of a package or a batch of packages, in
+   * one transaction
+   *
+   * Files that fail are reported without aborting the others. The promise
+   * resolves once the files are committed and waits while other bulk writes
+   * are running, so producers awaiting it are slowed down to the write speed.
+   */
+  async storeFiles(files: StoredFileContent[]): Promise<StoreFilesResult> {
+    if (!this.db) await this.init()
+
+    await this.acquireWrite()
+    try {
+      return await this.writeFiles(files)
+    } finally {
+      this.releaseWrite()
+    }
+  }
+
+  private writeFiles(files: StoredFileContent[]): Promise<StoreFilesResult> {
+    const failed: StoreFilesResult['failed'] = []
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite')
+      const store = transaction.objectStore(this.storeName)
+
+      for (const file of files) {
+        try {
+          const request = store.put(file)
+          request.onerror = (event) => {
+            failed.push({ id: file.id, error: request.error ?? new Error(`Failed to store ${file.id}`) })
+            // Keep the transaction alive for the other files
+            event.preventDefault()
+            event.stopPropagation()
+          }
+        } catch (error) {
+          // Invalid keys and values that cannot be cloned throw right away
+          failed.push({ id: file.id, error: error instanceof Error ? error : new Error(String(error)) })
+        }
+      }
+
+      transaction.oncomplete = () => resolve({ stored: files.length - failed.length, failed })
+      // Nothing is stored when the transaction aborts, e.g. over quota
+      transaction.onabort = () => {
+        const error = transaction.error ?? new Error('File store transaction was aborted')
+        const reported = new Set(failed.map((failure) => failure.id))
+        for (const file of files) {
+          if (!reported.has(file.id)) failed.push({ id: file.id, error })
+        }
+        resolve({ stored: 0, failed })
+      }
+    })
+  }
+
+  private async acquireWrite(): Promise<void> {
+    if (this.activeWrites < this.maxConcurrentWrites) {
+      this.activeWrites++
+      return
+    }
+    // The finishing write hands its slot over
+    await new Promise<void>((resolve) => this.writeQueue.push(resolve))
+  }
+
+  private releaseWrite(): void {
+    const next = this.writeQueue.shift()
+    if (next) {
+      next()
+    } else {
+      this.activeWrites--
+    }
+  }
+
   async getFileContent(id: string): Promise<StoredFileContent | null> {
     if (!this.db) await this.init()
 
@@ -223,95 +323,69 @@ export class FileContentStore {
 export const fileContentStore = new FileContentStore()
 
 /**
- * Helper function to determine content type from file extension
+ * Create the stored record of an extracted file, text files are decoded and
+ * everything else, or text that is not valid UTF-8, is kept as bytes
  */
-function getContentType(filePath: string): string {
-  const ext = filePath.split('.').pop()?.toLowerCase()
-
-  switch (ext) {
-    case 'js':
-    case 'mjs':
-    case 'cjs':
-      return 'application/javascript'
-    case 'ts':
-    case 'tsx':
-      return 'application/typescript'
-    case 'json':
-      return 'application/json'
-    case 'css':
-      return 'text/css'
-    case 'html':
-    case 'htm':
-      return 'text/html'
-    case 'md':
-      return 'text/markdown'
-    case 'txt':
-      return 'text/plain'
-    case 'yml':
-    case 'yaml':
-      return 'application/yaml'
-    case 'xml':
-      return 'application/xml'
-    case 'vue':
-      return 'text/x-vue'
-    default:
-      return 'text/plain'
+export function createStoredFileContent(
+  pkg: Pick<ResolvedPackage, 'name' | 'version'>,
+  file: ExtractedFile
+): StoredFileContent {
+  const contentType = getContentType(file.name)
+  let content: string | undefined
+
+  if (isTextContentType(contentType) && !file.buffer.includes(0)) {
+    try {
+      content = new TextDecoder('utf-8', { fatal: true }).decode(file.buffer)
+    } catch {
+      // Not UTF-8, stored as bytes below
+    }
   }
-}
 
-/**
- * Helper function to check if a file should be stored (text files only)
- */
-function shouldStoreFile(filePath: string, size: number): boolean {
-  return true
-  const ext = filePath.split('.').pop()?.toLowerCase()
-  const textExtensions = [
-    'js', 'mjs', 'cjs', 'ts', 'tsx', 'jsx',
-    'mts', 'cts', 'json5', 'toml',
-    'json', 'css', 'scss', 'sass', 'less',
-    'html', 'htm', 'xml', 'svg',
-    'md', 'txt', 'yml', 'yaml',
-    'vue', 'svelte',
-    'd.ts', 'map'
-  ]
-
-  return textExtensions.includes(ext || '')
+  // Views into a larger buffer are copied, IndexedDB would store the whole buffer
+  const bytes =
+    file.buffer.buffer instanceof ArrayBuffer && file.buffer.byteLength === file.buffer.buffer.byteLength
+      ? (file.buffer as Uint8Array<ArrayBuffer>)
+      : file.buffer.slice()
+
+  return {
+    id: `${pkg.name}@${pkg.version}/${file.name}`,
+    packageName: pkg.name,
+    packageVersion: pkg.version,
+    filePath: file.name,
+    content: content ?? bytes,
+    encoding: content === undefined ? 'binary' : 'utf-8',
+    size: file.size,
+    mtime: file.mtime,
+    // Files with a text type that turned out to be binary are served as bytes
+    contentType: content === undefined && isTextContentType(contentType) ? 'application/octet-stream' : contentType,
+  }
 }
 
 /**
- * Store extracted file contents in IndexedDB
+ * Store extracted file contents of a batch of packages in IndexedDB, in one
+ * transaction
  */
-async function storeExtractedFiles(fetchedPackage: FetchedPackage): Promise<void> {
-  try {
-    const packageName = fetchedPackage.package.name
-    const packageVersion = fetchedPackage.package.version
+async function storeExtractedFiles(fetchedPackages: FetchedPackage[]): Promise<void> {
+  const packageIds = fetchedPackages.map((fetched) => fetched.package.id).join(', ')
 
-    for (const file of fetchedPackage.extractedFiles.files) {
-      if (!shouldStoreFile(file.name, file.size)) continue
-
-      try {
-        const content = file.buffer.toString('utf-8')
-        const fileContent: StoredFileContent = {
-          id: `${packageName}@${packageVersion}/${file.name}`,
-          packageName,
-          packageVersion,
-          filePath: file.name,
-          content,
-          size: file.size,
-          mtime: file.mtime,
-          contentType: getContentType(file.name)
-        }
-
-        await fileContentStore.storeFileContent(fileContent)
-      } catch {
-        // Skip files that can't be converted to UTF-8
-        logger.debug(`Skipping non-text file: ${file.name}`)
+  try {
+    const files: StoredFileContent[] = []
+    for (const fetchedPackage of fetchedPackages) {
+      for (const file of fetchedPackage.extractedFiles.files) {
+        // Symlinks have no content of their own
+        if (file.type === 'symlink') continue
+        files.push(createStoredFileContent(fetchedPackage.package, file))
       }
     }
 
-    logger.debug(`Stored file contents for ${packageName}@${packageVersion}`)
+    const { stored, failed } = await fileContentStore.storeFiles(files)
+    for (const { id, error } of failed) {
+      logger.warn(`Failed to store file content ${id}:`, error)
+    }
+
+    logger.debug(`Stored ${stored} files for ${packageIds}`)
   } catch (error) {
-    logger.warn(`Failed to store file contents for ${fetchedPackage.package.id}:`, error)
+    logger.warn(`Failed to store file contents for ${packageIds}:`, error)
   }
 }
 
@@ -345,6 +419,11 @@ export interface ResolvePackageJsonOptions {
   autoInstallPeers?: boolean
   maxConcurrent?: number
   onResult?: (result: FetchedDependencyTree) => void
+  // Install exactly what the lockfile records, without requesting package metadata
+  frozenLockfile?: boolean
+  lockfile?: Lockfile
+  // Files to extract from each package, e.g. 'types-only' for editor installs
+  extractionFilter?: ExtractionFilter
 }
 
 export interface ResolvedPackage {
@@ -395,7 +474,10 @@ export interface InstallationTimings {
 
 export interface ResolutionContext {
   registry: NPMRegistry
+  // Keyed by wanted specifier (e.g. "scheduler@^0.23.0")
   resolvedPackages: Map<string, ResolvedPackage>
+  // Keyed by package id (e.g. "scheduler@0.23.2"), several versions of a name may coexist
+  packagesById: Map<string, ResolvedPackage>
   dependencyTree: Map<string, DependencyTreeNode>
   maxDepth: number
   currentDepth: number
@@ -424,12 +506,13 @@ export async function requestPackage(
 ): Promise<ResolvedPackage | null> {
   // _options parameter is reserved for future use
   const { alias, bareSpecifier } = wantedDependency
-  const { registry, resolvedPackages, maxDepth = 10, currentDepth = 0, parentIds = [] } = context
+  const { registry, resolvedPackages, maxDepth = 10, currentDepth = 0 } = context
 
-  // Check if we've already resolved this package
-  const existingPackage = resolvedPackages.get(alias)
+  // Check if we've already resolved this exact specifier
+  const specifierKey = getSpecifierKey(alias, bareSpecifier)
+  const existingPackage = resolvedPackages.get(specifierKey)
   if (existingPackage) {
-    logger.debug(`Package ${alias} already resolved: ${existingPackage.version}`)
+    logger.debug(`Package ${specifierKey} already resolved: ${existingPackage.version}`)
     return existingPackage
   }
 
@@ -439,12 +522,6 @@ export async function requestPackage(
     return null
   }
 
-  // Check for circular dependencies
-  if (parentIds.includes(alias)) {
-    logger.warn(`Circular dependency detected for package ${alias}`)
-    return null
-  }
-
   try {
     logger.info(`Resolving package: ${alias}@${bareSpecifier}`)
 
@@ -456,7 +533,8 @@ export async function requestPackage(
       return null
     }
 
-    // Resolve the specific version based on the bare specifier
+    // Every range gets its highest satisfying version, so the graph does not
+    // depend on which sibling happened to resolve first
     const resolvedVersion = resolveVersion(bareSpecifier, packageVersions)
 
     if (!resolvedVersion) {
@@ -490,11 +568,13 @@ export async function requestPackage(
       manifest: versionMetadata,
     }
 
-    // Cache the resolved package
-    resolvedPackages.set(alias, resolvedPackage)
+    // Cache the resolved package, reusing the instance if another range already got this version
+    const cachedPackage = context.packagesById.get(resolvedPackage.id) ?? resolvedPackage
+    context.packagesById.set(cachedPackage.id, cachedPackage)
+    resolvedPackages.set(specifierKey, cachedPackage)
 
-    logger.info(`Resolved package: ${resolvedPackage.id}`)
-    return resolvedPackage
+    logger.info(`Resolved package: ${cachedPackage.id}`)
+    return cachedPackage
 
   } catch (error) {
     logger.error(`Failed to resolve package ${alias}:`, error)
@@ -502,6 +582,13 @@ export async function requestPackage(
   }
 }
 
+/**
+ * Build the cache key for a wanted dependency (name + requested range)
+ */
+function getSpecifierKey(alias: string, bareSpecifier: string): string {
+  return `${alias}@${bareSpecifier}`
+}
+
 /**
  * Extract non-dev dependencies from a package manifest
  */
@@ -705,16 +792,16 @@ export async function resolveDependencies(
   }
 
   // Check for circular dependencies
-  if (parentIds.includes(packageName)) {
-    logger.warn(`Circular dependency detected for package ${packageName}`)
+  if (parentIds.includes(nodeId)) {
+    logger.warn(`Circular dependency detected for package ${nodeId}`)
     return null
   }
 
   try {
     // Get the resolved package
-    const resolvedPackage = context.resolvedPackages.get(packageName)
+    const resolvedPackage = context.packagesById.get(nodeId)
     if (!resolvedPackage) {
-      logger.error(`Package ${packageName} not found in resolved packages`)
+      logger.error(`Package ${nodeId} not found in resolved packages`)
       return null
     }
 
@@ -739,7 +826,7 @@ export async function resolveDependencies(
     logger.info(`Resolving ${wantedDependencies.length} dependencies for ${packageName}@${packageVersion}`)
 
     // Resolve each dependency
-    const newParentIds = [...parentIds, packageName]
+    const newParentIds = [...parentIds, nodeId]
     const childPromises = wantedDependencies.map(async (wantedDep) => {
       // Request the package
       const childPackage = await requestPackage(wantedDep, context, {
@@ -800,6 +887,7 @@ export function createResolutionContext(
   return {
     registry,
     resolvedPackages: new Map(),
+    packagesById: new Map(),
     dependencyTree: new Map(),
     maxDepth,
     currentDepth: 0,
@@ -838,8 +926,8 @@ export async function resolvePackageTree(
 
   // Then resolve all its dependencies
   const rootNode = await resolveDependencies(
-    packageName,
-    packageVersion,
+    rootPackage.name,
+    rootPackage.version,
     context,
     options
   )
@@ -850,8 +938,15 @@ export async function resolvePackageTree(
 /**
  * Fetch a single package tarball and extract it
  */
-export async function fetchPackage(resolvedPackage: ResolvedPackage): Promise<FetchedPackage | null> {
-  return await tarballFetcher.fetchPackage(resolvedPackage);
+export async function fetchPackage(resolvedPackage: ResolvedPackage, options: FetchPackageOptions = {}): Promise<FetchedPackage | null> {
+  return await tarballFetcher.fetchPackage(resolvedPackage, options);
+}
+
+export interface FetchDependencyTreeOptions {
+  maxConcurrent?: number
+  registry?: NPMRegistry
+  extractionFilter?: ExtractionFilter
+  onResult?: (result: FetchedPackage) => void
 }
 
 /**
@@ -859,9 +954,9 @@ export async function fetchPackage(resolvedPackage: ResolvedPackage): Promise<Fe
  */
 export async function fetchDependencyTree(
   dependencyTree: DependencyTreeNode,
-  options: { maxConcurrent?: number, onResult?: (result: FetchedPackage) => void } = {}
+  options: FetchDependencyTreeOptions = {}
 ): Promise<FetchedDependencyTree | null> {
-  const { maxConcurrent = 5 } = options;
+  const { maxConcurrent = 5, registry, extractionFilter } = options;
   const allFetchedPackages = new Map<string, FetchedPackage>();
   let totalFiles = 0;
   const timings = createTimings();
@@ -874,29 +969,37 @@ export async function fetchDependencyTree(
     const collectTimer = new Timer();
     const packagesToFetch: ResolvedPackage[] = [];
     const visitedPackages = new Set<string>();
+    // Packages reached through required dependencies only, the others are optional
+    const requiredPackages = new Set<string>();
 
-    const collectPackages = (node: DependencyTreeNode, parentIds: string[] = []) => {
+    const collectPackages = (node: DependencyTreeNode, parentIds: string[] = [], optional = false) => {
       const packageId = `${node.package.name}@${node.package.version}`;
 
       // Check for circular dependencies
-      if (parentIds.includes(node.package.name)) {
-        logger.warn(`Circular dependency detected for package ${node.package.name} in collectPackages`);
+      if (parentIds.includes(packageId)) {
+        logger.warn(`Circular dependency detected for package ${packageId} in collectPackages`);
         return;
       }
 
-      // Avoid processing the same package multiple times
+      // Avoid processing the same package multiple times, unless an optional
+      // package turns out to be required through another parent
       if (visitedPackages.has(packageId)) {
-        return;
+        if (optional || requiredPackages.has(packageId)) {
+          return;
+        }
+      } else {
+        packagesToFetch.push(node.package);
+        visitedPackages.add(packageId);
+      }
+      if (!optional) {
+        requiredPackages.add(packageId);
       }
-
-      packagesToFetch.push(node.package);
-      visitedPackages.add(packageId);
 
       // Create new parent chain for children
-      const newParentIds = [...parentIds, node.package.name];
+      const newParentIds = [...parentIds, packageId];
 
-      for (const childNode of node.children.values()) {
-        collectPackages(childNode, newParentIds);
+      for (const [alias, childNode] of node.children) {
+        collectPackages(childNode, newParentIds, optional || isOptionalDependency(node.package, alias));
       }
     };
     collectPackages(dependencyTree);
@@ -918,7 +1021,14 @@ export async function fetchDependencyTree(
 
       const batchPromises = batch.map(async (pkg) => {
         const packageTimer = new Timer();
-        const fetched = await tarballFetcher.fetchPackage(pkg);
+        const fetched = await tarballFetcher.fetchPackage(pkg, { registry, extractionFilter }).catch((error: unknown) => {
+          // Optional dependencies that cannot be fetched are skipped, like npm does
+          if (requiredPackages.has(`${pkg.name}@${pkg.version}`)) {
+            throw error;
+          }
+          logger.warn(`Skipping optional dependency ${pkg.id}, it could not be fetched:`, error);
+          return null;
+        });
         const packageTime = packageTimer.stop();
 
         if (fetched) {
@@ -926,15 +1036,15 @@ export async function fetchDependencyTree(
           allFetchedPackages.set(pkg.id, fetched);
           totalFiles += fetched.extractedFiles.files.length;
 
-          // Store file contents in IndexedDB
-          await storeExtractedFiles(fetched);
-
           logger.debug(`Fetched ${pkg.id} in ${packageTime.toFixed(2)}ms`);
         }
         return fetched;
       });
 
-      await Promise.all(batchPromises);
+      const fetchedBatch = await Promise.all(batchPromises);
+
+      // Store file contents of the whole batch in IndexedDB
+      await storeExtractedFiles(fetchedBatch.filter((fetched): fetched is FetchedPackage => fetched !== null));
       const batchTime = batchTimer.stop();
       logger.debug(`Completed batch ${batchIndex + 1}/${batches.length} (${batch.length} packages) in ${batchTime.toFixed(2)}ms`);
     }
@@ -950,8 +1060,8 @@ export async function fetchDependencyTree(
       const nodeId = `${node.package.name}@${node.package.version}`;
 
       // Check for circular dependencies
-      if (parentIds.includes(node.package.name)) {
-        logger.warn(`Circular dependency detected for package ${node.package.name} in updateTreeWithFetched`);
+      if (parentIds.includes(nodeId)) {
+        logger.warn(`Circular dependency detected for package ${nodeId} in updateTreeWithFetched`);
         return;
       }
 
@@ -968,7 +1078,7 @@ export async function fetchDependencyTree(
       }
 
       // Create new parent chain for children
-      const newParentIds = [...parentIds, node.package.name];
+      const newParentIds = [...parentIds, nodeId];
 
       for (const childNode of node.children.values()) {
         updateTreeWithFetched(childNode, newParentIds);
@@ -1002,6 +1112,10 @@ export async function fetchDependencyTree(
     timings.totalTime = totalTimer.stop();
     logger.error('Failed to fetch dependency tree:', error);
     logger.error(`Failed after ${timings.totalTime.toFixed(2)}ms`);
+    // Rethrow integrity failures so a tampered tarball fails the install
+    if (isWebpmError(error)) {
+      throw error;
+    }
     return null;
   }
 }
@@ -1012,9 +1126,9 @@ export async function fetchDependencyTree(
 export async function resolveAndFetchWantedDependencies(
   wantedDependencies: WantedDependency[],
   registry: NPMRegistry,
-  options: { maxConcurrent?: number, autoInstallPeers?: boolean, onResult?: (result: FetchedDependencyTree) => void } = {}
+  options: { maxConcurrent?: number, autoInstallPeers?: boolean, extractionFilter?: ExtractionFilter, onResult?: (result: FetchedDependencyTree) => void } = {}
 ): Promise<FetchedDependencyTree[]> {
-  const { maxConcurrent = 5, autoInstallPeers = false, onResult } = options
+  const { maxConcurrent = 5, autoInstallPeers = false, extractionFilter, onResult } = options
 
   logger.info(`Resolving ${wantedDependencies.length} wanted dependencies`)
 
@@ -1038,7 +1152,8 @@ export async function resolveAndFetchWantedDependencies(
           registry,
           {
             maxConcurrent,
-            autoInstallPeers
+            autoInstallPeers,
+            extractionFilter
             // Don't pass onResult here, we'll call it after each result
           }
         )
@@ -1075,6 +1190,94 @@ export async function resolveAndFetchWantedDependencies(
   return results
 }
 
+/**
+ * Get the dependency trees recorded in the lockfile of a frozen-lockfile install
+ */
+export function getLockedDependencyTrees(
+  packageJson: PackageJsonManifest,
+  options: ResolvePackageJsonOptions & { registry?: string } = {}
+): Map<string, DependencyTreeNode> {
+  if (!options.lockfile) {
+    throw new WebpmError('NO_LOCKFILE', 'Cannot install with a frozen lockfile because no lockfile was given', {
+      hint: 'Install without a frozen lockfile first to create one.',
+    })
+  }
+  return createTreesFromLockfile(packageJson, options.lockfile, options)
+}
+
+/**
+ * Fetch the dependencies of a package.json exactly as recorded in its lockfile
+ * @param registry - Client tarballs are downloaded with, for its credentials and retry policy
+ */
+export async function fetchLockedDependencies(
+  packageJson: PackageJsonManifest,
+  registry: NPMRegistry,
+  options: ResolvePackageJsonOptions & { registry?: string } = {}
+): Promise<FetchedDependencyTree[]> {
+  const { maxConcurrent = 5, extractionFilter, onResult } = options
+
+  const resolutionTimer = new Timer()
+  const lockedTrees = getLockedDependencyTrees(packageJson, options)
+  const resolutionTime = resolutionTimer.stop()
+
+  logger.info(`Fetching ${lockedTrees.size} locked dependencies`)
+
+  const results: FetchedDependencyTree[] = []
+  for (const [alias, tree] of lockedTrees) {
+    const result = await fetchLockedDependencyTree(alias, tree, { maxConcurrent, registry, extractionFilter })
+    result.timings.resolutionTime = resolutionTime / lockedTrees.size
+    result.timings.phases.dependencyResolution = result.timings.resolutionTime
+    onResult?.(result)
+    results.push(result)
+  }
+
+  logger.info(`Successfully fetched ${results.length} locked dependencies`)
+  return results
+}
+
+function isOptionalDependency(pkg: ResolvedPackage, alias: string): boolean {
+  return pkg.optionalDependencies?.[alias] !== undefined
+}
+
+/**
+ * Fetch a dependency tree read from a lockfile, a frozen install is all or
+ * nothing so any package that cannot be fetched fails it
+ */
+export async function fetchLockedDependencyTree(
+  alias: string,
+  tree: DependencyTreeNode,
+  options: FetchDependencyTreeOptions = {}
+): Promise<FetchedDependencyTree> {
+  const result = await fetchDependencyTree(tree, options)
+  const unfetched = result ? findUnfetchedPackage(tree) : tree.package
+  if (!result || unfetched) {
+    const { name, version } = unfetched ?? tree.package
+    throw new WebpmError(
+      'LOCKED_DEPENDENCY_FETCH_FAILED',
+      `Failed to fetch ${name}@${version}, locked as a dependency of ${alias}`,
+      { hint: 'Check that the registry still serves the locked version and retry the install.' }
+    )
+  }
+  return result
+}
+
+/**
+ * First package of a tree whose fetch failed, undefined when all were fetched
+ */
+function findUnfetchedPackage(node: DependencyTreeNode, visited = new Set<DependencyTreeNode>()): ResolvedPackage | undefined {
+  if (visited.has(node)) return undefined
+  visited.add(node)
+
+  if (!node.fetched) return node.package
+  for (const [alias, child] of node.children) {
+    // Optional dependencies that failed were skipped on purpose
+    if (isOptionalDependency(node.package, alias)) continue
+    const unfetched = findUnfetchedPackage(child, visited)
+    if (unfetched) return unfetched
+  }
+  return undefined
+}
+
 /**
  * Main function to resolve and fetch a package with all its dependencies
  */
@@ -1082,7 +1285,7 @@ export async function resolveAndFetchPackage(
   packageName: string,
   packageVersion: string,
   registry: NPMRegistry,
-  options: RequestPackageOptions & { maxConcurrent?: number, onResult?: (result: FetchedDependencyTree) => void } = {}
+  options: RequestPackageOptions & { maxConcurrent?: number, extractionFilter?: ExtractionFilter, onResult?: (result: FetchedDependencyTree) => void } = {}
 ): Promise<FetchedDependencyTree | null> {
   const totalTimer = new Timer();
   const timings = createTimings();
@@ -1106,7 +1309,9 @@ export async function resolveAndFetchPackage(
 
     // Phase 2: Fetch all packages
     const fetchedTree = await fetchDependencyTree(dependencyTree, {
-      maxConcurrent: options.maxConcurrent
+      maxConcurrent: options.maxConcurrent,
+      registry,
+      extractionFilter: options.extractionFilter,
       // Don't pass onResult here, we'll call it after the tree is complete
     });
 
@@ -1149,8 +1354,24 @@ export async function resolveAndFetchPackage(
     timings.totalTime = totalTimer.stop();
     logger.error(`Failed to resolve and fetch package ${packageName}@${packageVersion}:`, error);
     logger.error(`Failed after ${timings.totalTime.toFixed(2)}ms`);
+    if (isWebpmError(error)) {
+      throw error;
+    }
     return null;
   }
 }
 
 export * from './tarball-fetcher';
+export * from './untar';
+export * from './extraction-filter';
+export * from './extraction-pool';
+export * from './lockfile';
+export * from './integrity';
+export * from './tarball-cache';
+export * from './filesystem';
+export * from './linker';
+export * from './resolve-module';
+export * from './import-map';
+export * from './content-type';
+export * from './service-worker';
+export * from './commonjs-runtime';
@@ -0,0 +1,108 @@
+/**
+ * Subresource Integrity verification for package tarballs
+ *
+ * Parses SSRI strings as published in `dist.integrity` and checks tarball
+ * contents against them with WebCrypto, so it works in browsers and Node.
+ */
+
+import { TarballIntegrityError, WebpmError } from '@webpm/error'
+
+export type IntegrityAlgorithm = 'sha512' | 'sha384' | 'sha256' | 'sha1'
+
+export interface IntegrityHash {
+  algorithm: string
+  digest: string
+  options: string[]
+}
+
+// Strongest first, the order ssri uses to pick the algorithm it reports
+const SUPPORTED_ALGORITHMS: IntegrityAlgorithm[] = ['sha512', 'sha384', 'sha256', 'sha1']
+
+const WEB_CRYPTO_ALGORITHMS: Record<IntegrityAlgorithm, string> = {
+  sha512: 'SHA-512',
+  sha384: 'SHA-384',
+  sha256: 'SHA-256',
+  sha1: 'SHA-1',
+}
+
+/**
+ * Parse an SSRI string into its hashes, skipping malformed entries
+ */
+export function parseIntegrity(integrity: string): IntegrityHash[] {
+  const hashes: IntegrityHash[] = []
+
+  for (const entry of integrity.trim().split(/\s+/)) {
+    const match = entry.match(/^([a-z0-9]+)-([A-Za-z0-9+/]+={0,2})((?:\?[\x21-\x7e]*)*)$/)
+    if (!match) continue
+
+    const [, algorithm, digest, options] = match
+    hashes.push({
+      algorithm,
+      digest,
+      options: options ? options.slice(1).split('?') : [],
+    })
+  }
+
+  return hashes
+}
+
+/**
+ * Check data against every supported algorithm of an SSRI string
+ *
+ * Each algorithm present must match one of its digests. Returns the verified
+ * hash of the strongest algorithm.
+ */
+export async function verifyIntegrity(
+  data: ArrayBuffer | Uint8Array,
+  integrity: string,
+  url: string
+): Promise<string> {
+  const hashes = parseIntegrity(integrity)
+  const algorithms = SUPPORTED_ALGORITHMS.filter((algorithm) =>
+    hashes.some((hash) => hash.algorithm === algorithm)
+  )
+
+  if (algorithms.length === 0) {
+    throw new WebpmError(
+      'INVALID_TARBALL_INTEGRITY',
+      `Tarball "${url}" has no supported integrity hash in its metadata: ${integrity}`
+    )
+  }
+
+  let verified = ''
+  for (const algorithm of algorithms) {
+    const expected = hashes.filter((hash) => hash.algorithm === algorithm).map((hash) => hash.digest)
+    const found = await computeDigest(data, algorithm)
+
+    if (!expected.includes(found)) {
+      throw new TarballIntegrityError({
+        found: `${algorithm}-${found}`,
+        expected: expected.map((digest) => `${algorithm}-${digest}`).join(' '),
+        algorithm,
+        sri: integrity,
+        url,
+      })
+    }
+    verified ||= `${algorithm}-${found}`
+  }
+
+  return verified
+}
+
+/**
+ * Compute the base64 digest of data with WebCrypto
+ */
+export async function computeDigest(
+  data: ArrayBuffer | Uint8Array,
+  algorithm: IntegrityAlgorithm
+): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const hashBuffer = await crypto.subtle.digest(WEB_CRYPTO_ALGORITHMS[algorithm], bytes as Uint8Array<ArrayBuffer>)
+  const hash = new Uint8Array(hashBuffer)
+
+  let binary = ''
+  for (let i = 0; i < hash.length; i++) {
+    binary += String.fromCharCode(hash[i])
+  }
+  return btoa(binary)
+}
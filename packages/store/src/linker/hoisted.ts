@@ -0,0 +1,136 @@
+/**
+ * Hoisted (npm-style) node_modules linker
+ *
+ * Packages are written as real directories without symlinks. Each one is
+ * hoisted to the highest `node_modules` its dependent can resolve it from,
+ * and only nested under the dependent when another version is already
+ * hoisted there (or resolved through there by another package).
+ */
+
+import { logger } from '@webpm/logger'
+import { FileSystemUtils, type FileSystemInterface } from '../filesystem'
+import type { DependencyTreeNode, FetchedDependencyTree } from '../index'
+import { LinkWriter, getRootNodes, type LinkOptions, type LinkResult } from './utils'
+
+export interface NestedPackage {
+  /** Id of the nested package, e.g. "scheduler@0.20.2" */
+  id: string
+  /** Directory the package was written to */
+  path: string
+  /** Id of the package that depends on this version */
+  requiredBy: string
+  /** Id of the version that kept it from being hoisted further up */
+  conflictsWith: string
+}
+
+export interface HoistedLinkResult extends LinkResult {
+  /** Packages that could not be hoisted to the root node_modules */
+  nested: NestedPackage[]
+}
+
+interface ModulesDir {
+  path: string
+  parent: ModulesDir | null
+  packages: Map<string, Placement>
+  // Package ids that packages below this directory resolve through it
+  resolvedThrough: Map<string, string>
+}
+
+interface Placement {
+  node: DependencyTreeNode
+  path: string
+  modulesDir: ModulesDir
+  // Ids of the packages this copy was placed for, up to a root, including its own
+  ancestors: Set<string>
+}
+
+/**
+ * Write a hoisted node_modules layout for the given dependency trees
+ */
+export async function linkHoisted(
+  fs: FileSystemInterface,
+  trees: Array<FetchedDependencyTree | DependencyTreeNode>,
+  options: LinkOptions = {}
+): Promise<HoistedLinkResult> {
+  const nodeModulesDir = FileSystemUtils.joinPath(options.projectDir ?? '/', 'node_modules')
+  const rootDir = createModulesDir(nodeModulesDir, null)
+  const placements: Placement[] = []
+  const nested: NestedPackage[] = []
+
+  const place = (alias: string, node: DependencyTreeNode, modulesDir: ModulesDir, dependent?: Placement) => {
+    const path = FileSystemUtils.joinPath(modulesDir.path, alias)
+    const placement = {
+      node,
+      path,
+      modulesDir: createModulesDir(FileSystemUtils.joinPath(path, 'node_modules'), modulesDir),
+      ancestors: new Set([...(dependent?.ancestors ?? []), node.package.id]),
+    }
+    modulesDir.packages.set(alias, placement)
+    placements.push(placement)
+    return placement
+  }
+
+  // Direct dependencies always take the root, then dependencies are placed breadth-first
+  const queue = getRootNodes(trees).map((root) => place(root.package.name, root, rootDir))
+
+  while (queue.length > 0) {
+    const dependent = queue.shift()!
+
+    for (const [alias, child] of dependent.node.children) {
+      const { id } = child.package
+      let target: ModulesDir | null = null
+      let conflictsWith: string | null = null
+      let resolvedFrom: ModulesDir | null = null
+
+      // Walk up from the dependent's own node_modules while the name is free
+      for (let dir: ModulesDir | null = dependent.modulesDir; dir; dir = dir.parent) {
+        const existing = dir.packages.get(alias)?.node.package.id ?? dir.resolvedThrough.get(alias)
+        if (existing === id && dir.packages.has(alias)) {
+          resolvedFrom = dir
+          break
+        }
+        if (existing && existing !== id) {
+          conflictsWith = existing
+          break
+        }
+        target = dir
+      }
+
+      // A cycle whose versions keep shadowing each other would nest copies forever,
+      // stop once a package repeats in its own ancestor chain
+      if (!resolvedFrom && dependent.ancestors.has(id)) {
+        logger.warn(`Not nesting ${id} under ${dependent.path}, it is already an ancestor in a dependency cycle`)
+        continue
+      }
+
+      const modulesDir = resolvedFrom ?? target!
+      // Packages between the dependent and the resolved location must not shadow this version later
+      for (let dir: ModulesDir | null = dependent.modulesDir; dir && dir !== modulesDir; dir = dir.parent) {
+        dir.resolvedThrough.set(alias, id)
+      }
+      if (resolvedFrom) continue
+
+      const placement = place(alias, child, modulesDir, dependent)
+      queue.push(placement)
+
+      if (modulesDir !== rootDir) {
+        nested.push({ id, path: placement.path, requiredBy: dependent.node.package.id, conflictsWith: conflictsWith! })
+        logger.debug(`Nested ${id} under ${dependent.node.package.id} because ${conflictsWith} is hoisted above it`)
+      }
+    }
+  }
+
+  logger.info(`Linking ${placements.length} packages into ${nodeModulesDir} (${nested.length} nested)`)
+
+  const writer = new LinkWriter(fs, nodeModulesDir)
+  for (const placement of placements) {
+    await writer.writePackage(placement.node, placement.path)
+  }
+
+  logger.info(`Linked ${writer.result.packages} packages (${writer.result.files} files)`)
+  return { ...writer.result, nested }
+}
+
+function createModulesDir(path: string, parent: ModulesDir | null): ModulesDir {
+  return { path, parent, packages: new Map(), resolvedThrough: new Map() }
+}
@@ -0,0 +1,7 @@
+/**
+ * node_modules linkers that materialize dependency trees into a FileSystemInterface
+ */
+
+export type { LinkOptions, LinkResult, NodeLinker } from './utils'
+export * from './isolated'
+export * from './hoisted'
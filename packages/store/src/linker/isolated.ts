@@ -0,0 +1,70 @@
+/**
+ * Isolated (pnpm-style) node_modules linker
+ *
+ * Every package is written once to
+ * `node_modules/.pnpm/<name>@<version>/node_modules/<name>`. Its dependencies
+ * are symlinked next to it in that `node_modules` folder, and direct
+ * dependencies are symlinked into the top-level `node_modules`, so Node-style
+ * resolution from a package's real path only sees what it declared.
+ */
+
+import { logger } from '@webpm/logger'
+import { FileSystemUtils, type FileSystemInterface } from '../filesystem'
+import type { DependencyTreeNode, FetchedDependencyTree, ResolvedPackage } from '../index'
+import { LinkWriter, collectNodes, getRootNodes, type LinkOptions, type LinkResult } from './utils'
+
+/**
+ * Write an isolated node_modules layout for the given dependency trees
+ */
+export async function linkIsolated(
+  fs: FileSystemInterface,
+  trees: Array<FetchedDependencyTree | DependencyTreeNode>,
+  options: LinkOptions = {}
+): Promise<LinkResult> {
+  const nodeModulesDir = FileSystemUtils.joinPath(options.projectDir ?? '/', 'node_modules')
+  const writer = new LinkWriter(fs, nodeModulesDir)
+  const roots = getRootNodes(trees)
+  const nodes = collectNodes(roots)
+
+  logger.info(`Linking ${nodes.size} packages into ${nodeModulesDir}/.pnpm`)
+
+  for (const node of nodes.values()) {
+    await writer.writePackage(node, getVirtualStorePackageDir(nodeModulesDir, node.package))
+
+    // Dependencies are siblings of the package in its virtual store node_modules
+    const dependenciesDir = getVirtualStoreNodeModulesDir(nodeModulesDir, node.package)
+    for (const [alias, child] of node.children) {
+      await writer.symlink(
+        getVirtualStorePackageDir(nodeModulesDir, child.package),
+        FileSystemUtils.joinPath(dependenciesDir, alias)
+      )
+    }
+  }
+
+  for (const root of roots) {
+    await writer.symlink(
+      getVirtualStorePackageDir(nodeModulesDir, root.package),
+      FileSystemUtils.joinPath(nodeModulesDir, root.package.name)
+    )
+  }
+
+  logger.info(
+    `Linked ${writer.result.packages} packages (${writer.result.files} files, ${writer.result.symlinks} symlinks)`
+  )
+  return writer.result
+}
+
+/**
+ * Get the directory name of a package in the virtual store, e.g. `@scope+pkg@1.0.0`
+ */
+export function getVirtualStoreDirName(pkg: Pick<ResolvedPackage, 'name' | 'version'>): string {
+  return `${pkg.name.replace('/', '+')}@${pkg.version}`
+}
+
+function getVirtualStoreNodeModulesDir(nodeModulesDir: string, pkg: ResolvedPackage): string {
+  return FileSystemUtils.joinPath(nodeModulesDir, '.pnpm', getVirtualStoreDirName(pkg), 'node_modules')
+}
+
+function getVirtualStorePackageDir(nodeModulesDir: string, pkg: ResolvedPackage): string {
+  return FileSystemUtils.joinPath(getVirtualStoreNodeModulesDir(nodeModulesDir, pkg), pkg.name)
+}
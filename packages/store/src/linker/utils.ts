@@ -0,0 +1,184 @@
+/**
+ * Shared helpers for writing node_modules layouts into a FileSystemInterface
+ */
+
+import { logger } from '@webpm/logger'
+import {
+  FileSystemError,
+  FileSystemErrorCodes,
+  FileSystemUtils,
+  type FileStats,
+  type FileSystemInterface,
+} from '../filesystem'
+import type { DependencyTreeNode, FetchedDependencyTree } from '../index'
+
+export type NodeLinker = 'isolated' | 'hoisted'
+
+export interface LinkOptions {
+  /** Directory the node_modules folder is created in (defaults to "/") */
+  projectDir?: string
+}
+
+export interface LinkResult {
+  /** Absolute path of the node_modules folder that was written */
+  nodeModulesDir: string
+  /** Number of package directories written */
+  packages: number
+  /** Number of files written into package directories */
+  files: number
+  /** Number of symlinks created */
+  symlinks: number
+}
+
+/**
+ * Keeps track of directories already created during a link, so files of
+ * the same package don't stat their parents again
+ */
+export class LinkWriter {
+  private createdDirs = new Set<string>()
+
+  readonly result: LinkResult
+
+  constructor(
+    private fs: FileSystemInterface,
+    nodeModulesDir: string
+  ) {
+    this.result = { nodeModulesDir, packages: 0, files: 0, symlinks: 0 }
+  }
+
+  /**
+   * Write the extracted files of a fetched package into a directory
+   */
+  async writePackage(node: DependencyTreeNode, packageDir: string): Promise<void> {
+    if (!node.fetched) {
+      logger.warn(`Package ${node.package.id} was not fetched, skipping ${packageDir}`)
+      return
+    }
+
+    await this.remove(packageDir)
+    await this.ensureDir(packageDir)
+
+    for (const file of node.fetched.extractedFiles.files) {
+      if (!file.name) continue
+
+      const filePath = FileSystemUtils.joinPath(packageDir, file.name)
+      await this.ensureDir(FileSystemUtils.getParentPath(filePath))
+
+      // Link targets were checked to stay inside the package on extraction
+      if (file.type === 'symlink') {
+        if (this.fs.symlink && file.linkname) {
+          await this.fs.symlink(file.linkname, filePath)
+          this.result.symlinks++
+        } else {
+          logger.warn(`Filesystem does not support symlinks, skipping ${filePath}`)
+        }
+        continue
+      }
+
+      await this.fs.writeFile(filePath, file.buffer, { mode: file.mode })
+      this.result.files++
+    }
+
+    this.result.packages++
+  }
+
+  /**
+   * Create a relative symlink at linkPath pointing to targetPath
+   */
+  async symlink(targetPath: string, linkPath: string): Promise<void> {
+    if (!this.fs.symlink) {
+      throw new FileSystemError(
+        `EPERM: filesystem does not support symlinks, symlink '${targetPath}' -> '${linkPath}'`,
+        FileSystemErrorCodes.EPERM,
+        -1,
+        linkPath,
+        'symlink'
+      )
+    }
+
+    const linkDir = FileSystemUtils.getParentPath(linkPath)
+    await this.remove(linkPath)
+    await this.ensureDir(linkDir)
+    await this.fs.symlink(getRelativePath(linkDir, targetPath), linkPath)
+    this.result.symlinks++
+  }
+
+  /**
+   * Create a directory and its parents if they don't exist yet
+   */
+  async ensureDir(dirPath: string): Promise<void> {
+    if (this.createdDirs.has(dirPath)) return
+    await FileSystemUtils.ensureDir(this.fs, dirPath)
+    this.createdDirs.add(dirPath)
+  }
+
+  /**
+   * Remove a file, symlink or directory left over from a previous link
+   */
+  private async remove(path: string): Promise<void> {
+    const lstat = this.fs.lstat?.bind(this.fs) ?? this.fs.stat.bind(this.fs)
+
+    let stats: FileStats
+    try {
+      stats = await lstat(path)
+    } catch (error) {
+      if (error instanceof FileSystemError && error.code === FileSystemErrorCodes.ENOENT) return
+      throw error
+    }
+
+    // Symlinks are unlinked, never followed into the directory they point to
+    if (stats.isDirectory()) {
+      await FileSystemUtils.removeDir(this.fs, path)
+      this.forgetDirs(path)
+    } else {
+      await this.fs.unlink(path)
+    }
+  }
+
+  private forgetDirs(path: string): void {
+    for (const dir of this.createdDirs) {
+      if (dir === path || dir.startsWith(`${path}/`)) {
+        this.createdDirs.delete(dir)
+      }
+    }
+  }
+}
+
+/**
+ * Get the root nodes of resolved or fetched dependency trees
+ */
+export function getRootNodes(trees: Array<FetchedDependencyTree | DependencyTreeNode>): DependencyTreeNode[] {
+  return trees.map((tree) => ('root' in tree ? tree.root : tree))
+}
+
+/**
+ * Collect every node of the given trees once, keyed by package id
+ */
+export function collectNodes(roots: DependencyTreeNode[]): Map<string, DependencyTreeNode> {
+  const nodes = new Map<string, DependencyTreeNode>()
+  const visit = (node: DependencyTreeNode) => {
+    if (nodes.has(node.package.id)) return
+    nodes.set(node.package.id, node)
+    for (const child of node.children.values()) {
+      visit(child)
+    }
+  }
+  roots.forEach(visit)
+  return nodes
+}
+
+/**
+ * Get the relative path from a directory to a target path
+ */
+export function getRelativePath(fromDir: string, targetPath: string): string {
+  const from = FileSystemUtils.normalizePath(fromDir).split('/').filter(Boolean)
+  const to = FileSystemUtils.normalizePath(targetPath).split('/').filter(Boolean)
+
+  let common = 0
+  while (common < from.length && common < to.length && from[common] === to[common]) {
+    common++
+  }
+
+  const segments = [...Array(from.length - common).fill('..'), ...to.slice(common)]
+  return segments.length > 0 ? segments.join('/') : '.'
+}
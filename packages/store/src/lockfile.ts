@@ -0,0 +1,436 @@
+/**
+ * pnpm-compatible lockfile generation
+ *
+ * Turns resolved dependency graphs into a `pnpm-lock.yaml` (lockfile v9)
+ * document, or the same structure as JSON for browser storage, and reads
+ * them back into dependency graphs for frozen-lockfile installs.
+ */
+
+import { Document, isMap, isPair, isScalar, parse, visit } from 'yaml'
+import { BrokenLockfileError, OutdatedLockfileError, type LockfileMismatch } from '@webpm/error'
+import type {
+  DependencyTreeNode,
+  FetchedDependencyTree,
+  PackageJsonManifest,
+  ResolvedPackage,
+} from './index'
+
+export const LOCKFILE_VERSION = '9.0'
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org/'
+
+export interface LockfileSettings {
+  autoInstallPeers: boolean
+  excludeLinksFromLockfile: boolean
+}
+
+export interface LockfileResolution {
+  integrity?: string
+  tarball?: string
+}
+
+export interface LockfileDependency {
+  specifier: string
+  version: string
+}
+
+export interface LockfileImporter {
+  dependencies?: Record<string, LockfileDependency>
+  devDependencies?: Record<string, LockfileDependency>
+  optionalDependencies?: Record<string, LockfileDependency>
+}
+
+export interface LockfilePackageInfo {
+  resolution: LockfileResolution
+  engines?: Record<string, string>
+  cpu?: string[]
+  os?: string[]
+  hasBin?: true
+  deprecated?: string
+  peerDependencies?: Record<string, string>
+  peerDependenciesMeta?: Record<string, { optional?: boolean }>
+}
+
+export interface LockfileSnapshot {
+  dependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+  optional?: true
+}
+
+export interface Lockfile {
+  lockfileVersion: string
+  settings: LockfileSettings
+  importers: Record<string, LockfileImporter>
+  packages: Record<string, LockfilePackageInfo>
+  snapshots: Record<string, LockfileSnapshot>
+}
+
+export interface CreateLockfileOptions {
+  /** Registry the packages were resolved from, used to omit default tarball URLs */
+  registry?: string
+  autoInstallPeers?: boolean
+}
+
+export type LockfileFormat = 'yaml' | 'json'
+
+export interface LockedTreesOptions {
+  /** Registry to build tarball URLs for packages that only record an integrity */
+  registry?: string
+  includeDevDependencies?: boolean
+  includeOptionalDependencies?: boolean
+}
+
+type DependencyField = keyof LockfileImporter
+
+/**
+ * Create a lockfile from the dependency trees resolved for a package.json
+ */
+export function createLockfile(
+  packageJson: PackageJsonManifest,
+  trees: Array<FetchedDependencyTree | DependencyTreeNode>,
+  options: CreateLockfileOptions = {}
+): Lockfile {
+  const registry = options.registry ?? DEFAULT_REGISTRY
+  const roots = trees.map((tree) => ('root' in tree ? tree.root : tree))
+  const rootsByName = new Map(roots.map((root) => [root.package.name, root]))
+
+  const importer: LockfileImporter = {}
+  const requiredIds = new Set<string>()
+  const allNodes = new Map<string, DependencyTreeNode>()
+
+  const fields: DependencyField[] = ['dependencies', 'devDependencies', 'optionalDependencies']
+  for (const field of fields) {
+    const specifiers = packageJson[field] ?? {}
+    for (const [name, specifier] of sortedEntries(specifiers)) {
+      const root = rootsByName.get(name)
+      if (!root) continue
+
+      importer[field] ??= {}
+      importer[field]![name] = { specifier, version: root.package.version }
+
+      collectNodes(root, allNodes)
+      if (field !== 'optionalDependencies') {
+        markRequired(root, requiredIds)
+      }
+    }
+  }
+
+  const packages: Record<string, LockfilePackageInfo> = {}
+  const snapshots: Record<string, LockfileSnapshot> = {}
+
+  for (const [id, node] of sortedEntries(Object.fromEntries(allNodes))) {
+    packages[id] = createPackageInfo(node.package, registry)
+    snapshots[id] = createSnapshot(node, requiredIds.has(id))
+  }
+
+  return {
+    lockfileVersion: LOCKFILE_VERSION,
+    settings: {
+      autoInstallPeers: options.autoInstallPeers ?? false,
+      excludeLinksFromLockfile: false,
+    },
+    importers: { '.': importer },
+    packages,
+    snapshots,
+  }
+}
+
+/**
+ * Serialize a lockfile as pnpm-lock.yaml text or as JSON
+ */
+export function serializeLockfile(lockfile: Lockfile, format: LockfileFormat = 'yaml'): string {
+  if (format === 'json') {
+    return `${JSON.stringify(lockfile, null, 2)}\n`
+  }
+
+  const doc = new Document(lockfile)
+
+  // Mirror pnpm's layout: flow style for resolutions and empty maps,
+  // blank lines between top-level sections and their entries
+  visit(doc, {
+    Pair(_key, pair, path) {
+      const depth = path.filter((node) => isMap(node)).length
+      if (depth === 1 && isScalar(pair.key) && pair.key.value !== 'lockfileVersion') {
+        pair.key.spaceBefore = true
+      }
+      if (depth === 2 && isScalar(pair.key) && isSpacedSection(path)) {
+        pair.key.spaceBefore = true
+      }
+      if (isScalar(pair.key) && pair.key.value === 'resolution' && isMap(pair.value)) {
+        pair.value.flow = true
+      }
+      if (isMap(pair.value) && pair.value.items.length === 0) {
+        pair.value.flow = true
+      }
+    },
+  })
+
+  return doc
+    .toString({ singleQuote: true, lineWidth: 0, flowCollectionPadding: false })
+    .replace(/^[ \t]+$/gm, '')
+}
+
+/**
+ * Parse pnpm-lock.yaml text, or the JSON written by serializeLockfile
+ */
+export function parseLockfile(text: string): Lockfile {
+  let lockfile: Partial<Lockfile> | null
+  try {
+    // JSON is a subset of YAML, so one parser reads both formats
+    lockfile = parse(text) as Partial<Lockfile> | null
+  } catch (error) {
+    throw new BrokenLockfileError(error instanceof Error ? error.message : String(error))
+  }
+  if (!lockfile || typeof lockfile !== 'object') {
+    throw new BrokenLockfileError('expected a lockfile document')
+  }
+  assertLockfileVersion(lockfile.lockfileVersion)
+
+  return {
+    lockfileVersion: lockfile.lockfileVersion!,
+    settings: lockfile.settings ?? { autoInstallPeers: false, excludeLinksFromLockfile: false },
+    importers: lockfile.importers ?? {},
+    packages: lockfile.packages ?? {},
+    snapshots: lockfile.snapshots ?? {},
+  }
+}
+
+/**
+ * Compare the importer specifiers of a lockfile with a package.json
+ */
+export function getLockfileMismatches(
+  packageJson: PackageJsonManifest,
+  lockfile: Lockfile,
+  options: LockedTreesOptions = {}
+): LockfileMismatch[] {
+  const importer = lockfile.importers['.'] ?? {}
+  const mismatches: LockfileMismatch[] = []
+
+  for (const field of getLockedFields(options)) {
+    const wantedSpecifiers = packageJson[field] ?? {}
+    const lockedDependencies = importer[field] ?? {}
+
+    for (const [alias, wanted] of sortedEntries(wantedSpecifiers)) {
+      const locked = lockedDependencies[alias]?.specifier
+      // Optional dependencies that failed to install are never written to the lockfile
+      if (locked == null && field === 'optionalDependencies') continue
+      if (locked !== wanted) {
+        mismatches.push({ field, alias, wanted, locked })
+      }
+    }
+    for (const [alias, { specifier }] of sortedEntries(lockedDependencies)) {
+      if (!(alias in wantedSpecifiers)) {
+        mismatches.push({ field, alias, locked: specifier })
+      }
+    }
+  }
+
+  return mismatches
+}
+
+/**
+ * Rebuild the dependency trees of a package.json from a lockfile, without
+ * requesting any metadata from the registry
+ *
+ * Trees are keyed by the alias of their root dependency. Throws an
+ * OutdatedLockfileError when the lockfile does not match the package.json.
+ */
+export function createTreesFromLockfile(
+  packageJson: PackageJsonManifest,
+  lockfile: Lockfile,
+  options: LockedTreesOptions = {}
+): Map<string, DependencyTreeNode> {
+  assertLockfileVersion(lockfile.lockfileVersion)
+
+  const mismatches = getLockfileMismatches(packageJson, lockfile, options)
+  if (mismatches.length > 0) {
+    throw new OutdatedLockfileError(mismatches)
+  }
+
+  const registry = options.registry ?? DEFAULT_REGISTRY
+  const importer = lockfile.importers['.'] ?? {}
+  const nodes = new Map<string, DependencyTreeNode>()
+  const trees = new Map<string, DependencyTreeNode>()
+
+  for (const field of getLockedFields(options)) {
+    for (const [alias, { version }] of Object.entries(importer[field] ?? {})) {
+      trees.set(alias, createLockedNode(alias, version, 0, lockfile, registry, nodes))
+    }
+  }
+
+  return trees
+}
+
+function getLockedFields(options: LockedTreesOptions): DependencyField[] {
+  const fields: DependencyField[] = ['dependencies']
+  if (options.includeDevDependencies) fields.push('devDependencies')
+  if (options.includeOptionalDependencies ?? true) fields.push('optionalDependencies')
+  return fields
+}
+
+function assertLockfileVersion(version: unknown): void {
+  if (version == null) {
+    throw new BrokenLockfileError('lockfileVersion is missing')
+  }
+  if (String(version).split('.')[0] !== LOCKFILE_VERSION.split('.')[0]) {
+    throw new BrokenLockfileError(`lockfileVersion ${version} is not supported, expected ${LOCKFILE_VERSION}`)
+  }
+}
+
+/**
+ * Create the node for a locked dependency reference and all of its dependencies
+ *
+ * References are either a version (`1.0.0`), an aliased dependency path
+ * (`string-width@4.2.3`), and may carry a peer suffix (`1.0.0(react@18.2.0)`).
+ */
+function createLockedNode(
+  alias: string,
+  reference: string,
+  depth: number,
+  lockfile: Lockfile,
+  registry: string,
+  nodes: Map<string, DependencyTreeNode>
+): DependencyTreeNode {
+  const snapshotKey = reference.replace(/\(.*$/, '').includes('@') ? reference : `${alias}@${reference}`
+  const existing = nodes.get(snapshotKey)
+  if (existing) return existing
+
+  const packageKey = snapshotKey.replace(/\(.*$/, '')
+  const packageInfo = lockfile.packages[packageKey]
+  const snapshot = lockfile.snapshots[snapshotKey]
+  if (!packageInfo) {
+    throw new BrokenLockfileError(`${packageKey} is referenced but has no entry in packages`)
+  }
+  if (!snapshot) {
+    throw new BrokenLockfileError(`${snapshotKey} is referenced but has no entry in snapshots`)
+  }
+
+  const separator = packageKey.lastIndexOf('@')
+  const name = packageKey.slice(0, separator)
+  const version = packageKey.slice(separator + 1)
+  const tarball = packageInfo.resolution.tarball ?? getDefaultTarballUrl(name, version, registry)
+  const dependencies = snapshot.dependencies ?? {}
+  const optionalDependencies = snapshot.optionalDependencies ?? {}
+
+  const node: DependencyTreeNode = {
+    package: {
+      id: packageKey,
+      name,
+      version,
+      resolution: {
+        type: 'npm',
+        tarball,
+        integrity: packageInfo.resolution.integrity,
+      },
+      dependencies,
+      devDependencies: {},
+      peerDependencies: packageInfo.peerDependencies ?? {},
+      optionalDependencies,
+      manifest: {
+        name,
+        version,
+        dependencies,
+        optionalDependencies,
+        peerDependencies: packageInfo.peerDependencies,
+        dist: { tarball, integrity: packageInfo.resolution.integrity },
+      },
+    },
+    children: new Map(),
+    depth,
+    installable: true,
+  }
+  // Register before visiting children so circular references resolve to this node
+  nodes.set(snapshotKey, node)
+
+  for (const [childAlias, childReference] of Object.entries({ ...dependencies, ...optionalDependencies })) {
+    node.children.set(childAlias, createLockedNode(childAlias, childReference, depth + 1, lockfile, registry, nodes))
+  }
+
+  return node
+}
+
+function isSpacedSection(path: readonly unknown[]): boolean {
+  const sectionPair = path.find((node) => isPair(node))
+  if (!isPair(sectionPair) || !isScalar(sectionPair.key)) return false
+  return ['importers', 'packages', 'snapshots'].includes(String(sectionPair.key.value))
+}
+
+function collectNodes(node: DependencyTreeNode, nodes: Map<string, DependencyTreeNode>): void {
+  if (nodes.has(node.package.id)) return
+  nodes.set(node.package.id, node)
+  for (const child of node.children.values()) {
+    collectNodes(child, nodes)
+  }
+}
+
+/**
+ * Mark every package reachable through non-optional edges
+ */
+function markRequired(node: DependencyTreeNode, required: Set<string>): void {
+  if (required.has(node.package.id)) return
+  required.add(node.package.id)
+  for (const [alias, child] of node.children) {
+    if (alias in node.package.optionalDependencies) continue
+    markRequired(child, required)
+  }
+}
+
+function createPackageInfo(pkg: ResolvedPackage, registry: string): LockfilePackageInfo {
+  const manifest = pkg.manifest as typeof pkg.manifest & {
+    engines?: Record<string, string>
+    cpu?: string[]
+    os?: string[]
+    bin?: string | Record<string, string>
+    deprecated?: string
+    peerDependenciesMeta?: Record<string, { optional?: boolean }>
+  }
+
+  const resolution: LockfileResolution = {}
+  if (pkg.resolution.integrity) {
+    resolution.integrity = pkg.resolution.integrity
+  }
+  if (!pkg.resolution.integrity || pkg.resolution.tarball !== getDefaultTarballUrl(pkg.name, pkg.version, registry)) {
+    resolution.tarball = pkg.resolution.tarball
+  }
+
+  const info: LockfilePackageInfo = { resolution }
+  if (manifest.engines && Object.keys(manifest.engines).length > 0) info.engines = manifest.engines
+  if (manifest.cpu?.length) info.cpu = manifest.cpu
+  if (manifest.os?.length) info.os = manifest.os
+  if (manifest.bin) info.hasBin = true
+  if (manifest.deprecated) info.deprecated = manifest.deprecated
+  if (Object.keys(pkg.peerDependencies).length > 0) {
+    info.peerDependencies = Object.fromEntries(sortedEntries(pkg.peerDependencies))
+  }
+  if (manifest.peerDependenciesMeta) info.peerDependenciesMeta = manifest.peerDependenciesMeta
+
+  return info
+}
+
+function createSnapshot(node: DependencyTreeNode, required: boolean): LockfileSnapshot {
+  const snapshot: LockfileSnapshot = {}
+
+  for (const [alias, child] of sortedEntries(Object.fromEntries(node.children))) {
+    const field = alias in node.package.optionalDependencies ? 'optionalDependencies' : 'dependencies'
+    snapshot[field] ??= {}
+    snapshot[field]![alias] = child.package.version
+  }
+  if (!required) {
+    snapshot.optional = true
+  }
+
+  return snapshot
+}
+
+/**
+ * Get the tarball URL the registry serves for a package by default
+ */
+export function getDefaultTarballUrl(name: string, version: string, registry = DEFAULT_REGISTRY): string {
+  const base = registry.endsWith('/') ? registry : `${registry}/`
+  const unscopedName = name.startsWith('@') ? name.split('/')[1] : name
+  return `${base}${name}/-/${unscopedName}-${version}.tgz`
+}
+
+function sortedEntries<T>(record: Record<string, T>): Array<[string, T]> {
+  return Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+}
@@ -0,0 +1,7 @@
+/**
+ * Text files imported with `?raw`, inlined as strings by bunchee and Vite
+ */
+declare module '*?raw' {
+  const content: string
+  export default content
+}
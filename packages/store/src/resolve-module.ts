@@ -0,0 +1,484 @@
+/**
+ * Node module resolution over a FileSystemInterface
+ *
+ * Answers which file a specifier loads from a given file, following Node's
+ * CommonJS and ESM algorithms: "exports" and "imports" maps with condition
+ * sets, "main", the bundler "module" field, the "browser" field, extension
+ * probing and directory indexes. Results are real paths, so lookups from a
+ * resolved file see its dependencies in an isolated node_modules layout.
+ */
+
+import { ModuleResolutionError, type ModuleResolutionErrorCode } from '@webpm/error'
+import type { BaseManifest, PackageExports, PackageExportsTarget } from '@webpm/types'
+import { FileSystemUtils, type FileSystemInterface } from './filesystem'
+
+export interface ResolveModuleOptions {
+  /**
+   * Conditions matched against "exports" and "imports", "default" always
+   * matches. Resolution follows CommonJS when "require" is included and ESM
+   * otherwise, and "browser" enables the browser field
+   * (defaults to ['browser', 'import'])
+   */
+  conditions?: string[]
+  /** Extensions probed for paths not resolved through "exports" (defaults to .js, .mjs, .cjs and .json) */
+  extensions?: string[]
+  /** Manifest fields read for the entry point of a package without "exports" */
+  mainFields?: string[]
+}
+
+interface PackageScope {
+  dir: string
+  manifest: BaseManifest
+}
+
+const DEFAULT_CONDITIONS = ['browser', 'import']
+const DEFAULT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.json']
+
+/**
+ * Resolve a specifier imported or required from a file to the real path of
+ * the file it loads
+ *
+ * Paths that are not resolved through "exports" or "imports" are probed
+ * with extensions and directory indexes in both modes, the way bundlers do,
+ * since browser code commonly imports `lodash-es/map` without an extension.
+ *
+ * @returns The resolved path, or false when the browser field replaces the module with an empty one
+ * @throws ModuleResolutionError when the specifier can't be resolved
+ */
+export async function resolveModule(
+  fs: FileSystemInterface,
+  specifier: string,
+  fromFile: string,
+  options: ResolveModuleOptions = {}
+): Promise<string | false> {
+  return new ModuleResolver(fs, specifier, fromFile, options).resolve()
+}
+
+function isPathSpecifier(specifier: string): boolean {
+  return (
+    specifier === '.' ||
+    specifier === '..' ||
+    specifier.startsWith('./') ||
+    specifier.startsWith('../') ||
+    specifier.startsWith('/')
+  )
+}
+
+/**
+ * Split a bare specifier into its package name and "./"-prefixed subpath
+ */
+function parsePackageSpecifier(specifier: string): { name: string; subpath: string } | null {
+  const segments = specifier.split('/')
+  const nameLength = specifier.startsWith('@') ? 2 : 1
+  const name = segments.slice(0, nameLength).join('/')
+
+  if (segments.length < nameLength || segments.slice(0, nameLength).some((segment) => !segment)) {
+    return null
+  }
+
+  return { name, subpath: ['.', ...segments.slice(nameLength)].join('/') }
+}
+
+/**
+ * Normalize "exports" to a map of subpaths, sugar like `"exports": "./index.js"`
+ * or a condition map applies to "."
+ */
+export function getExportsMap(exports: PackageExports): Record<string, PackageExportsTarget> {
+  if (typeof exports === 'string' || exports === null || Array.isArray(exports)) {
+    return { '.': exports }
+  }
+  return Object.keys(exports).some((key) => key.startsWith('.')) ? exports : { '.': exports }
+}
+
+/**
+ * Pick the target of an "exports" or "imports" entry for a set of conditions
+ * without checking the filesystem, the first path of a fallback array wins
+ *
+ * @returns The target path, null when the entry excludes it, or undefined when no condition matches
+ */
+export function getConditionalTarget(
+  target: PackageExportsTarget,
+  conditions: string[] = DEFAULT_CONDITIONS
+): string | null | undefined {
+  if (target === null || typeof target === 'string') {
+    return target
+  }
+
+  if (Array.isArray(target)) {
+    for (const fallback of target) {
+      const resolved = getConditionalTarget(fallback, conditions)
+      if (resolved !== undefined) return resolved
+    }
+    return undefined
+  }
+
+  for (const [condition, conditionTarget] of Object.entries(target)) {
+    if (condition !== 'default' && !conditions.includes(condition)) continue
+
+    const resolved = getConditionalTarget(conditionTarget, conditions)
+    if (resolved !== undefined) return resolved
+  }
+  return undefined
+}
+
+class ModuleResolver {
+  private manifests = new Map<string, BaseManifest | null>()
+  private conditions: Set<string>
+  private extensions: string[]
+  private mainFields: string[]
+  private browser: boolean
+
+  constructor(
+    private fs: FileSystemInterface,
+    private specifier: string,
+    private importer: string,
+    options: ResolveModuleOptions
+  ) {
+    this.conditions = new Set(options.conditions ?? DEFAULT_CONDITIONS)
+    this.extensions = options.extensions ?? DEFAULT_EXTENSIONS
+    this.browser = this.conditions.has('browser')
+
+    const esm = !this.conditions.has('require')
+    this.mainFields = options.mainFields ?? [
+      ...(this.browser ? ['browser'] : []),
+      ...(esm ? ['module'] : []),
+      'main',
+    ]
+  }
+
+  async resolve(): Promise<string | false> {
+    const fromDir = FileSystemUtils.getParentPath(this.importer)
+    let specifier = this.specifier
+    let baseDir = fromDir
+
+    // The browser field of the importing package can replace or ignore modules
+    if (this.browser && !isPathSpecifier(specifier) && !specifier.startsWith('#')) {
+      const scope = await this.findScope(fromDir)
+      const browserMap = scope?.manifest.browser
+      if (scope && typeof browserMap === 'object' && Object.hasOwn(browserMap, specifier)) {
+        const replacement = browserMap[specifier]
+        if (replacement === false) return false
+        specifier = replacement
+        baseDir = isPathSpecifier(replacement) ? scope.dir : fromDir
+      }
+    }
+
+    let resolved: string
+    if (specifier.startsWith('#')) {
+      resolved = await this.resolveImports(specifier, fromDir)
+    } else if (isPathSpecifier(specifier)) {
+      resolved = this.assertFound(
+        await this.resolveFileOrDirectory(FileSystemUtils.joinPath(baseDir, specifier))
+      )
+    } else {
+      resolved = await this.resolvePackage(specifier, baseDir)
+    }
+
+    const realPath = await this.realpath(resolved)
+    if (!this.browser) {
+      return realPath
+    }
+
+    const mapped = await this.applyBrowserFileMap(realPath)
+    return mapped === false || mapped === realPath ? mapped : this.realpath(mapped)
+  }
+
+  /**
+   * Find the closest package.json above a directory, without leaving the package
+   */
+  private async findScope(dir: string): Promise<PackageScope | null> {
+    for (;;) {
+      if (FileSystemUtils.getBasename(dir) === 'node_modules') {
+        return null
+      }
+
+      const manifest = await this.readManifest(dir)
+      if (manifest) {
+        return { dir, manifest }
+      }
+
+      if (dir === '/') {
+        return null
+      }
+      dir = FileSystemUtils.getParentPath(dir)
+    }
+  }
+
+  /**
+   * Resolve a bare specifier through node_modules directories, starting at
+   * fromDir and walking up to the root
+   */
+  private async resolvePackage(specifier: string, fromDir: string): Promise<string> {
+    const parsed = parsePackageSpecifier(specifier)
+    if (!parsed) {
+      throw this.createError('MODULE_NOT_FOUND', `"${specifier}" is not a valid package name`)
+    }
+
+    // A package can import itself by name through its own "exports"
+    const scope = await this.findScope(fromDir)
+    if (scope?.manifest.name === parsed.name && scope.manifest.exports !== undefined) {
+      return this.resolveExports(scope.dir, scope.manifest.exports, parsed.subpath)
+    }
+
+    let dir = fromDir
+    for (;;) {
+      if (FileSystemUtils.getBasename(dir) !== 'node_modules') {
+        const packageDir = FileSystemUtils.joinPath(dir, 'node_modules', parsed.name)
+        const manifest = await this.readManifest(packageDir)
+
+        if (manifest || (await this.isDirectory(packageDir))) {
+          return this.resolvePackageSubpath(packageDir, manifest, parsed.subpath)
+        }
+      }
+
+      if (dir === '/') {
+        throw this.createError('MODULE_NOT_FOUND', `package "${parsed.name}" is not installed`)
+      }
+      dir = FileSystemUtils.getParentPath(dir)
+    }
+  }
+
+  private async resolvePackageSubpath(
+    packageDir: string,
+    manifest: BaseManifest | null,
+    subpath: string
+  ): Promise<string> {
+    if (manifest?.exports !== undefined) {
+      return this.resolveExports(packageDir, manifest.exports, subpath)
+    }
+
+    const path = FileSystemUtils.joinPath(packageDir, subpath)
+    return this.assertFound(
+      subpath === '.' ? await this.resolveDirectory(path) : await this.resolveFileOrDirectory(path)
+    )
+  }
+
+  private async resolveExports(packageDir: string, exports: PackageExports, subpath: string): Promise<string> {
+    const resolved = await this.resolveMapEntry(getExportsMap(exports), subpath, packageDir, false)
+
+    if (resolved == null) {
+      throw this.createError(
+        'PACKAGE_PATH_NOT_EXPORTED',
+        subpath === '.' ? 'the package has no main export' : `subpath "${subpath}" is not exported`
+      )
+    }
+    return resolved
+  }
+
+  private async resolveImports(specifier: string, fromDir: string): Promise<string> {
+    const scope = await this.findScope(fromDir)
+    const imports = scope?.manifest.imports
+    const resolved = scope && imports && specifier !== '#' && !specifier.startsWith('#/')
+      ? await this.resolveMapEntry(imports, specifier, scope.dir, true)
+      : undefined
+
+    if (resolved == null) {
+      throw this.createError('PACKAGE_IMPORT_NOT_DEFINED', `"${specifier}" is not defined in "imports"`)
+    }
+    return resolved
+  }
+
+  /**
+   * Match a key against an "exports" or "imports" map, preferring exact keys
+   * over patterns and longer pattern prefixes over shorter ones
+   */
+  private async resolveMapEntry(
+    map: Record<string, PackageExportsTarget>,
+    key: string,
+    packageDir: string,
+    isImports: boolean
+  ): Promise<string | null | undefined> {
+    if (Object.hasOwn(map, key) && !key.includes('*')) {
+      return this.resolveTarget(map[key], '', packageDir, isImports)
+    }
+
+    let bestKey: string | undefined
+    let bestMatch = ''
+    for (const pattern of Object.keys(map)) {
+      const starIndex = pattern.indexOf('*')
+      if (starIndex === -1 || starIndex !== pattern.lastIndexOf('*')) continue
+
+      const prefix = pattern.slice(0, starIndex)
+      const suffix = pattern.slice(starIndex + 1)
+      if (key === prefix || !key.startsWith(prefix) || !key.endsWith(suffix) || key.length < pattern.length) {
+        continue
+      }
+
+      if (bestKey === undefined || comparePatternKeys(pattern, bestKey) < 0) {
+        bestKey = pattern
+        bestMatch = key.slice(prefix.length, key.length - suffix.length)
+      }
+    }
+
+    return bestKey === undefined ? undefined : this.resolveTarget(map[bestKey], bestMatch, packageDir, isImports)
+  }
+
+  /**
+   * Resolve an "exports" or "imports" target, undefined when no condition matches
+   * and null when the target excludes the subpath
+   */
+  private async resolveTarget(
+    target: PackageExportsTarget,
+    patternMatch: string,
+    packageDir: string,
+    isImports: boolean
+  ): Promise<string | null | undefined> {
+    if (target === null) {
+      return null
+    }
+
+    if (typeof target === 'string') {
+      if (!target.startsWith('./')) {
+        // "imports" may map to another package
+        if (isImports && !target.startsWith('../') && !target.startsWith('/')) {
+          return this.resolvePackage(target.replaceAll('*', patternMatch), packageDir)
+        }
+        throw this.createError('INVALID_PACKAGE_TARGET', `target "${target}" must start with "./"`)
+      }
+
+      const path = target.replaceAll('*', patternMatch)
+      const segments = path.slice(2).split(/[\\/]/)
+      if (segments.some((segment) => segment === '..' || segment === '.' || segment === 'node_modules')) {
+        throw this.createError('INVALID_PACKAGE_TARGET', `target "${path}" leaves the package`)
+      }
+
+      const resolved = FileSystemUtils.joinPath(packageDir, path)
+      if (!(await this.isFile(resolved))) {
+        throw this.createError('MODULE_NOT_FOUND', `${resolved} does not exist`)
+      }
+      return resolved
+    }
+
+    if (Array.isArray(target)) {
+      let lastError: unknown
+      for (const fallback of target) {
+        try {
+          const resolved = await this.resolveTarget(fallback, patternMatch, packageDir, isImports)
+          if (resolved !== undefined) return resolved
+        } catch (error) {
+          if (!(error instanceof ModuleResolutionError) || error.code !== 'ERR_WEBPM_INVALID_PACKAGE_TARGET') {
+            throw error
+          }
+          lastError = error
+        }
+      }
+      if (lastError) throw lastError
+      return undefined
+    }
+
+    for (const [condition, conditionTarget] of Object.entries(target)) {
+      if (condition !== 'default' && !this.conditions.has(condition)) continue
+
+      const resolved = await this.resolveTarget(conditionTarget, patternMatch, packageDir, isImports)
+      if (resolved !== undefined) return resolved
+    }
+    return undefined
+  }
+
+  /**
+   * Replace a resolved file through the browser field of its package
+   */
+  private async applyBrowserFileMap(path: string): Promise<string | false> {
+    const scope = await this.findScope(FileSystemUtils.getParentPath(path))
+    const browserMap = scope?.manifest.browser
+    if (!scope || typeof browserMap !== 'object') {
+      return path
+    }
+
+    for (const [key, replacement] of Object.entries(browserMap)) {
+      if (!key.startsWith('.')) continue
+
+      const keyPath = await this.resolveFile(FileSystemUtils.joinPath(scope.dir, key))
+      if (!keyPath || (await this.realpath(keyPath)) !== path) continue
+
+      if (replacement === false) return false
+      return this.assertFound(await this.resolveFileOrDirectory(FileSystemUtils.joinPath(scope.dir, replacement)))
+    }
+    return path
+  }
+
+  private async resolveFileOrDirectory(path: string): Promise<string | undefined> {
+    return (await this.resolveFile(path)) ?? (await this.resolveDirectory(path))
+  }
+
+  private async resolveFile(path: string): Promise<string | undefined> {
+    for (const candidate of [path, ...this.extensions.map((extension) => `${path}${extension}`)]) {
+      if (await this.isFile(candidate)) return candidate
+    }
+    return undefined
+  }
+
+  /**
+   * Resolve a directory through the main fields of its package.json, then its index
+   */
+  private async resolveDirectory(dir: string): Promise<string | undefined> {
+    const manifest = await this.readManifest(dir)
+
+    for (const field of this.mainFields) {
+      const main = (manifest as Record<string, unknown> | null)?.[field]
+      if (typeof main !== 'string') continue
+
+      const mainPath = FileSystemUtils.joinPath(dir, main)
+      if (mainPath === dir) continue
+
+      const resolved = await this.resolveFileOrDirectory(mainPath)
+      if (resolved) return resolved
+    }
+
+    return this.resolveFile(FileSystemUtils.joinPath(dir, 'index'))
+  }
+
+  private async readManifest(dir: string): Promise<BaseManifest | null> {
+    if (!this.manifests.has(dir)) {
+      let manifest: BaseManifest | null = null
+      try {
+        const text = await this.fs.readFile(FileSystemUtils.joinPath(dir, 'package.json'), { encoding: 'utf8' })
+        manifest = JSON.parse(text as string) as BaseManifest
+      } catch {
+        // Missing or unreadable package.json, the directory is not a package scope
+      }
+      this.manifests.set(dir, manifest)
+    }
+    return this.manifests.get(dir)!
+  }
+
+  private async isFile(path: string): Promise<boolean> {
+    try {
+      return (await this.fs.stat(path)).isFile()
+    } catch {
+      return false
+    }
+  }
+
+  private async isDirectory(path: string): Promise<boolean> {
+    try {
+      return (await this.fs.stat(path)).isDirectory()
+    } catch {
+      return false
+    }
+  }
+
+  private async realpath(path: string): Promise<string> {
+    return this.fs.realpath ? this.fs.realpath(path) : path
+  }
+
+  private assertFound(path: string | undefined): string {
+    if (!path) {
+      throw this.createError('MODULE_NOT_FOUND', 'no matching file or directory index')
+    }
+    return path
+  }
+
+  private createError(code: ModuleResolutionErrorCode, message: string): ModuleResolutionError {
+    return new ModuleResolutionError(code, { specifier: this.specifier, importer: this.importer, message })
+  }
+}
+
+/**
+ * Order pattern keys the way Node does: longer prefixes before the "*" first,
+ * then longer keys
+ */
+function comparePatternKeys(a: string, b: string): number {
+  const prefixDifference = b.indexOf('*') - a.indexOf('*')
+  return prefixDifference !== 0 ? prefixDifference : b.length - a.length
+}
@@ -0,0 +1,6 @@
+/**
+ * Service worker that serves installed packages over HTTP URLs
+ */
+
+export * from './server'
+export * from './register'
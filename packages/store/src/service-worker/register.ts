@@ -0,0 +1,95 @@
+/**
+ * Page side of the package server
+ */
+
+import { WebpmError } from '@webpm/error'
+import { DEFAULT_PACKAGE_SERVER_ROOT, PACKAGE_SERVER_CLAIM_MESSAGE } from './server'
+
+export interface RegisterPackageServerOptions {
+  /** Scope the service worker controls (defaults to the script's directory) */
+  scope?: string
+  /** Script type of the service worker */
+  type?: WorkerType
+  /** URL path the package server answers under, must match the worker's root option */
+  root?: string
+  /** Install generation id to put in package URLs, so a new install isn't served from stale caches */
+  generation?: string
+  /** Milliseconds to wait for the worker to control the page (defaults to 10000) */
+  timeout?: number
+}
+
+export interface PackageServerRegistration {
+  registration: ServiceWorkerRegistration
+  /** Base URL for createImportMap, `<root>[<generation>/]node_modules/` */
+  baseUrl: string
+}
+
+const DEFAULT_CONTROL_TIMEOUT = 10_000
+
+/**
+ * Get the URL packages are served under for an install generation
+ */
+export function getPackageBaseUrl(generation?: string, root = DEFAULT_PACKAGE_SERVER_ROOT): string {
+  return generation ? `${root}${encodeURIComponent(generation)}/node_modules/` : `${root}node_modules/`
+}
+
+/**
+ * Register the package server service worker and wait until it controls the page
+ */
+export async function registerPackageServer(
+  scriptUrl: string | URL,
+  options: RegisterPackageServerOptions = {}
+): Promise<PackageServerRegistration> {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) {
+    throw new WebpmError('SERVICE_WORKER_UNSUPPORTED', 'Service workers are not supported in this environment', {
+      hint: 'Serve the page from a secure context (https or localhost) in a browser with service worker support.',
+    })
+  }
+
+  const registration = await navigator.serviceWorker.register(scriptUrl, {
+    scope: options.scope,
+    type: options.type,
+  })
+
+  if (!navigator.serviceWorker.controller) {
+    await waitForController(navigator.serviceWorker, options.timeout ?? DEFAULT_CONTROL_TIMEOUT)
+  }
+
+  return { registration, baseUrl: getPackageBaseUrl(options.generation, options.root) }
+}
+
+/**
+ * Wait until a worker controls the page
+ *
+ * A new worker claims open clients when it activates. After a hard reload the
+ * worker is already active and leaves the page alone, so it is asked to claim
+ * it.
+ */
+async function waitForController(container: ServiceWorkerContainer, timeout: number): Promise<void> {
+  const controlled = new Promise<void>((resolve) => {
+    container.addEventListener('controllerchange', () => resolve(), { once: true })
+  })
+  const claimed = container.ready.then((registration) => {
+    if (!container.controller) {
+      registration.active?.postMessage({ type: PACKAGE_SERVER_CLAIM_MESSAGE })
+    }
+    return controlled
+  })
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        new WebpmError('SERVICE_WORKER_NOT_CONTROLLING', `The package server did not control the page within ${timeout}ms`, {
+          hint: 'Check that the worker calls installPackageServer() and that the page is inside the scope it was registered with.',
+        })
+      )
+    }, timeout)
+  })
+
+  try {
+    await Promise.race([claimed, timedOut])
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Service worker side of the package server
+ *
+ * Answers `<root>[<generation>/]node_modules/<name>[@<version>]/<path>`
+ * requests from the FileContentStore or a node_modules layout in a virtual
+ * filesystem, so iframes and workers can import installed packages over
+ * HTTP URLs and resolve relative imports between their files.
+ */
+
+import { logger } from '@webpm/logger'
+import { FileSystemUtils, type FileSystemInterface } from '../filesystem'
+import type { FileContentStore } from '../index'
+import { getVirtualStoreDirName } from '../linker/isolated'
+import { getContentType } from '../content-type'
+
+export interface PackageServerOptions {
+  /** URL path the package server answers under (defaults to DEFAULT_PACKAGE_SERVER_ROOT) */
+  root?: string
+  /** Store of installed file contents, checked first */
+  store?: FileContentStore
+  /** Virtual filesystem with an installed node_modules layout */
+  fs?: FileSystemInterface
+  /** node_modules directory in the virtual filesystem (defaults to "/node_modules") */
+  nodeModulesDir?: string
+}
+
+export interface PackageFileRequest {
+  /** Install generation the URL was created for, used for cache busting only */
+  generation?: string
+  name: string
+  version?: string
+  /** File path inside the package */
+  path: string
+}
+
+/**
+ * Minimal view of a service worker FetchEvent
+ */
+export interface PackageServerFetchEvent {
+  request: Request
+  respondWith(response: Promise<Response>): void
+}
+
+/**
+ * Minimal view of the ExtendableEvent of install and activate
+ */
+export interface PackageServerExtendableEvent {
+  waitUntil(promise: Promise<unknown>): void
+}
+
+/**
+ * Minimal view of the ExtendableMessageEvent of messages from pages
+ */
+export interface PackageServerMessageEvent extends PackageServerExtendableEvent {
+  data: unknown
+}
+
+/**
+ * Minimal view of ServiceWorkerGlobalScope, the store is compiled without the WebWorker lib
+ */
+export interface PackageServerScope {
+  addEventListener(type: 'fetch', listener: (event: PackageServerFetchEvent) => void): void
+  addEventListener(type: 'install' | 'activate', listener: (event: PackageServerExtendableEvent) => void): void
+  addEventListener(type: 'message', listener: (event: PackageServerMessageEvent) => void): void
+  skipWaiting(): Promise<void>
+  clients: { claim(): Promise<void> }
+}
+
+export const DEFAULT_PACKAGE_SERVER_ROOT = '/__webpm/'
+
+/**
+ * Message type pages send to ask an active worker to claim them
+ */
+export const PACKAGE_SERVER_CLAIM_MESSAGE = 'webpm:claim'
+
+/**
+ * Parse the pathname of a package file URL, or null when it isn't one
+ */
+export function parsePackageFileUrl(pathname: string, root = DEFAULT_PACKAGE_SERVER_ROOT): PackageFileRequest | null {
+  if (!pathname.startsWith(root)) {
+    return null
+  }
+
+  let segments: string[]
+  try {
+    segments = pathname.slice(root.length).split('/').map((segment) => decodeURIComponent(segment))
+  } catch {
+    // Malformed percent-encoding
+    return null
+  }
+  const generation = segments[0] !== 'node_modules' ? segments.shift() : undefined
+  if (segments.shift() !== 'node_modules') {
+    return null
+  }
+
+  const nameLength = segments[0]?.startsWith('@') ? 2 : 1
+  const nameWithVersion = segments.slice(0, nameLength).join('/')
+  const path = segments.slice(nameLength).join('/')
+  const versionIndex = nameWithVersion.lastIndexOf('@')
+
+  const [name, version] = versionIndex > 0
+    ? [nameWithVersion.slice(0, versionIndex), nameWithVersion.slice(versionIndex + 1)]
+    : [nameWithVersion, undefined]
+
+  // Decoded separators and dot segments could address files outside of the package
+  if (segments.length <= nameLength || !name || !path || segments.some(isUnsafeSegment)) {
+    return null
+  }
+
+  return { generation, name, version, path }
+}
+
+function isUnsafeSegment(segment: string): boolean {
+  return segment === '.' || segment === '..' || /[/\\]/.test(segment)
+}
+
+/**
+ * Create a handler that answers package file requests, and resolves to null
+ * for requests the package server doesn't own
+ */
+export function createPackageRequestHandler(
+  options: PackageServerOptions = {}
+): (request: Request) => Promise<Response | null> {
+  const root = options.root ?? DEFAULT_PACKAGE_SERVER_ROOT
+
+  return async (request) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return null
+    }
+
+    const url = new URL(request.url)
+    const fileRequest = parsePackageFileUrl(url.pathname, root)
+    if (!fileRequest) {
+      return null
+    }
+
+    try {
+      const content = await readPackageFile(fileRequest, options)
+      if (content === null) {
+        return new Response('Not found', { status: 404, headers: { 'Content-Type': 'text/plain' } })
+      }
+
+      const headers = new Headers({
+        'Content-Type': getContentType(fileRequest.path),
+        // URLs of a generation always serve the same install, others can change with the next install
+        'Cache-Control': fileRequest.generation ? 'public, max-age=31536000, immutable' : 'no-cache',
+        'Cross-Origin-Resource-Policy': 'same-origin',
+      })
+      return new Response(request.method === 'HEAD' ? null : content, { status: 200, headers })
+    } catch (error) {
+      logger.error(`Failed to serve ${url.pathname}:`, error)
+      return new Response('Internal error', { status: 500, headers: { 'Content-Type': 'text/plain' } })
+    }
+  }
+}
+
+/**
+ * Answer package file requests in a service worker and take control of open
+ * clients as soon as it activates, or when a page asks for it
+ */
+export function installPackageServer(scope: PackageServerScope, options: PackageServerOptions = {}): void {
+  const handleRequest = createPackageRequestHandler(options)
+
+  scope.addEventListener('install', (event) => {
+    event.waitUntil(scope.skipWaiting())
+  })
+
+  scope.addEventListener('activate', (event) => {
+    event.waitUntil(scope.clients.claim())
+  })
+
+  // Pages loaded with a hard reload are not controlled by the already active worker
+  scope.addEventListener('message', (event) => {
+    const data = event.data as { type?: unknown } | null
+    if (data?.type === PACKAGE_SERVER_CLAIM_MESSAGE) {
+      event.waitUntil(scope.clients.claim())
+    }
+  })
+
+  scope.addEventListener('fetch', (event) => {
+    const url = new URL(event.request.url)
+    if (parsePackageFileUrl(url.pathname, options.root ?? DEFAULT_PACKAGE_SERVER_ROOT)) {
+      event.respondWith(handleRequest(event.request).then((response) => response ?? fetch(event.request)))
+    }
+  })
+}
+
+async function readPackageFile(
+  { name, version, path }: PackageFileRequest,
+  options: PackageServerOptions
+): Promise<BodyInit | null> {
+  if (options.store && version) {
+    const stored = await options.store.getFileContent(`${name}@${version}/${path}`)
+    if (stored) {
+      return stored.content
+    }
+  }
+
+  const { fs } = options
+  if (!fs) {
+    return null
+  }
+
+  const nodeModulesDir = options.nodeModulesDir ?? '/node_modules'
+  if (!version) {
+    return readFileIn(fs, FileSystemUtils.joinPath(nodeModulesDir, name), path)
+  }
+
+  const virtualStoreDir = FileSystemUtils.joinPath(nodeModulesDir, '.pnpm', getVirtualStoreDirName({ name, version }), 'node_modules', name)
+  const isolated = await readFileIn(fs, virtualStoreDir, path)
+  if (isolated) {
+    return isolated
+  }
+
+  // A hoisted package only answers for the version that was installed there
+  for await (const packageDir of findHoistedPackageDirs(fs, nodeModulesDir, name)) {
+    if ((await readVersion(fs, packageDir)) === version) {
+      return readFileIn(fs, packageDir, path)
+    }
+  }
+  return null
+}
+
+async function readFileIn(fs: FileSystemInterface, packageDir: string, path: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  const filePath = FileSystemUtils.joinPath(packageDir, path)
+  if (!filePath.startsWith(`${FileSystemUtils.normalizePath(packageDir)}/`)) {
+    return null
+  }
+
+  try {
+    if ((await fs.stat(filePath)).isFile()) {
+      return (await fs.readFile(filePath)) as Uint8Array<ArrayBuffer>
+    }
+  } catch {
+    // Not installed at this location
+  }
+  return null
+}
+
+/**
+ * Locations of a package in a hoisted layout, the root node_modules first,
+ * then the node_modules of its dependents that a conflicting version is
+ * nested in, level by level
+ */
+async function* findHoistedPackageDirs(fs: FileSystemInterface, nodeModulesDir: string, name: string): AsyncGenerator<string> {
+  let modulesDirs = [nodeModulesDir]
+
+  while (modulesDirs.length > 0) {
+    const nested: string[] = []
+    for (const modulesDir of modulesDirs) {
+      yield FileSystemUtils.joinPath(modulesDir, name)
+      for (const packageDir of await listPackageDirs(fs, modulesDir)) {
+        nested.push(FileSystemUtils.joinPath(packageDir, 'node_modules'))
+      }
+    }
+    modulesDirs = nested
+  }
+}
+
+async function listPackageDirs(fs: FileSystemInterface, modulesDir: string): Promise<string[]> {
+  const packageDirs: string[] = []
+  for (const entry of await readDirectory(fs, modulesDir)) {
+    // .pnpm, .bin and other bookkeeping directories
+    if (entry.startsWith('.')) continue
+
+    const entryPath = FileSystemUtils.joinPath(modulesDir, entry)
+    if (entry.startsWith('@')) {
+      packageDirs.push(...(await readDirectory(fs, entryPath)).map((scoped) => FileSystemUtils.joinPath(entryPath, scoped)))
+    } else {
+      packageDirs.push(entryPath)
+    }
+  }
+  return packageDirs
+}
+
+async function readDirectory(fs: FileSystemInterface, dirPath: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(dirPath)) as string[]
+  } catch {
+    return []
+  }
+}
+
+async function readVersion(fs: FileSystemInterface, packageDir: string): Promise<string | undefined> {
+  try {
+    const manifest = JSON.parse((await fs.readFile(FileSystemUtils.joinPath(packageDir, 'package.json'), { encoding: 'utf8' })) as string)
+    return manifest.version
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Persistent content-addressable tarball cache
+ *
+ * Tarballs are stored in IndexedDB under their verified integrity, so the same
+ * bytes are shared by every package version and registry that publishes them
+ * and survive page reloads.
+ */
+
+import { computeDigest, parseIntegrity, type IntegrityAlgorithm } from './integrity'
+
+export interface CachedTarball {
+  /** Integrity the tarball was verified with, e.g. `sha512-...` */
+  integrity: string
+  data: ArrayBuffer
+  size: number
+  storedAt: number
+  lastAccessed: number
+}
+
+export interface TarballCachePruneOptions {
+  /** Remove least recently used tarballs until the cache is at most this many bytes */
+  maxSize?: number
+  /** Remove tarballs not used for this many milliseconds */
+  maxAge?: number
+}
+
+export interface TarballCacheVerifyResult {
+  /** Number of tarballs checked */
+  checked: number
+  /** Integrity of the tarballs removed because their contents did not match */
+  removed: string[]
+}
+
+const CACHE_ALGORITHMS: IntegrityAlgorithm[] = ['sha512', 'sha384', 'sha256', 'sha1']
+
+export class TarballCache {
+  private dbName: string
+  private dbVersion = 1
+  private storeName = 'tarballs'
+  private db: IDBDatabase | null = null
+
+  constructor(dbName = 'webpm-tarball-cache') {
+    this.dbName = dbName
+  }
+
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        this.db = request.result
+        resolve()
+      }
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result
+
+        if (!db.objectStoreNames.contains(this.storeName)) {
+          db.createObjectStore(this.storeName, { keyPath: 'integrity' })
+        }
+      }
+    })
+  }
+
+  /**
+   * Get a tarball by any hash of an SSRI string, marking it as recently used
+   */
+  async get(integrity: string): Promise<ArrayBuffer | null> {
+    if (!this.db) await this.init()
+
+    const keys = getCacheKeys(integrity)
+    if (keys.length === 0) return null
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite')
+      const store = transaction.objectStore(this.storeName)
+      let found: ArrayBuffer | null = null
+
+      const lookup = (index: number) => {
+        if (index >= keys.length) return
+
+        const request = store.get(keys[index])
+        request.onsuccess = () => {
+          const entry = request.result as CachedTarball | undefined
+          if (!entry) {
+            lookup(index + 1)
+            return
+          }
+          found = entry.data
+          store.put({ ...entry, lastAccessed: Date.now() })
+        }
+      }
+      lookup(0)
+
+      transaction.oncomplete = () => resolve(found)
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  /**
+   * Store a tarball under the integrity it was verified with
+   */
+  async set(integrity: string, data: ArrayBuffer): Promise<void> {
+    if (!this.db) await this.init()
+
+    const now = Date.now()
+    const entry: CachedTarball = {
+      integrity,
+      data,
+      size: data.byteLength,
+      storedAt: now,
+      lastAccessed: now,
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite')
+      const request = transaction.objectStore(this.storeName).put(entry)
+
+      request.onerror = () => reject(request.error)
+      transaction.oncomplete = () => resolve()
+    })
+  }
+
+  /**
+   * Remove the tarball stored under any hash of an SSRI string
+   */
+  async delete(integrity: string): Promise<void> {
+    if (!this.db) await this.init()
+
+    await this.deleteEntries(getCacheKeys(integrity))
+  }
+
+  /**
+   * Get the total size of the cached tarballs in bytes
+   */
+  async getCacheSize(): Promise<number> {
+    const entries = await this.getEntries()
+    return entries.reduce((total, entry) => total + entry.size, 0)
+  }
+
+  /**
+   * Remove tarballs that were not used for `maxAge`, then the least recently
+   * used ones until the cache fits in `maxSize`
+   *
+   * @returns Integrity of the removed tarballs
+   */
+  async prune(options: TarballCachePruneOptions = {}): Promise<string[]> {
+    const entries = await this.getEntries()
+    entries.sort((a, b) => a.lastAccessed - b.lastAccessed)
+
+    const now = Date.now()
+    let size = entries.reduce((total, entry) => total + entry.size, 0)
+    const removed: string[] = []
+
+    for (const entry of entries) {
+      const expired = options.maxAge !== undefined && now - entry.lastAccessed > options.maxAge
+      const tooLarge = options.maxSize !== undefined && size > options.maxSize
+      if (!expired && !tooLarge) continue
+
+      removed.push(entry.integrity)
+      size -= entry.size
+    }
+
+    await this.deleteEntries(removed)
+    return removed
+  }
+
+  /**
+   * Hash every cached tarball again and remove the ones whose contents no
+   * longer match their integrity
+   */
+  async verify(): Promise<TarballCacheVerifyResult> {
+    const entries = await this.getEntries()
+    const removed: string[] = []
+
+    for (const entry of entries) {
+      const [hash] = parseIntegrity(entry.integrity)
+      const algorithm = hash?.algorithm as IntegrityAlgorithm
+      const valid =
+        hash !== undefined &&
+        CACHE_ALGORITHMS.includes(algorithm) &&
+        (await computeDigest(entry.data, algorithm)) === hash.digest
+
+      if (!valid) {
+        removed.push(entry.integrity)
+      }
+    }
+
+    await this.deleteEntries(removed)
+    return { checked: entries.length, removed }
+  }
+
+  async clear(): Promise<void> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite')
+      const request = transaction.objectStore(this.storeName).clear()
+
+      request.onerror = () => reject(request.error)
+      transaction.oncomplete = () => resolve()
+    })
+  }
+
+  private async getEntries(): Promise<CachedTarball[]> {
+    if (!this.db) await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readonly')
+      const request = transaction.objectStore(this.storeName).getAll()
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result || [])
+    })
+  }
+
+  private async deleteEntries(integrities: string[]): Promise<void> {
+    if (integrities.length === 0) return
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], 'readwrite')
+      const store = transaction.objectStore(this.storeName)
+      for (const integrity of integrities) {
+        store.delete(integrity)
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+}
+
+/**
+ * Get the keys a tarball can be cached under, strongest hash first
+ */
+function getCacheKeys(integrity: string): string[] {
+  const hashes = parseIntegrity(integrity)
+  return CACHE_ALGORITHMS.flatMap((algorithm) =>
+    hashes
+      .filter((hash) => hash.algorithm === algorithm)
+      .map((hash) => `${hash.algorithm}-${hash.digest}`)
+  )
+}
+
+/**
+ * Check whether IndexedDB is available for the tarball cache
+ */
+export function isTarballCacheAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+// Global tarball cache instance
+export const tarballCache = new TarballCache()
@@ -1,23 +1,13 @@
-import * as tar from "tar-stream";
-import { Readable } from 'stream'
-import { gunzipSync } from "fflate";
 import { logger } from '@webpm/logger'
+import { isWebpmError } from '@webpm/error'
+import { NPMRegistry } from '@webpm/registry'
+import { getIntegrity } from '@webpm/utils'
 import type { ResolvedPackage } from './index'
-
-export interface ExtractedFile {
-  name: string;
-  buffer: Buffer;
-  size: number;
-  type: string;
-  mode?: number;
-  mtime?: Date;
-}
-
-export interface ExtractionResult {
-  files: ExtractedFile[];
-  manifest?: Record<string, unknown>;
-  hasInstallScript: boolean;
-}
+import { verifyIntegrity } from './integrity'
+import { tarballCache as defaultTarballCache, isTarballCacheAvailable, type TarballCache } from './tarball-cache'
+import { extractionPool as defaultExtractionPool, type ExtractionWorkerPool, type TarballExtraction } from './extraction-pool'
+import type { ExtractedFile, ExtractionPolicy, ExtractionResult } from './untar'
+import { getExtractionFilterKey, type ExtractionFilter } from './extraction-filter'
 
 export interface FetchedPackage {
   package: ResolvedPackage;
@@ -31,56 +21,150 @@ export interface FetchedPackage {
   };
 }
 
+export interface TarballFetchStats {
+  /** Tarballs downloaded */
+  requests: number;
+  /** Downloads saved by joining an in-flight fetch of the same package */
+  coalesced: number;
+  /** Packages returned from the cache */
+  cacheHits: number;
+  /** Fetches currently in flight */
+  inFlight: number;
+}
+
+export interface TarballFetcherOptions {
+  /**
+   * Registry client used to download tarballs, so they get the same timeout,
+   * retries, rate limit and credentials as metadata
+   */
+  registry?: NPMRegistry;
+  /**
+   * Persistent cache of tarballs by integrity, defaults to the IndexedDB cache
+   * when available, `null` disables it
+   */
+  tarballCache?: TarballCache | null;
+  /** Workers that extract tarballs, defaults to the global extraction pool */
+  extractionPool?: ExtractionWorkerPool;
+  /** Limits for extracted files, defaults to DEFAULT_EXTRACTION_POLICY */
+  extractionPolicy?: ExtractionPolicy;
+}
+
+export interface FetchPackageOptions {
+  /**
+   * Registry client for this download, defaults to the one the fetcher was
+   * created with
+   */
+  registry?: NPMRegistry;
+  /** Files to extract, all of them when omitted */
+  extractionFilter?: ExtractionFilter;
+}
+
 export class TarballFetcher {
   private cache = new Map<string, FetchedPackage>();
+  private inFlight = new Map<string, Promise<FetchedPackage | null>>();
+  private stats = { requests: 0, coalesced: 0, cacheHits: 0 };
+  private registry?: NPMRegistry;
+  private tarballCache?: TarballCache | null;
+  private extractionPool: ExtractionWorkerPool;
+  private extractionPolicy?: ExtractionPolicy;
+
+  constructor(options: TarballFetcherOptions = {}) {
+    this.registry = options.registry;
+    this.tarballCache = options.tarballCache;
+    this.extractionPool = options.extractionPool ?? defaultExtractionPool;
+    this.extractionPolicy = options.extractionPolicy;
+  }
 
   /**
-   * Fetch and extract a package tarball
+   * Fetch and extract a package tarball, packages extracted with different
+   * filters are cached separately
    */
-  async fetchPackage(resolvedPackage: ResolvedPackage): Promise<FetchedPackage | null> {
-    const packageId = resolvedPackage.id;
-    const totalTimer = performance.now();
-    
+  async fetchPackage(resolvedPackage: ResolvedPackage, options: FetchPackageOptions = {}): Promise<FetchedPackage | null> {
+    const { registry, extractionFilter } = options;
+    const cacheKey = extractionFilter
+      ? `${resolvedPackage.id}#${getExtractionFilterKey(extractionFilter)}`
+      : resolvedPackage.id;
+
     // Check cache first
-    if (this.cache.has(packageId)) {
-      logger.debug(`Package ${packageId} already fetched and cached`);
-      return this.cache.get(packageId)!;
+    if (this.cache.has(cacheKey)) {
+      logger.debug(`Package ${cacheKey} already fetched and cached`);
+      this.stats.cacheHits++;
+      return this.cache.get(cacheKey)!;
+    }
+
+    // Share the fetch of a package that is already being downloaded
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      logger.debug(`Package ${cacheKey} is already being fetched, joining in-flight fetch`);
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    this.stats.requests++;
+    const fetching = this.fetchAndExtract(resolvedPackage, registry ?? this.getRegistry(), cacheKey, extractionFilter).finally(() => {
+      this.inFlight.delete(cacheKey);
+    });
+    this.inFlight.set(cacheKey, fetching);
+    return fetching;
+  }
+
+  /**
+   * Get counts of tarballs downloaded, downloads saved by joining an
+   * in-flight fetch, and cache hits
+   */
+  getStats(): TarballFetchStats {
+    return { ...this.stats, inFlight: this.inFlight.size };
+  }
+
+  private getRegistry(): NPMRegistry {
+    this.registry ??= new NPMRegistry();
+    return this.registry;
+  }
+
+  private getTarballCache(): TarballCache | null {
+    if (this.tarballCache === undefined) {
+      return isTarballCacheAvailable() ? defaultTarballCache : null;
     }
+    return this.tarballCache;
+  }
+
+  private async fetchAndExtract(
+    resolvedPackage: ResolvedPackage,
+    registry: NPMRegistry,
+    cacheKey: string,
+    extractionFilter?: ExtractionFilter
+  ): Promise<FetchedPackage | null> {
+    const packageId = resolvedPackage.id;
+    const totalTimer = performance.now();
 
     try {
       logger.debug(`Fetching tarball for package: ${packageId}`);
       
-      // Fetch the tarball
+      // Load the tarball from the persistent cache or the registry, verified
+      // before anything is extracted from it
       const fetchTimer = performance.now();
-      const tarballBuffer = await this.fetchTarball(resolvedPackage.resolution.tarball);
+      const { tarballBuffer, integrity } = await this.loadTarball(resolvedPackage, registry);
       const fetchTime = performance.now() - fetchTimer;
-      
-      if (!tarballBuffer) {
-        logger.error(`Failed to fetch tarball for ${packageId}`);
-        return null;
-      }
 
       // Extract the tarball
       const extractionTimer = performance.now();
-      const extractedFiles = await this.extractTarball(tarballBuffer);
+      const extraction = await this.extractTarball(tarballBuffer, resolvedPackage.resolution.tarball, extractionFilter);
       const extractionTime = performance.now() - extractionTimer;
 
-      const dTsFiles = extractedFiles?.files.filter(file => file.name.endsWith('.d.ts'));
+      const dTsFiles = extraction?.result.files.filter(file => file.name.endsWith('.d.ts'));
       logger.debug('dTsFiles', dTsFiles);
-      if (!extractedFiles) {
+      if (!extraction) {
         logger.error(`Failed to extract tarball for ${packageId}`);
         return null;
       }
-
-      // Calculate integrity
-      const integrity = await this.calculateIntegrity(tarballBuffer);
+      const extractedFiles = extraction.result;
 
       const totalTime = performance.now() - totalTimer;
 
       const fetchedPackage: FetchedPackage = {
         package: resolvedPackage,
         extractedFiles,
-        tarballBuffer,
+        tarballBuffer: extraction.tarball,
         integrity,
         timings: {
           fetchTime,
@@ -90,7 +174,7 @@ export class TarballFetcher {
       };
 
       // Cache the result
-      this.cache.set(packageId, fetchedPackage);
+      this.cache.set(cacheKey, fetchedPackage);
       
       logger.debug(`Successfully fetched and extracted package: ${packageId} in ${totalTime.toFixed(2)}ms (fetch: ${fetchTime.toFixed(2)}ms, extract: ${extractionTime.toFixed(2)}ms)`);
       return fetchedPackage;
@@ -98,148 +182,108 @@ export class TarballFetcher {
     } catch (error) {
       const totalTime = performance.now() - totalTimer;
       logger.error(`Failed to fetch package ${packageId} after ${totalTime.toFixed(2)}ms:`, error);
+      // Integrity and download failures must fail the install instead of skipping the package
+      if (isWebpmError(error)) {
+        throw error;
+      }
       return null;
     }
   }
 
   /**
-   * Fetch tarball from URL
+   * Get a verified tarball from the persistent cache, or download, verify and
+   * cache it. Corrupted cache entries are removed and downloaded again.
    */
-  private async fetchTarball(tarballUrl: string): Promise<ArrayBuffer | null> {
-    try {
-      logger.debug(`Fetching tarball from: ${tarballUrl}`);
-      
-      const response = await fetch(tarballUrl);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  private async loadTarball(
+    resolvedPackage: ResolvedPackage,
+    registry: NPMRegistry
+  ): Promise<{ tarballBuffer: ArrayBuffer; integrity: string }> {
+    const { tarball, integrity, shasum } = resolvedPackage.resolution;
+    const expected = getIntegrity({ tarball, integrity, shasum });
+    // Tarballs without integrity cannot be looked up by content
+    const cache = expected ? this.getTarballCache() : null;
+
+    if (cache && expected) {
+      const cached = await cache.get(expected).catch((error: unknown) => {
+        logger.warn(`Failed to read tarball cache for ${resolvedPackage.id}:`, error);
+        return null;
+      });
+
+      if (cached) {
+        try {
+          const verified = await verifyIntegrity(cached, expected, tarball);
+          logger.debug(`Loaded ${resolvedPackage.id} from the tarball cache`);
+          return { tarballBuffer: cached, integrity: verified };
+        } catch (error) {
+          logger.warn(`Cached tarball of ${resolvedPackage.id} is corrupted, downloading it again:`, error);
+          await cache.delete(expected).catch(() => {});
+        }
       }
+    }
 
-      const arrayBuffer = await response.arrayBuffer();
-      logger.debug(`Fetched tarball, size: ${arrayBuffer.byteLength} bytes`);
-      
-      return arrayBuffer;
+    const tarballBuffer = await this.fetchTarball(tarball, registry);
+    const verified = await this.verifyTarball(resolvedPackage, tarballBuffer);
 
-    } catch (error) {
-      logger.error(`Failed to fetch tarball from ${tarballUrl}:`, error);
-      return null;
+    if (cache) {
+      await cache.set(verified, tarballBuffer).catch((error: unknown) => {
+        logger.warn(`Failed to write tarball cache for ${resolvedPackage.id}:`, error);
+      });
     }
+
+    return { tarballBuffer, integrity: verified };
+  }
+
+  /**
+   * Verify a tarball against the integrity or shasum from the registry
+   * and return the verified integrity
+   */
+  private async verifyTarball(resolvedPackage: ResolvedPackage, tarballBuffer: ArrayBuffer): Promise<string> {
+    const { tarball, integrity, shasum } = resolvedPackage.resolution;
+    const expected = getIntegrity({ tarball, integrity, shasum });
+
+    if (!expected) {
+      logger.warn(`No integrity or shasum for ${resolvedPackage.id}, skipping verification`);
+      return this.calculateIntegrity(tarballBuffer);
+    }
+
+    const verified = await verifyIntegrity(tarballBuffer, expected, tarball);
+    logger.debug(`Verified integrity of ${resolvedPackage.id}: ${verified}`);
+    return verified;
+  }
+
+  /**
+   * Fetch tarball from URL through the registry client, throws a `FetchError`
+   * once retries are exhausted
+   */
+  private async fetchTarball(tarballUrl: string, registry: NPMRegistry): Promise<ArrayBuffer> {
+    logger.debug(`Fetching tarball from: ${tarballUrl}`);
+
+    const arrayBuffer = await registry.downloadTarball(tarballUrl);
+    logger.debug(`Fetched tarball, size: ${arrayBuffer.byteLength} bytes`);
+
+    return arrayBuffer;
   }
 
   /**
-   * Extract tarball and return files
+   * Extract tarball and return files, the tarball is transferred to an
+   * extraction worker and returned with the result. Tarballs violating the
+   * extraction policy throw a BadTarballError.
    */
-  private async extractTarball(tarballBuffer: ArrayBuffer): Promise<ExtractionResult | null> {
+  private async extractTarball(
+    tarballBuffer: ArrayBuffer,
+    url: string,
+    filter?: ExtractionFilter
+  ): Promise<TarballExtraction | null> {
     try {
-      logger.debug("Extracting tarball using tar-stream...");
-
-      const files: ExtractedFile[] = [];
-      let manifest: { scripts?: { preinstall?: string; install?: string; postinstall?: string } } | null = null;
-      let hasInstallScript = false;
-
-      return new Promise((resolve, reject) => {
-        const extract = tar.extract();
-
-        extract.on("entry", (header, stream, next) => {
-          // Skip directories
-          if (header.type === "directory") {
-            stream.resume(); // drain the stream
-            next();
-            return;
-          }
-
-          const chunks: Buffer[] = [];
-
-          stream.on("data", (chunk) => {
-            chunks.push(chunk);
-          });
-
-          stream.on("end", () => {
-            const fileBuffer = Buffer.concat(chunks);
-
-            const name = header.name.split('/').slice(1).join('/');
-            const extractedFile: ExtractedFile = {
-              name, // Normalize the name from the tarball
-              buffer: fileBuffer,
-              size: header.size || fileBuffer.length,
-              type: header.type || "file",
-              mode: header.mode,
-              mtime: header.mtime,
-            };
-
-            files.push(extractedFile);
-
-            // Check for package.json (manifest)
-            if (
-              name === "package.json"
-            ) {
-              try {
-                const manifestText = fileBuffer.toString("utf8");
-                manifest = JSON.parse(manifestText)
-
-                // Check for install scripts
-                if (
-                  manifest?.scripts &&
-                  (manifest?.scripts.preinstall ||
-                    manifest?.scripts.install ||
-                    manifest?.scripts.postinstall)
-                ) {
-                  hasInstallScript = true;
-                }
-              } catch (error) {
-                logger.warn("Failed to parse package.json:", error);
-              }
-            }
-
-            next();
-          });
-
-          stream.on("error", (error) => {
-            logger.warn(`Error processing entry ${name}:`, error);
-            next();
-          });
-        });
-
-        extract.on("finish", () => {
-          logger.debug(`Extracted ${files.length} files from tarball`);
-          resolve({
-            files,
-            manifest: manifest ?? undefined,
-            hasInstallScript,
-          });
-        });
-
-        extract.on("error", (error) => {
-          logger.error("Failed to extract tarball:", error);
-          reject(error);
-        });
-
-        // Convert ArrayBuffer to Uint8Array for fflate
-        const uint8Array = new Uint8Array(tarballBuffer);
-
-        // Decompress gzipped data using fflate
-        let decompressedData: Uint8Array;
-        try {
-          // Try to decompress as gzip first
-          decompressedData = gunzipSync(uint8Array);
-        } catch {
-          // If it fails, assume it's already uncompressed tar data
-          decompressedData = uint8Array;
-        }
+      logger.debug(`Extracting tarball of ${tarballBuffer.byteLength} bytes...`);
 
-        // Convert back to Buffer and create readable stream
-        const buffer = Buffer.from(decompressedData);
-        const readable = new Readable({
-          read() {
-            this.push(buffer);
-            this.push(null); // end the stream
-          },
-        });
-
-        // Pipe directly to tar-stream extract
-        readable.pipe(extract);
-      });
+      const extraction = await this.extractionPool.extract(tarballBuffer, { url, policy: this.extractionPolicy, filter });
+      logger.debug(`Extracted ${extraction.result.files.length} files from tarball`);
+      return extraction;
     } catch (error) {
+      if (isWebpmError(error)) {
+        throw error;
+      }
       logger.error("Failed to extract tarball:", error);
       return null;
     }
@@ -249,7 +293,7 @@ export class TarballFetcher {
    * Get file content as text
    */
   getFileAsText(file: ExtractedFile): string {
-    return file.buffer.toString("utf8");
+    return new TextDecoder().decode(file.buffer);
   }
 
   /**
@@ -296,18 +340,9 @@ export class TarballFetcher {
   /**
    * Calculate integrity hash (simplified)
    */
-  private async calculateIntegrity(buffer: ArrayBuffer | Buffer): Promise<string> {
+  private async calculateIntegrity(buffer: ArrayBuffer): Promise<string> {
     try {
-      // Convert Buffer to ArrayBuffer if needed
-      const arrayBuffer =
-        buffer instanceof Buffer
-          ? buffer.buffer.slice(
-              buffer.byteOffset,
-              buffer.byteOffset + buffer.byteLength
-            )
-          : buffer;
-
-      const hashBuffer = await crypto.subtle.digest("SHA-256", arrayBuffer as ArrayBuffer);
+      const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
       return `sha256-${btoa(
         String.fromCharCode(...new Uint8Array(hashBuffer))
       )}`;
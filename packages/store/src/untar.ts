@@ -0,0 +1,521 @@
+/**
+ * Streaming tarball extraction
+ *
+ * Gzipped tarballs are decompressed with `DecompressionStream` and parsed
+ * block by block, so only the current entry is held in memory besides the
+ * extracted files. Uses web APIs only, it runs in workers, browsers and Node.
+ *
+ * Entries are checked against an extraction policy before their data is
+ * read: paths are normalized inside the package, links may not point out of
+ * it and sizes are limited, so extracted files are safe to write to a real
+ * filesystem.
+ */
+
+import { BadTarballError, type BadTarballReason } from '@webpm/error'
+import type { BaseManifest } from '@webpm/types'
+import { createExtractionMatcher, type ExtractionFilter } from './extraction-filter'
+
+export interface ExtractedFile {
+  name: string
+  buffer: Uint8Array
+  size: number
+  type: string
+  mode?: number
+  mtime?: Date
+  /** Target of a symlink, relative to the link and inside the package */
+  linkname?: string
+}
+
+export interface ExtractionResult {
+  files: ExtractedFile[]
+  manifest?: Record<string, unknown>
+  hasInstallScript: boolean
+}
+
+export interface TarEntry {
+  name: string
+  type: string
+  size: number
+  mode?: number
+  mtime?: Date
+  linkname?: string
+  data: Uint8Array
+}
+
+export type TarEntryHeader = Omit<TarEntry, 'data'>
+
+export interface ParseTarOptions {
+  /** Return false to skip an entry without reading its data */
+  filter?: (header: TarEntryHeader) => boolean
+  /** Called before the data of a kept entry is read, throw to stop parsing */
+  onHeader?: (header: TarEntryHeader) => void
+}
+
+export interface ExtractionPolicy {
+  /** Maximum size of a single file in bytes */
+  maxFileSize?: number
+  /** Maximum size of all files of a package in bytes */
+  maxPackageSize?: number
+}
+
+export interface ExtractTarballOptions {
+  /** Tarball URL reported in errors */
+  url?: string
+  policy?: ExtractionPolicy
+  /** Files to extract, all of them when omitted */
+  filter?: ExtractionFilter
+}
+
+export const DEFAULT_EXTRACTION_POLICY: Required<ExtractionPolicy> = {
+  maxFileSize: 64 * 1024 * 1024,
+  maxPackageSize: 512 * 1024 * 1024,
+}
+
+const BLOCK_SIZE = 512
+
+// Long names and pax headers are never legitimately this large
+const MAX_METADATA_SIZE = 1024 * 1024
+
+const ENTRY_TYPES: Record<string, string> = {
+  '0': 'file',
+  '1': 'link',
+  '2': 'symlink',
+  '3': 'character-device',
+  '4': 'block-device',
+  '5': 'directory',
+  '6': 'fifo',
+  '7': 'contiguous-file',
+}
+
+// Entries that describe the next entry or the archive, not a file
+const METADATA_TYPES = new Set(['L', 'K', 'x', 'g'])
+
+/**
+ * Extract the files of a tarball, gzipped or not, and read its manifest
+ *
+ * Throws a BadTarballError when an entry violates the extraction policy,
+ * nothing is extracted from such tarballs.
+ */
+export async function extractTarball(
+  tarball: ArrayBuffer | Uint8Array,
+  options: ExtractTarballOptions = {}
+): Promise<ExtractionResult> {
+  const policy = { ...DEFAULT_EXTRACTION_POLICY, ...options.policy }
+  const files = new Map<string, ExtractedFile>()
+  // Symlink targets by path, with the archive path reported when they are unsafe
+  const symlinks = new Map<string, { entry: string; linkname: string }>()
+  const skipped = new Set<string>()
+  let packageSize = 0
+  let manifest: Pick<BaseManifest, 'scripts' | 'types' | 'typings' | 'typesVersions'> | undefined
+  let matches = options.filter && createExtractionMatcher(options.filter)
+
+  const reject = (reason: BadTarballReason, entry: string, detail: string): never => {
+    throw new BadTarballError({ tarballUrl: options.url ?? 'tarball', reason, entry, detail })
+  }
+
+  const checkSize = (header: TarEntryHeader) => {
+    if (header.size > policy.maxFileSize) {
+      reject('FILE_TOO_LARGE', header.name, `"${header.name}" is ${header.size} bytes, the limit is ${policy.maxFileSize}`)
+    }
+    packageSize += header.size
+    if (packageSize > policy.maxPackageSize) {
+      reject('PACKAGE_TOO_LARGE', header.name, `Files exceed the package limit of ${policy.maxPackageSize} bytes`)
+    }
+  }
+
+  const filter = (header: TarEntryHeader) => {
+    if (!matches || !EXTRACTED_TYPES.has(header.type)) return true
+
+    // Unsafe paths are kept so the policy rejects them
+    const name = normalizeEntryPath(header.name)
+    if (name === null || matches(name)) return true
+    skipped.add(name)
+    return false
+  }
+
+  for await (const entry of parseTar(decompress(tarball), { filter, onHeader: checkSize })) {
+    // Only files and links are extracted, devices and fifos have no place in a package
+    if (!EXTRACTED_TYPES.has(entry.type)) continue
+
+    const name = normalizeEntryPath(entry.name)
+    if (name === null) {
+      reject('PATH_TRAVERSAL', entry.name, `"${entry.name}" points outside of the package`)
+    }
+    // The top level folder itself
+    if (!name) continue
+
+    if (throughSymlink(name, symlinks) || symlinks.has(name)) {
+      reject('UNSAFE_LINK', entry.name, `"${entry.name}" would be written through a symbolic link`)
+    }
+
+    let file: ExtractedFile
+    if (entry.type === 'symlink') {
+      // Links through other links are checked once the whole archive is known
+      if (!entry.linkname || resolveLinkTarget(name, entry.linkname, new Map()) === null) {
+        reject('UNSAFE_LINK', entry.name, `Symbolic link "${entry.name}" points outside of the package: "${entry.linkname}"`)
+      }
+      symlinks.set(name, { entry: entry.name, linkname: entry.linkname! })
+      file = { name, buffer: new Uint8Array(0), size: 0, type: 'symlink', mode: entry.mode, mtime: entry.mtime, linkname: entry.linkname }
+    } else if (entry.type === 'link') {
+      // Hard links are resolved to a copy of a file extracted before them
+      const target = entry.linkname ? normalizeEntryPath(entry.linkname) : null
+      // Links to skipped files are skipped with them
+      if (target && skipped.has(target)) continue
+      const linked = target ? files.get(target) : undefined
+      if (!linked || linked.type !== 'file') {
+        reject('UNSAFE_LINK', entry.name, `Hard link "${entry.name}" does not point to a file in the package: "${entry.linkname}"`)
+      }
+      checkSize({ ...entry, size: linked!.size })
+      file = { ...linked!, name, mode: entry.mode, mtime: entry.mtime }
+    } else {
+      file = { name, buffer: entry.data, size: entry.size, type: 'file', mode: entry.mode, mtime: entry.mtime }
+    }
+
+    // Later entries replace earlier ones with the same path, like tar does
+    files.delete(name)
+    files.set(name, file)
+
+    if (name === 'package.json' && file.type === 'file') {
+      try {
+        manifest = JSON.parse(new TextDecoder().decode(file.buffer))
+        // npm packs package.json first, the files it declares can still be matched
+        if (options.filter === 'types-only') {
+          matches = createExtractionMatcher(options.filter, manifest)
+        }
+      } catch {
+        // An unparsable manifest is reported as missing
+      }
+    }
+  }
+
+  // Links can point through links that come later in the archive
+  const linknames = new Map([...symlinks].map(([name, { linkname }]) => [name, linkname]))
+  for (const [name, { entry, linkname }] of symlinks) {
+    if (resolveLinkTarget(name, linkname, linknames) === null) {
+      reject('UNSAFE_LINK', entry, `Symbolic link "${entry}" points outside of the package: "${linkname}"`)
+    }
+  }
+
+  const scripts = manifest?.scripts
+  return {
+    files: [...files.values()],
+    manifest,
+    hasInstallScript: Boolean(scripts?.preinstall || scripts?.install || scripts?.postinstall),
+  }
+}
+
+const EXTRACTED_TYPES = new Set(['file', 'contiguous-file', 'link', 'symlink'])
+
+/**
+ * Normalize an archive path to a path inside the package, null when it
+ * points outside of it
+ *
+ * Backslashes, leading slashes and drive letters are normalized away and the
+ * top level folder, `package/` in npm tarballs, is stripped.
+ */
+export function normalizeEntryPath(path: string): string | null {
+  const [top, ...segments] = path.replace(/\\/g, '/').replace(/^(?:[a-zA-Z]:)?\/+/, '').split('/')
+  if (top === '..') return null
+  return resolveSegments([], segments)
+}
+
+// Links followed while resolving one target, like the ELOOP limit of Linux
+const MAX_LINK_DEPTH = 40
+
+/**
+ * Resolve the target of a symlink relative to its directory, following the
+ * given symlinks like the filesystem would, null when it is absolute, leaves
+ * the package or loops
+ */
+function resolveLinkTarget(name: string, linkname: string, symlinks: Map<string, string>): string | null {
+  if (isAbsoluteLink(linkname)) return null
+
+  // The directory of the link is resolved too, a parent can be a link itself
+  const resolved: string[] = []
+  const pending = [...name.split('/').slice(0, -1), ...splitLink(linkname)]
+  let followed = 0
+
+  while (pending.length > 0) {
+    const segment = pending.shift()!
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      if (resolved.pop() === undefined) return null
+      continue
+    }
+
+    resolved.push(segment)
+    const target = symlinks.get(resolved.join('/'))
+    if (target !== undefined) {
+      if (++followed > MAX_LINK_DEPTH || isAbsoluteLink(target)) return null
+      // Continue from the directory of the link with its target
+      resolved.pop()
+      pending.unshift(...splitLink(target))
+    }
+  }
+  return resolved.join('/')
+}
+
+function isAbsoluteLink(linkname: string): boolean {
+  return /^(?:[a-zA-Z]:)?[/\\]/.test(linkname)
+}
+
+function splitLink(linkname: string): string[] {
+  return linkname.replace(/\\/g, '/').split('/')
+}
+
+function resolveSegments(base: string[], segments: string[]): string | null {
+  const resolved = [...base]
+  for (const segment of segments) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      if (resolved.pop() === undefined) return null
+    } else {
+      resolved.push(segment)
+    }
+  }
+  return resolved.join('/')
+}
+
+function throughSymlink(name: string, symlinks: Map<string, unknown>): boolean {
+  const segments = name.split('/')
+  for (let i = 1; i < segments.length; i++) {
+    if (symlinks.has(segments.slice(0, i).join('/'))) return true
+  }
+  return false
+}
+
+/**
+ * Stream the contents of a tarball, decompressing it when it is gzipped
+ */
+export function decompress(tarball: ArrayBuffer | Uint8Array): ReadableStream<Uint8Array> {
+  const bytes = tarball instanceof Uint8Array ? tarball : new Uint8Array(tarball)
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream()
+
+  // Gzip magic number, anything else is treated as an uncompressed tar
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return stream.pipeThrough(new DecompressionStream('gzip'))
+  }
+  return stream
+}
+
+/**
+ * Parse the entries of an uncompressed tar stream
+ *
+ * Supports ustar, pax extended headers and GNU long names.
+ */
+export async function* parseTar(stream: ReadableStream<Uint8Array>, options: ParseTarOptions = {}): AsyncGenerator<TarEntry> {
+  const reader = new BlockReader(stream)
+  let longName: string | undefined
+  let longLinkname: string | undefined
+  let pax: Record<string, string> = {}
+
+  try {
+    while (true) {
+      const header = await reader.read(BLOCK_SIZE)
+      // Archives end with zero blocks, some writers omit them
+      if (!header || header.every((byte) => byte === 0)) break
+
+      if (!hasValidChecksum(header)) {
+        throw new Error('Invalid tar header checksum')
+      }
+
+      const typeflag = String.fromCharCode(header[156] || 0x30)
+      const size = parseSize(header.subarray(124, 136))
+      const isMetadata = METADATA_TYPES.has(typeflag)
+      if (isMetadata && size > MAX_METADATA_SIZE) {
+        throw new Error(`Tar metadata entry of ${size} bytes is too large`)
+      }
+
+      let entry: TarEntryHeader | undefined
+      if (!isMetadata) {
+        const prefix = readString(header.subarray(345, 500))
+        const name = readString(header.subarray(0, 100))
+        const mtime = parseOctal(header.subarray(136, 148))
+
+        entry = {
+          name: pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name),
+          type: ENTRY_TYPES[typeflag] ?? 'file',
+          size,
+          mode: parseOctal(header.subarray(100, 108)),
+          mtime: mtime === undefined ? undefined : new Date(mtime * 1000),
+          linkname: pax.linkpath ?? longLinkname ?? (readString(header.subarray(157, 257)) || undefined),
+        }
+        if (options.filter && !options.filter(entry)) {
+          if (!(await reader.skip(size + ((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE)))) {
+            throw new Error('Unexpected end of tar archive')
+          }
+          longName = undefined
+          longLinkname = undefined
+          pax = {}
+          continue
+        }
+        options.onHeader?.(entry)
+      }
+
+      const data = await reader.read(size)
+      if (!data) {
+        throw new Error('Unexpected end of tar archive')
+      }
+      await reader.skip((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE)
+
+      // Metadata entries that apply to the next entry
+      if (typeflag === 'L') {
+        longName = readString(data)
+        continue
+      }
+      if (typeflag === 'K') {
+        longLinkname = readString(data)
+        continue
+      }
+      if (typeflag === 'x') {
+        pax = parsePax(data)
+        continue
+      }
+      if (!entry) continue
+
+      yield { ...entry, data }
+
+      longName = undefined
+      longLinkname = undefined
+      pax = {}
+    }
+  } finally {
+    await reader.cancel()
+  }
+}
+
+/**
+ * Reads exact byte counts from a stream, keeping only unread chunks
+ */
+class BlockReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>
+  private chunks: Uint8Array[] = []
+  private buffered = 0
+  private done = false
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader()
+  }
+
+  /**
+   * Read exactly `length` bytes into a new array, null at the end of the stream
+   */
+  async read(length: number): Promise<Uint8Array | null> {
+    if (!(await this.fill(length))) return null
+
+    const result = new Uint8Array(length)
+    let offset = 0
+    while (offset < length) {
+      const chunk = this.chunks[0]
+      const count = Math.min(chunk.length, length - offset)
+      result.set(chunk.subarray(0, count), offset)
+      offset += count
+      this.consume(count)
+    }
+    return result
+  }
+
+  /**
+   * Skip `length` bytes without copying them, false at the end of the stream
+   */
+  async skip(length: number): Promise<boolean> {
+    let remaining = length
+    while (remaining > 0) {
+      // Read one chunk at a time, skipped data is never held in full
+      if (this.buffered === 0 && !(await this.fill(1))) return false
+
+      const count = Math.min(this.chunks[0].length, remaining)
+      remaining -= count
+      this.consume(count)
+    }
+    return true
+  }
+
+  async cancel(): Promise<void> {
+    if (!this.done) {
+      await this.reader.cancel()
+    }
+  }
+
+  private async fill(length: number): Promise<boolean> {
+    while (this.buffered < length && !this.done) {
+      const { done, value } = await this.reader.read()
+      if (done) {
+        this.done = true
+      } else if (value.length > 0) {
+        this.chunks.push(value)
+        this.buffered += value.length
+      }
+    }
+    return this.buffered >= length
+  }
+
+  private consume(count: number): void {
+    this.buffered -= count
+    if (count === this.chunks[0].length) {
+      this.chunks.shift()
+    } else {
+      this.chunks[0] = this.chunks[0].subarray(count)
+    }
+  }
+}
+
+function readString(bytes: Uint8Array): string {
+  const end = bytes.indexOf(0)
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end))
+}
+
+function parseOctal(bytes: Uint8Array): number | undefined {
+  const value = readString(bytes).trim()
+  return value ? parseInt(value, 8) : undefined
+}
+
+/**
+ * Sizes over 8GB are stored base-256 with the high bit of the first byte set
+ */
+function parseSize(bytes: Uint8Array): number {
+  if (bytes[0] & 0x80) {
+    let size = bytes[0] & 0x7f
+    for (let i = 1; i < bytes.length; i++) {
+      size = size * 256 + bytes[i]
+    }
+    return size
+  }
+  return parseOctal(bytes) ?? 0
+}
+
+/**
+ * The checksum is the sum of the header bytes with the checksum field as spaces
+ */
+function hasValidChecksum(header: Uint8Array): boolean {
+  const expected = parseOctal(header.subarray(148, 156))
+  let sum = 8 * 0x20
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    if (i < 148 || i >= 156) sum += header[i]
+  }
+  return expected === sum
+}
+
+/**
+ * Parse pax records, `<length> <key>=<value>\n`
+ */
+function parsePax(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {}
+  let offset = 0
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset)
+    if (space === -1) break
+    const length = parseInt(new TextDecoder().decode(data.subarray(offset, space)), 10)
+    if (!length) break
+
+    const record = new TextDecoder().decode(data.subarray(space + 1, offset + length - 1))
+    const separator = record.indexOf('=')
+    if (separator !== -1) {
+      records[record.slice(0, separator)] = record.slice(separator + 1)
+    }
+    offset += length
+  }
+
+  return records
+}
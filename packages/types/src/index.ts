@@ -159,6 +159,39 @@ export interface TypesVersions {
   }
 }
 
+/**
+ * Target of an "exports" or "imports" entry: a path, a condition map,
+ * fallbacks tried in order, or null to block the subpath
+ */
+export type PackageExportsTarget =
+  | string
+  | null
+  | PackageExportsConditions
+  | PackageExportsTarget[]
+
+export interface PackageExportsConditions {
+  [condition: string]: PackageExportsTarget
+}
+
+/**
+ * A single target for ".", or a map of subpaths ("./feature", "./utils/*")
+ * to targets
+ */
+export type PackageExports =
+  | PackageExportsTarget
+  | Record<string, PackageExportsTarget>
+
+/**
+ * Map of "#internal" specifiers to targets
+ */
+export type PackageImports = Record<string, PackageExportsTarget>
+
+/**
+ * Browser replacement for "main", or a map of files and modules to their
+ * browser replacements (false to ignore them)
+ */
+export type PackageBrowser = string | Record<string, string | false>
+
 export interface BaseManifest {
   name?: string
   version?: string
@@ -207,8 +240,9 @@ export interface BaseManifest {
   keywords?: string[]
   author?: string
   license?: string
-  exports?: Record<string, string>
-  imports?: Record<string, unknown>
+  exports?: PackageExports
+  imports?: PackageImports
+  browser?: PackageBrowser
 }
 
 export interface DependencyManifest extends BaseManifest {
@@ -1,16 +1,39 @@
 import { logger } from '@webpm/logger'
 import { env } from '@webpm/environment'
 import { NPMRegistry } from '@webpm/registry'
-import type { PackageMetadata } from '@webpm/registry'
+import type { PackageMetadata, SearchOptions, SearchResults } from '@webpm/registry'
 import {
   resolvePackageTree,
   resolveAndFetchPackage,
   resolveAndFetchWantedDependencies,
   getWantedDependenciesFromPackageJson,
+  getLockedDependencyTrees,
+  fetchLockedDependencies,
+  fetchLockedDependencyTree,
+  createLockfile,
+  createCommonJSRuntime,
+  createImportMap,
+  extractionPool,
+  getGlobalFileSystem,
+  linkHoisted,
+  linkIsolated,
+  resolveModule,
+  type CommonJSRuntime,
+  type CommonJSRuntimeOptions,
   type DependencyTreeNode,
+  type ExtractionFilter,
   type FetchedDependencyTree,
   type FetchedPackage,
+  type FileSystemInterface,
+  type HoistedLinkResult,
+  type ImportMap,
+  type ImportMapOptions,
+  type LinkOptions,
+  type LinkResult,
+  type NodeLinker,
+  type Lockfile,
   type PackageJsonManifest,
+  type ResolveModuleOptions,
   type ResolvePackageJsonOptions
 } from '@webpm/store'
 
@@ -32,6 +55,8 @@ export interface InstallOptions {
   peer?: boolean
   cache?: boolean
   registry?: string
+  /** Files to extract from each package, e.g. 'types-only' for editor installs */
+  extractionFilter?: ExtractionFilter
   onResult?: (result: FetchedDependencyTree) => void
 }
 
@@ -65,6 +90,7 @@ export interface InstallationResult {
   totalFiles: number
   totalSize: number
   allPackages: FetchedPackage[]
+  dependencyTrees: FetchedDependencyTree[]
   timings: {
     totalTime: number
     resolutionTime: number
@@ -81,11 +107,17 @@ export interface InstallationResult {
 }
 
 export interface WebpmConfig {
-  registry: string
+  /** Default registry URL, the .npmrc registry or npmjs are used when unset */
+  registry?: string
   cache: boolean
   concurrency: number
   retries: number
   timeout: number
+  nodeLinker: NodeLinker
+  /** .npmrc contents with scoped registries and registry credentials */
+  npmrc?: string
+  /** Variables substituted for `${NAME}` in the .npmrc contents */
+  env?: Record<string, string | undefined>
 }
 
 // Internal types for npm registry responses
@@ -126,21 +158,37 @@ interface NpmRegistryResponse {
 env.updateConfig({
   prefix: 'WEBPM_',
   defaults: {
-    REGISTRY: 'https://registry.npmjs.org',
     CACHE: 'true',
     CONCURRENCY: '5',
     RETRIES: '3',
     TIMEOUT: '30000',
+    NODE_LINKER: 'isolated',
   },
 })
 
+const NODE_LINKERS: readonly NodeLinker[] = ['isolated', 'hoisted']
+
+/**
+ * Read the node linker from the environment, unknown values fall back to the isolated linker
+ */
+function getNodeLinkerFromEnv(): NodeLinker {
+  const value = env.get('NODE_LINKER', 'isolated')
+  const nodeLinker = NODE_LINKERS.find((known) => known === value)
+  if (nodeLinker) {
+    return nodeLinker
+  }
+  logger.warn(`Ignoring unknown NODE_LINKER "${value}", expected one of: ${NODE_LINKERS.join(', ')}`)
+  return 'isolated'
+}
+
 // Default configuration with environment variable support
 const DEFAULT_CONFIG: WebpmConfig = {
-  registry: env.get('REGISTRY', 'https://registry.npmjs.org'),
+  registry: env.get('REGISTRY'),
   cache: env.getBoolean('CACHE', true),
   concurrency: env.getNumber('CONCURRENCY', 5),
   retries: env.getNumber('RETRIES', 3),
   timeout: env.getNumber('TIMEOUT', 30000),
+  nodeLinker: getNodeLinkerFromEnv(),
 }
 
 // Log the environment configuration being used
@@ -152,6 +200,7 @@ logger.debug('WebPM environment configuration', {
     concurrency: DEFAULT_CONFIG.concurrency,
     retries: DEFAULT_CONFIG.retries,
     timeout: DEFAULT_CONFIG.timeout,
+    nodeLinker: DEFAULT_CONFIG.nodeLinker,
   },
 })
 
@@ -168,9 +217,9 @@ export class WebPM {
 
   constructor(config: Partial<WebpmConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
-    this.registry = new NPMRegistry({
-      ...this.config,
-    })
+    this.registry = this.createRegistry(this.config.registry)
+    // Extract as many tarballs in parallel as are fetched
+    extractionPool.setSize(this.config.concurrency)
   }
 
   /**
@@ -200,6 +249,19 @@ export class WebPM {
     return maybePromise.finally(onDone)
   }
 
+  /**
+   * Create a registry client, the .npmrc registry applies unless a URL was set explicitly
+   */
+  private createRegistry(url?: string): NPMRegistry {
+    return new NPMRegistry({
+      url,
+      timeout: this.config.timeout,
+      maxRetries: this.config.retries,
+      npmrc: this.config.npmrc,
+      env: this.config.env,
+    })
+  }
+
   init(): Promise<void> {
     return this._wrapBusy(() => this.registry.init().then((registry) => {
       logger.info('WebPM initialized', { config: this.config, registry })
@@ -218,7 +280,7 @@ export class WebPM {
 
     return this._wrapBusy(() =>
       this.registry
-        .getLatestVersion(packageName)
+        .getLatestVersion(packageName, { fullMetadata: true })
         .then((metadata) => {
           logger.info('Package info fetched successfully', {
             packageName,
@@ -233,6 +295,23 @@ export class WebPM {
     )
   }
 
+  /**
+   * Search the npm registry for packages
+   * @param query - Search text, which can contain qualifiers like `keywords:react`
+   * @param options - Page size and offset, and keywords, author, maintainer or scope to filter by
+   * @returns Promise resolving to the matching packages with their scores
+   */
+  async searchPackages(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+    return this._wrapBusy(() =>
+      this.registry
+        .searchPackages(query, options)
+        .catch((error) => {
+          logger.error('Failed to search packages', { query, error })
+          throw error
+        })
+    )
+  }
+
   /**
    * Get specific version information for a package
    * @param packageName - The name of the package
@@ -250,7 +329,7 @@ export class WebPM {
     return this._wrapBusy(async () => {
       try {
         const response = await this.fetchWithRetry(
-          `${this.config.registry}/${packageName}`
+          `${this.config.registry ?? this.registry.url}/${packageName}`
         )
         const data = (await response.json()) as NpmRegistryResponse
 
@@ -301,11 +380,7 @@ export class WebPM {
 
       try {
         // Create registry instance
-        const registry = new NPMRegistry({
-          url: options.registry || this.config.registry,
-          timeout: this.config.timeout,
-          maxRetries: this.config.retries,
-        })
+        const registry = this.createRegistry(options.registry || this.config.registry)
 
         // Determine package version
         const packageVersion = options.version || 'latest'
@@ -353,11 +428,7 @@ export class WebPM {
 
       try {
         // Create registry instance
-        const registry = new NPMRegistry({
-          url: options.registry || this.config.registry,
-          timeout: this.config.timeout,
-          maxRetries: this.config.retries,
-        })
+        const registry = this.createRegistry(options.registry || this.config.registry)
 
         // Resolve, fetch, and extract all packages
         const fetchedTree = await resolveAndFetchPackage(
@@ -367,6 +438,7 @@ export class WebPM {
           {
             maxDepth: 10,
             maxConcurrent: options.maxConcurrent || this.config.concurrency,
+            extractionFilter: options.extractionFilter,
           }
         )
 
@@ -399,7 +471,7 @@ export class WebPM {
    * Install packages with proper untar handling and accurate metrics
    * @param packageJson - The package.json manifest object
    * @param handler - Untar handler for progress and completion callbacks
-   * @param options - Resolution options
+   * @param options - Resolution options, set frozenLockfile and lockfile to skip resolution
    */
   async installWithUntarHandler(
     packageJson: PackageJsonManifest,
@@ -416,11 +488,7 @@ export class WebPM {
         })
 
         // Create registry instance
-        const registry = new NPMRegistry({
-          url: this.config.registry,
-          timeout: this.config.timeout,
-          maxRetries: this.config.retries,
-        })
+        const registry = this.createRegistry(this.config.registry)
 
         // Extract wanted dependencies from package.json
         const wantedDependencies = getWantedDependenciesFromPackageJson(packageJson, options)
@@ -432,6 +500,7 @@ export class WebPM {
             totalFiles: 0,
             totalSize: 0,
             allPackages: [],
+            dependencyTrees: [],
             timings: {
               totalTime: performance.now() - startTime,
               resolutionTime: 0,
@@ -451,8 +520,14 @@ export class WebPM {
           return result
         }
 
+        // With a frozen lockfile the trees are read from it instead of being resolved
+        const lockedTrees = options.frozenLockfile
+          ? getLockedDependencyTrees(packageJson, { ...options, registry: registry.url })
+          : null
+
         // Collect all packages from all dependency trees
         const allPackages: FetchedPackage[] = []
+        const dependencyTrees: FetchedDependencyTree[] = []
         let totalResolutionTime = 0
         let totalFetchingTime = 0
         let totalExtractionTime = 0
@@ -465,20 +540,38 @@ export class WebPM {
           logger.info(`Processing ${depType} dependency: ${wantedDep.alias}@${wantedDep.bareSpecifier}`)
 
           try {
-            console.log(`🔍 installWithUntarHandler: calling resolveAndFetchPackage with autoInstallPeers = ${options.autoInstallPeers}`)
-            const result = await resolveAndFetchPackage(
-              wantedDep.alias,
-              wantedDep.bareSpecifier,
-              registry,
-              {
+            const lockedTree = lockedTrees?.get(wantedDep.alias)
+            if (lockedTrees && !lockedTree) {
+              // Optional dependencies that failed when the lockfile was written are not in it
+              logger.warn(`Skipping ${wantedDep.alias}@${wantedDep.bareSpecifier}, it is not in the lockfile`)
+              continue
+            }
+
+            let result: FetchedDependencyTree | null
+            if (lockedTree) {
+              result = await fetchLockedDependencyTree(wantedDep.alias, lockedTree, {
                 maxConcurrent: options.maxConcurrent || this.config.concurrency,
-                autoInstallPeers: options.autoInstallPeers
-              }
-            )
+                registry,
+                extractionFilter: options.extractionFilter
+              })
+            } else {
+              logger.debug(`Resolving ${wantedDep.alias}@${wantedDep.bareSpecifier} with autoInstallPeers = ${options.autoInstallPeers}`)
+              result = await resolveAndFetchPackage(
+                wantedDep.alias,
+                wantedDep.bareSpecifier,
+                registry,
+                {
+                  maxConcurrent: options.maxConcurrent || this.config.concurrency,
+                  autoInstallPeers: options.autoInstallPeers,
+                  extractionFilter: options.extractionFilter
+                }
+              )
+            }
 
             if (result && result.allFetchedPackages) {
               const packages = Array.from(result.allFetchedPackages.values())
               allPackages.push(...packages)
+              dependencyTrees.push(result)
 
               // Accumulate timing
               totalResolutionTime += result.timings.resolutionTime
@@ -529,6 +622,7 @@ export class WebPM {
           totalFiles: currentProgress.totalFiles,
           totalSize: currentProgress.totalSize,
           allPackages,
+          dependencyTrees,
           timings: {
             totalTime,
             resolutionTime: totalResolutionTime,
@@ -627,11 +721,7 @@ export class WebPM {
 
       try {
         // Create registry instance
-        const registry = new NPMRegistry({
-          url: this.config.registry,
-          timeout: this.config.timeout,
-          maxRetries: this.config.retries,
-        })
+        const registry = this.createRegistry(this.config.registry)
 
         // Extract wanted dependencies from package.json
         const wantedDependencies = getWantedDependenciesFromPackageJson(packageJson, options)
@@ -647,15 +737,22 @@ export class WebPM {
           logger.info(`  ${depType}: ${dep.alias}@${dep.bareSpecifier}`)
         }
 
-        // Resolve and fetch all wanted dependencies
-        const results = await resolveAndFetchWantedDependencies(
-          wantedDependencies,
-          registry,
-          {
-            maxConcurrent: options.maxConcurrent || this.config.concurrency,
-            autoInstallPeers: options.autoInstallPeers
-          }
-        )
+        // Resolve and fetch all wanted dependencies, or fetch what the lockfile records
+        const results = options.frozenLockfile
+          ? await fetchLockedDependencies(packageJson, registry, {
+              ...options,
+              registry: registry.url,
+              maxConcurrent: options.maxConcurrent || this.config.concurrency
+            })
+          : await resolveAndFetchWantedDependencies(
+              wantedDependencies,
+              registry,
+              {
+                maxConcurrent: options.maxConcurrent || this.config.concurrency,
+                autoInstallPeers: options.autoInstallPeers,
+                extractionFilter: options.extractionFilter
+              }
+            )
 
         // Calculate summary statistics
         const totalPackages = results.reduce((sum, result) => sum + result.totalPackages, 0)
@@ -682,6 +779,92 @@ export class WebPM {
     })
   }
 
+  /**
+   * Create a pnpm-compatible lockfile from the trees an install resolved
+   * @param packageJson - The package.json manifest the trees were installed from
+   * @param trees - Dependency trees from installWithUntarHandler or resolveAndFetchPackageJson
+   * @returns Lockfile that can be serialized with serializeLockfile
+   */
+  createLockfile(
+    packageJson: PackageJsonManifest,
+    trees: FetchedDependencyTree[]
+  ): Lockfile {
+    return createLockfile(packageJson, trees, { registry: this.config.registry ?? this.registry.url })
+  }
+
+  /**
+   * Create a browser import map for installed dependency trees, to be
+   * rendered with getImportMapScript
+   * @param trees - Dependency trees from installWithUntarHandler or resolveAndFetchPackageJson
+   * @param options - URL prefix package files are served under and conditions for "exports"
+   * @returns Import map with direct dependencies in "imports" and nested versions in "scopes"
+   */
+  createImportMap(
+    trees: FetchedDependencyTree[],
+    options: ImportMapOptions = {}
+  ): ImportMap {
+    return createImportMap(trees, options)
+  }
+
+  /**
+   * Write a node_modules layout for installed dependency trees, using the
+   * configured nodeLinker (hoisted on filesystems without symlinks)
+   * @param trees - Dependency trees from installWithUntarHandler or resolveAndFetchPackageJson
+   * @param options - Project directory and filesystem to write to (defaults to the global filesystem)
+   * @returns Counts of the packages, files and symlinks written, and nested packages for the hoisted layout
+   */
+  async linkNodeModules(
+    trees: FetchedDependencyTree[],
+    options: LinkOptions & { fs?: FileSystemInterface } = {}
+  ): Promise<LinkResult | HoistedLinkResult> {
+    return this._wrapBusy(async () => {
+      const fs = options.fs ?? await getGlobalFileSystem()
+      const linkOptions = { projectDir: options.projectDir }
+
+      // Filesystems without symlinks (e.g. OPFS) can only hold a hoisted layout
+      const nodeLinker = fs.symlink ? this.config.nodeLinker : 'hoisted'
+      if (nodeLinker !== this.config.nodeLinker) {
+        logger.warn('Filesystem does not support symlinks, using the hoisted node_modules layout')
+      }
+
+      if (nodeLinker === 'hoisted') {
+        const result = await linkHoisted(fs, trees, linkOptions)
+        for (const { id, requiredBy, conflictsWith } of result.nested) {
+          logger.info(`Nested ${id} under ${requiredBy}, ${conflictsWith} is hoisted`)
+        }
+        return result
+      }
+      return linkIsolated(fs, trees, linkOptions)
+    })
+  }
+
+  /**
+   * Resolve which file a specifier loads when imported or required from a file
+   * @param specifier - Relative path, package name with optional subpath, or "#" import
+   * @param fromFile - Path of the importing file
+   * @param options - Conditions and filesystem to resolve against (defaults to the global filesystem)
+   * @returns Real path of the resolved file, or false when the browser field ignores the module
+   */
+  async resolveModule(
+    specifier: string,
+    fromFile: string,
+    options: ResolveModuleOptions & { fs?: FileSystemInterface } = {}
+  ): Promise<string | false> {
+    const { fs, ...resolveOptions } = options
+    return resolveModule(fs ?? await getGlobalFileSystem(), specifier, fromFile, resolveOptions)
+  }
+
+  /**
+   * Create a CommonJS runtime that requires installed packages from a filesystem
+   * @param options - Built-in module shims, conditions, globals and filesystem (defaults to the global filesystem)
+   * @returns Runtime whose require() preloads and executes modules
+   */
+  async createCommonJSRuntime(
+    options: Partial<CommonJSRuntimeOptions> = {}
+  ): Promise<CommonJSRuntime> {
+    return createCommonJSRuntime({ ...options, fs: options.fs ?? await getGlobalFileSystem() })
+  }
+
   /**
    * Log the dependency tree structure (for debugging)
    */
@@ -729,6 +912,7 @@ export class WebPM {
    */
   updateConfig(newConfig: Partial<WebpmConfig>): void {
     this.config = { ...this.config, ...newConfig }
+    extractionPool.setSize(this.config.concurrency)
     logger.info('Configuration updated', { config: this.config })
   }
 
@@ -743,12 +927,14 @@ export class WebPM {
 
     // Refresh the configuration from environment variables
     this.config = {
-      registry: env.get('REGISTRY', 'https://registry.npmjs.org')!,
+      registry: env.get('REGISTRY'),
       cache: env.getBoolean('CACHE', true)!,
       concurrency: env.getNumber('CONCURRENCY', 5)!,
       retries: env.getNumber('RETRIES', 3)!,
       timeout: env.getNumber('TIMEOUT', 30000)!,
+      nodeLinker: getNodeLinkerFromEnv(),
     }
+    extractionPool.setSize(this.config.concurrency)
 
     logger.info('Environment configuration updated and config refreshed', {
       config: this.config,